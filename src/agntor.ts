@@ -1,23 +1,171 @@
 import { createHash } from 'crypto';
+import { z } from 'zod';
 import type {
   AgntorConfig,
+  AgntorEmitterEventMap,
   AgntorEvent,
   AgntorEventCallback,
+  AgntorEventMap,
+  EventIteratorOptions,
+  ListenerErrorEvent,
+  AgntorMiddleware,
+  AgntorRequestContext,
+  AgntorResponseContext,
+  HttpMethod,
+  MutationOptions,
   AgentIdentity,
   VerificationStatus,
   AttestationParams,
   EscrowCreateParams,
   EscrowRecord,
   SettlementResult,
+  DisputeRecord,
   ReputationScore,
   ReputationHistoryEntry,
+  BatchLookupResponse,
+  TransactionMeta,
 } from './types.js';
 import { AgntorError } from './types.js';
 import { validateUrl } from './utils/network.js';
+import { IdempotencyCache, createIdempotencyKey } from './idempotency.js';
+import {
+  CircuitBreaker,
+  computeBackoff,
+  isRetryableError,
+  isRetryableRequest,
+  resolveRetryPolicy,
+  retryAfterFromResponse,
+} from './retry.js';
+import type { ResolvedRetryPolicy } from './retry.js';
+import { parsePaymentRequired, selectRequirement, toTransactionMeta } from './x402.js';
+import type { PaymentReceipt, TrustedResponse, X402Options } from './x402.js';
+import { settlementGuard } from './settlement-guard.js';
+import {
+  AgentIdentitySchema,
+  BadgeSchema,
+  DisputeRecordSchema,
+  EscrowPageSchema,
+  EscrowRecordSchema,
+  ReputationHistorySchema,
+  ReputationHistoryPageSchema,
+  ReputationBatchSchema,
+  ReputationScoreSchema,
+  SettlementResultSchema,
+  VerificationBatchSchema,
+  VerificationStatusSchema,
+  withValidationMode,
+} from './schemas.js';
+import type { ResponseValidationMode } from './schemas.js';
+import {
+  EventDeduplicator,
+  STREAM_DEFAULTS,
+  STREAM_EVENTS,
+  eventKey,
+  isFatalStreamError,
+  parseServerSentEvents,
+  sleep,
+} from './event-stream.js';
+import type { EventSubscription, SubscribeOptions } from './event-stream.js';
+import { signRequest } from './signing.js';
+import { Outbox } from './outbox.js';
+import { EscrowWatcher } from './escrow-watcher.js';
+import { LookupCache } from './lookup-cache.js';
+import type { CachedLookup, LookupOptions } from './lookup-cache.js';
+import { MAX_BATCH_SIZE, mapConcurrent } from './batch.js';
+import type { BatchLookupOptions, BatchResult } from './batch.js';
+import { EscrowStateTracker, allowedEscrowActions } from './escrow-state.js';
+import { validateMilestones } from './milestones.js';
+import { resolvePayeeShares } from './payees.js';
+import { normalizeEscrowAmounts } from './money.js';
+import { scoreReputation } from './reputation-score.js';
+import type { ReputationBreakdown, ReputationScoringOptions } from './reputation-score.js';
+import { aggregateHistory, filterHistory, reputationHistoryQuery } from './reputation-history.js';
+import type {
+  HistoryAggregationOptions,
+  HistoryBucket,
+  ReputationHistoryFilter,
+  ReputationHistoryPage,
+} from './reputation-history.js';
+import { assessCounterparty } from './counterparty.js';
+import type { AssessCounterpartyOptions, CounterpartyReport } from './counterparty.js';
+import { escrowListQuery, summarizeEscrows } from './escrow-query.js';
+import type { EscrowListFilter, EscrowPage, EscrowSummary } from './escrow-query.js';
+import { waitForEscrow } from './escrow-wait.js';
+import { buildEvidence, encodeEscrowConditions, encodeEvidence, evaluateConditions, signEvidence } from './conditions.js';
+import type { EvaluateEscrowOptions, EvidenceBundle } from './conditions.js';
+import type { EscrowWaitTarget, WaitForOptions } from './escrow-wait.js';
+import type { EscrowAction } from './escrow-state.js';
+import type { OutboxEntry } from './outbox.js';
+import type { RequestSigningOptions } from './signing.js';
 
 const DEFAULT_BASE_URL = 'https://api.agntor.com';
 const DEFAULT_TIMEOUT = 30_000;
 const DEFAULT_MAX_RETRIES = 3;
+/** Statuses meaning the API has no batch endpoint */
+const BATCH_UNSUPPORTED = new Set([404, 405, 501]);
+
+type AnyListener = (data: unknown) => void | Promise<void>;
+
+type DurableEvent = 'escrow_created' | 'escrow_funded' | 'escrow_cancelled' | 'escrow_settled' | 'dispute_opened';
+
+/** Response schema for each mutation the outbox may queue, keyed by its event */
+const DURABLE_SCHEMAS: { [E in DurableEvent]: z.ZodType<AgntorEventMap[E]> } = {
+  escrow_created: EscrowRecordSchema,
+  escrow_funded: EscrowRecordSchema,
+  escrow_cancelled: EscrowRecordSchema,
+  escrow_settled: SettlementResultSchema,
+  dispute_opened: DisputeRecordSchema,
+};
+
+/** Payload schema for each event the server may push over the live channel */
+const STREAM_SCHEMAS: { [E in AgntorEvent]?: z.ZodType<AgntorEventMap[E]> } = {
+  escrow_created: EscrowRecordSchema,
+  escrow_funded: EscrowRecordSchema,
+  escrow_settled: SettlementResultSchema,
+  escrow_cancelled: EscrowRecordSchema,
+  dispute_opened: DisputeRecordSchema,
+  dispute_resolved: DisputeRecordSchema,
+  verification_changed: VerificationStatusSchema,
+  reputation_updated: ReputationScoreSchema,
+};
+
+/** Parse a fetch `body` into a JSON value for middleware, if it is a JSON string. */
+function parseJsonBody(body: RequestInit['body']): unknown {
+  if (body === undefined || body === null) return undefined;
+  return typeof body === 'string' ? parseJsonText(body) : body;
+}
+
+/** Serialize a (possibly middleware-rewritten) body back into a fetch `body`. */
+function serializeBody(body: unknown): RequestInit['body'] {
+  if (body === undefined) return undefined;
+  if (typeof body === 'string') return body;
+  if (body === null || typeof body !== 'object' || Array.isArray(body) || Object.getPrototypeOf(body) === Object.prototype) {
+    return JSON.stringify(body);
+  }
+  return body as RequestInit['body'];
+}
+
+/** Attach an x402 proof header to fetch options. */
+function withProof(options: RequestInit, token?: string): RequestInit {
+  if (!token) return options;
+  return {
+    ...options,
+    headers: {
+      ...(options.headers as Record<string, string> | undefined),
+      'X-AGNTOR-Proof': token,
+    },
+  };
+}
+
+/** Parse response text as JSON, falling back to the raw text. */
+function parseJsonText(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
 
 /**
  * Agntor SDK — Trust & payment rail for agents.
@@ -30,8 +178,22 @@ export class Agntor {
   private readonly chain: string;
   private readonly baseUrl: string;
   private readonly timeout: number;
-  private readonly maxRetries: number;
-  private readonly listeners = new Map<AgntorEvent, Set<AgntorEventCallback>>();
+  private readonly retry: ResolvedRetryPolicy;
+  private readonly breaker?: CircuitBreaker;
+  private readonly fetchImpl: typeof fetch;
+  private readonly middleware: AgntorMiddleware[];
+  private readonly idempotency: IdempotencyCache;
+  private readonly x402: X402Options;
+  private readonly responseValidation: ResponseValidationMode;
+  private readonly testMode: boolean;
+  private readonly signing?: RequestSigningOptions;
+  private readonly listeners = new Map<keyof AgntorEmitterEventMap, Map<AnyListener, boolean>>();
+  private readonly dedup = new EventDeduplicator();
+  private readonly escrowStates = new EscrowStateTracker();
+  /** Open `subscribe` channels that carry escrow events */
+  private escrowStreams = 0;
+  /** Batch endpoints the API turned out not to have */
+  private readonly unbatched = new Set<string>();
 
   /** Identity module */
   public readonly identity: IdentityModule;
@@ -43,6 +205,12 @@ export class Agntor {
   public readonly settle: SettleModule;
   /** Reputation module */
   public readonly reputation: ReputationModule;
+  /** Offline outbox (only when `outbox` is configured) */
+  public readonly outbox?: Outbox;
+  /** Expiry watcher (only when `watcher` is configured) */
+  public readonly watcher?: EscrowWatcher;
+  /** Lookup cache (only when `cache` is configured) */
+  public readonly cache?: LookupCache;
 
   constructor(config: AgntorConfig) {
     if (!config.apiKey) {
@@ -60,7 +228,41 @@ export class Agntor {
     this.chain = config.chain;
     this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
     this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
-    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retry = resolveRetryPolicy(config.retry, config.maxRetries ?? DEFAULT_MAX_RETRIES);
+    this.breaker = this.retry.circuitBreaker ? new CircuitBreaker(this.retry.circuitBreaker) : undefined;
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+    this.middleware = [...(config.middleware ?? [])];
+    this.idempotency = new IdempotencyCache(config.idempotency?.ttl, config.idempotency?.maxEntries);
+    this.x402 = config.x402 ?? {};
+    this.responseValidation = config.responseValidation ?? 'lenient';
+    this.testMode = config.testMode === true;
+    this.signing = config.signing;
+    if (config.outbox) {
+      this.outbox = new Outbox(config.outbox, {
+        deliver: (entry) => this.replayQueued(entry),
+        isTransient: (err) => this.isTransientFailure(err),
+        onDelivered: (event) => this.emit('outbox_delivered', event),
+        onFailed: (event) => this.emit('outbox_failed', event),
+      });
+    }
+    if (config.watcher) {
+      this.watcher = new EscrowWatcher(config.watcher, {
+        status: (escrowId) => this.escrow.status(escrowId),
+        cancel: (escrowId) => this.escrow.cancel(escrowId),
+        slash: async (escrowId) => {
+          await this.settle.slash(escrowId);
+          return this.knownEscrow(escrowId) ?? this.escrow.status(escrowId);
+        },
+        // A queued cancel or slash is delivered by the outbox; check again later
+        isTransient: (err) => (err instanceof AgntorError && err.code === 'OPERATION_QUEUED') || this.isTransientFailure(err),
+        onExpiring: (event) => this.emit('escrow_expiring', event),
+        onExpired: (event) => this.emit('escrow_expired', event),
+      });
+    }
+
+    if (config.cache) {
+      this.cache = new LookupCache(config.cache);
+    }
 
     // Bind sub-modules
     this.identity = new IdentityModule(this);
@@ -74,195 +276,886 @@ export class Agntor {
   // Events
   // ---------------------------------------------------------------------------
 
-  on(event: AgntorEvent, callback: AgntorEventCallback): void {
+  /**
+   * Listen for an event. Listeners may be async; a listener that throws
+   * or rejects never affects the SDK call that emitted the event — the
+   * failure is delivered to `error` listeners instead.
+   */
+  on<E extends keyof AgntorEmitterEventMap>(event: E, callback: AgntorEventCallback<E>): void {
+    this.addListener(event, callback as AnyListener, false);
+  }
+
+  /** Like `on`, but the listener is removed after its first call. */
+  once<E extends keyof AgntorEmitterEventMap>(event: E, callback: AgntorEventCallback<E>): void {
+    this.addListener(event, callback as AnyListener, true);
+  }
+
+  off<E extends keyof AgntorEmitterEventMap>(event: E, callback: AgntorEventCallback<E>): void {
+    this.listeners.get(event)?.delete(callback as AnyListener);
+  }
+
+  /**
+   * Iterate over occurrences of `event` with `for await`. Payloads are
+   * buffered while the loop body runs; the iteration ends when `signal`
+   * aborts or the loop exits.
+   *
+   * @example
+   * ```ts
+   * for await (const escrow of agntor.events('escrow_created', { signal })) {
+   *   console.log(escrow.escrowId);
+   * }
+   * ```
+   */
+  events<E extends AgntorEvent>(event: E, options: EventIteratorOptions = {}): AsyncIterableIterator<AgntorEventMap[E]> {
+    const { signal } = options;
+    const queue: AgntorEventMap[E][] = [];
+    let wake: (() => void) | undefined;
+    let done = signal?.aborted ?? false;
+
+    const listener = (data: AgntorEventMap[E]) => {
+      queue.push(data);
+      wake?.();
+    };
+    const finish = () => {
+      done = true;
+      this.off(event, listener);
+      signal?.removeEventListener('abort', finish);
+      wake?.();
+    };
+
+    if (!done) {
+      this.on(event, listener);
+      signal?.addEventListener('abort', finish, { once: true });
+    }
+
+    return {
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+      async next(): Promise<IteratorResult<AgntorEventMap[E]>> {
+        while (queue.length === 0 && !done) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+        if (queue.length > 0) return { value: queue.shift()!, done: false };
+        return { value: undefined, done: true };
+      },
+      async return(): Promise<IteratorResult<AgntorEventMap[E]>> {
+        finish();
+        queue.length = 0;
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  /** @internal */
+  emit<E extends AgntorEvent>(event: E, data: AgntorEventMap[E]): void {
+    // Skip changes already delivered by the live event stream
+    if (!this.dedup.mark(eventKey(event, data))) return;
+    this.dispatch(event, data);
+  }
+
+  private addListener(event: keyof AgntorEmitterEventMap, callback: AnyListener, once: boolean): void {
     if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
+      this.listeners.set(event, new Map());
     }
-    this.listeners.get(event)!.add(callback);
+    this.listeners.get(event)!.set(callback, once);
   }
 
-  off(event: AgntorEvent, callback: AgntorEventCallback): void {
-    this.listeners.get(event)?.delete(callback);
+  private dispatch(event: AgntorEvent, data: unknown): void {
+    this.escrowStates.observe(event, data);
+    this.invalidateLookups(event, data);
+    this.invoke(event, data, (error) => this.reportListenerError({ event, data, error }));
   }
 
-  /** @internal */
-  emit(event: AgntorEvent, data: unknown): void {
+  /**
+   * Call each listener, routing sync throws and async rejections to
+   * `onFailure`. Listeners are snapshotted first so `once` and `off`
+   * during dispatch behave predictably.
+   */
+  private invoke(event: keyof AgntorEmitterEventMap, data: unknown, onFailure: (error: unknown) => void): void {
     const cbs = this.listeners.get(event);
-    if (cbs) {
-      for (const cb of cbs) {
-        cb(data);
+    if (!cbs) return;
+
+    for (const [cb, once] of [...cbs]) {
+      if (once) cbs.delete(cb);
+      try {
+        const result = cb(data);
+        if (result instanceof Promise) result.catch(onFailure);
+      } catch (err) {
+        onFailure(err);
       }
     }
   }
 
+  /** Drop cached lookups that an event makes stale. */
+  private invalidateLookups(event: AgntorEvent, data: unknown): void {
+    const lookup: CachedLookup | undefined = event === 'verification_changed' ? 'verification'
+      : event === 'reputation_updated' ? 'reputation'
+      : undefined;
+    const agentId = (data as { agentId?: unknown } | null)?.agentId;
+    if (this.cache && lookup && typeof agentId === 'string') {
+      void this.cache.invalidate(lookup, agentId);
+    }
+  }
+
+  private reportListenerError(failure: ListenerErrorEvent): void {
+    if (!this.listeners.get('error')?.size) {
+      process.emitWarning(`Unhandled error in "${failure.event}" listener: ${String(failure.error)}`, 'AgntorListenerWarning');
+      return;
+    }
+    // A failing `error` listener must not recurse back into itself
+    this.invoke('error', failure, (error) => {
+      process.emitWarning(`Unhandled error in "error" listener: ${String(error)}`, 'AgntorListenerWarning');
+    });
+  }
+
   // ---------------------------------------------------------------------------
-  // HTTP transport (internal)
+  // Live event stream
   // ---------------------------------------------------------------------------
 
-  /** @internal */
-  async request<T = unknown>(path: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
+  /**
+   * Open a server-push (SSE) channel and feed remote escrow, verification,
+   * and reputation changes into the `on` / `off` emitter.
+   *
+   * The connection reconnects with exponential backoff and resumes from
+   * the last received event ID. Events already emitted locally (e.g. the
+   * `escrow_created` from this client's own `escrow.create`) are not
+   * delivered twice.
+   */
+  subscribe(options: SubscribeOptions = {}): EventSubscription {
+    const controller = new AbortController();
+    const state = { lastEventId: options.lastEventId };
+    const carriesEscrow = (options.events ?? STREAM_EVENTS).some((event) => event.startsWith('escrow_'));
 
-    // SSRF guard — validate constructed URL before any network I/O
-    await validateUrl(url);
+    if (carriesEscrow) this.escrowStreams++;
+    void this.runEventStream(options, state, controller.signal).finally(() => {
+      if (carriesEscrow) this.escrowStreams--;
+    });
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'x-api-key': this.apiKey,
-      'x-agent-id': this.agentId,
-      'x-chain': this.chain,
-      ...(options.headers as Record<string, string> | undefined),
+    return {
+      get lastEventId() {
+        return state.lastEventId;
+      },
+      get closed() {
+        return controller.signal.aborted;
+      },
+      close: () => controller.abort(),
     };
+  }
 
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+  private async runEventStream(
+    options: SubscribeOptions,
+    state: { lastEventId?: string },
+    signal: AbortSignal,
+  ): Promise<void> {
+    const wanted = new Set<AgntorEvent>(options.events ?? STREAM_EVENTS);
+    const query = options.events ? `?events=${encodeURIComponent(options.events.join(','))}` : '';
+    const path = `/api/v1/events/stream${query}`;
+    const maxDelay = options.maxReconnectDelay ?? STREAM_DEFAULTS.maxReconnectDelay;
+    let baseDelay = options.reconnectDelay ?? STREAM_DEFAULTS.reconnectDelay;
+    let delay = baseDelay;
+    // A throwing `onError` must not end the stream
+    const report = (error: Error) => {
       try {
-        const controller = new AbortController();
-        const timer = setTimeout(() => controller.abort(), this.timeout);
+        options.onError?.(error);
+      } catch (err) {
+        process.emitWarning(`Unhandled error in event stream onError: ${String(err)}`, 'AgntorListenerWarning');
+      }
+    };
 
-        const response = await fetch(url, {
-          ...options,
-          headers,
-          signal: controller.signal,
+    while (!signal.aborted) {
+      try {
+        const url = `${this.baseUrl}${path}`;
+        await this.guardUrl(url);
+
+        const response = await this.fetchImpl(url, {
+          method: 'GET',
+          headers: this.sign('GET', url, {
+            ...this.defaultHeaders(),
+            Accept: 'text/event-stream',
+            ...(state.lastEventId ? { 'Last-Event-ID': state.lastEventId } : {}),
+          }),
+          signal,
         });
-        clearTimeout(timer);
 
-        if (response.status === 402) {
-          const data = await response.json();
-          return data as T;
-        }
-
-        if (!response.ok) {
-          const body = await response.text().catch(() => '');
+        if (!response.ok || !response.body) {
           throw new AgntorError(
-            `Agntor API error: ${response.status} ${response.statusText}${body ? ` – ${body}` : ''}`,
-            'API_ERROR',
+            `Event stream error: ${response.status} ${response.statusText}`,
+            'STREAM_ERROR',
             response.status,
           );
         }
 
-        return (await response.json()) as T;
+        delay = baseDelay;
+
+        for await (const message of parseServerSentEvents(response.body, signal)) {
+          if (message.retry !== undefined) {
+            baseDelay = delay = message.retry;
+          }
+          if (message.id !== undefined) {
+            state.lastEventId = message.id;
+            // Resumed streams may replay events we already delivered
+            if (!this.dedup.mark(`id:${message.id}`)) continue;
+          }
+
+          const event = message.event as AgntorEvent;
+          const schema = STREAM_SCHEMAS[event];
+          if (!wanted.has(event) || !schema) continue;
+
+          let payload: unknown;
+          try {
+            payload = JSON.parse(message.data);
+          } catch {
+            report(new AgntorError(`Malformed ${event} event payload`, 'INVALID_EVENT'));
+            continue;
+          }
+          let data: unknown;
+          try {
+            data = this.validate<unknown>(schema, payload, `${event} event`);
+          } catch (err) {
+            const issues = (err as AgntorError).issues;
+            report(new AgntorError(`Invalid ${event} event payload`, 'INVALID_EVENT', undefined, { issues }));
+            continue;
+          }
+
+          if (this.dedup.mark(eventKey(event, data))) {
+            this.dispatch(event, data);
+          }
+        }
+      } catch (err) {
+        if (signal.aborted) break;
+        report(err as Error);
+        if (isFatalStreamError(err)) break;
+      }
+
+      if (signal.aborted) break;
+      await sleep(delay, signal);
+      delay = Math.min(delay * 2, maxDelay);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // HTTP transport (internal)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Whether a live channel is pushing escrow events, so waiting code
+   * can rely on events instead of polling.
+   *
+   * @internal
+   */
+  hasLiveChannel(): boolean {
+    return this.escrowStreams > 0;
+  }
+
+  /** @internal */
+  async request<T = unknown>(path: string, options: RequestInit = {}): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+
+    // SSRF guard — validate constructed URL before any network I/O
+    await this.guardUrl(url);
+
+    const method = ((options.method ?? 'GET').toUpperCase()) as HttpMethod;
+    const retryable = isRetryableRequest(method, (options.headers as Record<string, string> | undefined) ?? {});
+    const startedAt = Date.now();
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
+      try {
+        const { data } = await this.send(path, options, attempt);
+        return data as T;
       } catch (err) {
         lastError = err as Error;
 
-        // Don't retry client errors (4xx) or abort errors
-        if (err instanceof AgntorError && err.statusCode && err.statusCode >= 400 && err.statusCode < 500) {
+        if (!retryable || attempt >= this.retry.maxRetries || !isRetryableError(err, this.retry)) {
           throw err;
         }
 
-        if ((err as Error).name === 'AbortError') {
-          throw new AgntorError(
-            `Request to ${path} timed out after ${this.timeout}ms`,
-            'TIMEOUT',
-          );
-        }
+        // Honor Retry-After when the server sent one, else back off with jitter
+        const delay = (err instanceof AgntorError ? err.retryAfterMs : undefined)
+          ?? computeBackoff(attempt, this.retry);
 
-        // Retry on transient failures
-        if (attempt < this.maxRetries) {
-          await new Promise((r) => setTimeout(r, 2 ** attempt * 200));
+        if (Date.now() - startedAt + delay > this.retry.maxElapsed) {
+          throw err;
         }
+
+        await sleep(delay, options.signal ?? undefined);
       }
     }
 
     throw lastError ?? new AgntorError('Request failed', 'UNKNOWN');
   }
 
-  // ---------------------------------------------------------------------------
-  // Trust-aware request (x402 middleware)
-  // ---------------------------------------------------------------------------
+  /**
+   * GET `path` and validate the response against `schema`.
+   *
+   * @internal
+   */
+  async get<T>(path: string, schema: z.ZodType<T>, signal?: AbortSignal): Promise<T> {
+    const data = await this.request(path, signal ? { signal } : {});
+    return this.validate(schema, data, path);
+  }
 
   /**
-   * Make a trust-aware HTTP request.
+   * `get` through the lookup cache, when one is configured.
    *
-   * If the server responds with 402 Payment Required and includes an
-   * `X-AGNTOR-Proof` header, this method automatically attaches the
-   * proof to a retry so the caller never has to handle the payment
-   * handshake manually.
+   * @internal
+   */
+  async lookup<T>(lookup: CachedLookup, agentId: string, path: string, schema: z.ZodType<T>, options?: LookupOptions): Promise<T> {
+    const fetch = () => this.get(path, schema, options?.signal);
+    return this.cache ? this.cache.get(lookup, agentId, fetch, options) : fetch();
+  }
+
+  /**
+   * Look up many agents: fresh cached results first, then `batchPath`
+   * for the rest, then one `lookup` per agent (at most `concurrency` at
+   * a time) for whatever the batch did not answer. A batch endpoint that
+   * returns 404, 405, or 501 is not tried again.
    *
-   * @param path   API path
-   * @param options Fetch options
-   * @param paymentToken  Optional pre-fetched x402 proof token
+   * Returns one result per entry of `agentIds`, in order; failures are
+   * returned, not thrown.
+   *
+   * @internal
    */
-  async trustedRequest<T = unknown>(
+  async lookupMany<T>(
+    lookup: CachedLookup,
+    agentIds: string[],
+    batchPath: string,
+    itemPath: (agentId: string) => string,
+    schema: z.ZodType<T>,
+    batchSchema: z.ZodType<BatchLookupResponse<T>>,
+    options: BatchLookupOptions = {},
+  ): Promise<BatchResult<T>[]> {
+    const results = new Map<string, BatchResult<T>>();
+    let pending = [...new Set(agentIds)];
+
+    if (this.cache && !options.refresh) {
+      const cache = this.cache;
+      const cached = await Promise.all(pending.map((agentId) => cache.peek<T>(lookup, agentId)));
+      pending.forEach((agentId, i) => {
+        if (cached[i] !== undefined) results.set(agentId, { agentId, ok: true, value: cached[i] });
+      });
+      pending = pending.filter((agentId) => !results.has(agentId));
+    }
+
+    for (let i = 0; pending.length > 1 && i < pending.length && !this.unbatched.has(batchPath); i += MAX_BATCH_SIZE) {
+      const chunk = new Set(pending.slice(i, i + MAX_BATCH_SIZE));
+      let response: BatchLookupResponse<T>;
+      try {
+        const body = JSON.stringify({ agentIds: [...chunk] });
+        const data = await this.request(batchPath, { method: 'POST', body, ...(options.signal ? { signal: options.signal } : {}) });
+        response = this.validate(batchSchema, data, batchPath);
+      } catch (err) {
+        if (options.signal?.aborted) {
+          // An aborted batch is not retried one by one
+          const error = err instanceof Error ? err : new Error(String(err));
+          for (const agentId of pending) if (!results.has(agentId)) results.set(agentId, { agentId, ok: false, error });
+          break;
+        }
+        if (err instanceof AgntorError && err.statusCode !== undefined && BATCH_UNSUPPORTED.has(err.statusCode)) {
+          this.unbatched.add(batchPath);
+        }
+        // Agents the batch did not answer are looked up one by one
+        continue;
+      }
+      for (const { agentId, data, error } of response.results) {
+        if (!chunk.has(agentId) || results.has(agentId)) continue;
+        if (data !== undefined) {
+          results.set(agentId, { agentId, ok: true, value: data });
+          await this.cache?.set(lookup, agentId, data);
+        } else if (error) {
+          const failure = new AgntorError(`Agntor API error: ${error.status} – ${error.message}`, 'API_ERROR', error.status);
+          results.set(agentId, { agentId, ok: false, error: failure });
+        }
+      }
+    }
+    pending = pending.filter((agentId) => !results.has(agentId));
+
+    await mapConcurrent(pending, options.concurrency, async (agentId) => {
+      try {
+        const value = await this.lookup(lookup, agentId, itemPath(agentId), schema, options);
+        results.set(agentId, { agentId, ok: true, value });
+      } catch (err) {
+        results.set(agentId, { agentId, ok: false, error: err instanceof Error ? err : new Error(String(err)) });
+      }
+    });
+
+    return agentIds.map((agentId) => results.get(agentId)!);
+  }
+
+  /**
+   * Validate an API response, throwing `INVALID_RESPONSE` with the zod
+   * issues attached when it does not match.
+   *
+   * @internal
+   */
+  validate<T>(schema: z.ZodType<T>, data: unknown, path: string): T {
+    const result = withValidationMode(schema, this.responseValidation).safeParse(data);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+        .join('; ');
+      throw new AgntorError(
+        `Invalid response from ${path}: ${issues}`,
+        'INVALID_RESPONSE',
+        undefined,
+        { issues: result.error.issues },
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Perform a state-changing POST with an idempotency key.
+   *
+   * The key is fixed before the retry loop so every attempt carries the
+   * same `Idempotency-Key`, and a repeated key replays the original result
+   * from the local cache; reusing it for another path or body throws
+   * `IDEMPOTENCY_KEY_REUSED`. `event` is emitted only when the mutation
+   * was actually sent, never on a replay.
+   *
+   * @internal
+   */
+  async mutate<T>(
     path: string,
-    options: RequestInit = {},
-    paymentToken?: string,
+    body: unknown,
+    schema: z.ZodType<T>,
+    options: MutationOptions = {},
+    event?: AgntorEvent,
   ): Promise<T> {
-    const extraHeaders: Record<string, string> = {};
-    if (paymentToken) {
-      extraHeaders['X-AGNTOR-Proof'] = paymentToken;
+    const key = options.idempotencyKey ?? createIdempotencyKey();
+    let sent = false;
+    const result = await this.idempotency.run(key, { method: 'POST', path, body }, async () => {
+      sent = true;
+      const data = await this.request(path, {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Idempotency-Key': key },
+      });
+      return this.validate(schema, data, path);
+    });
+    if (sent && event) {
+      this.emit(event, result as AgntorEventMap[AgntorEvent]);
     }
+    return result;
+  }
 
-    const merged: RequestInit = {
-      ...options,
-      headers: {
-        ...(options.headers as Record<string, string> | undefined),
-        ...extraHeaders,
-      },
+  /**
+   * `mutate` for escrow and settlement operations.
+   *
+   * `transition` is checked against the last known record of the escrow
+   * and rejected locally with `INVALID_TRANSITION` when illegal.
+   *
+   * With an outbox configured, a call that cannot reach the API is
+   * queued for replay and rejected with `OPERATION_QUEUED`; while earlier
+   * operations are still queued, new ones are queued behind them to keep
+   * their order (and skip the local check, as the known state is stale)
+   * and a replay starts in the background.
+   *
+   * @internal
+   */
+  async durableMutate<E extends DurableEvent>(
+    path: string,
+    body: unknown,
+    options: MutationOptions = {},
+    event: E,
+    transition?: { escrowId: string; action: EscrowAction; milestoneId?: string; payee?: string },
+  ): Promise<AgntorEventMap[E]> {
+    const schema: z.ZodType<AgntorEventMap[E]> = DURABLE_SCHEMAS[event];
+    const check = () => {
+      // A repeated key replays the original result, which the check would reject
+      if (!transition || (options.idempotencyKey !== undefined && this.idempotency.has(options.idempotencyKey))) return;
+      if (transition.milestoneId !== undefined) {
+        this.escrowStates.assertMilestone(transition.escrowId, transition.milestoneId, transition.action);
+      } else if (transition.payee !== undefined) {
+        this.escrowStates.assertPayee(transition.escrowId, transition.payee, transition.action);
+      } else {
+        this.escrowStates.assert(transition.escrowId, transition.action);
+      }
     };
 
-    // First attempt
-    const url = `${this.baseUrl}${path}`;
+    if (!this.outbox) {
+      check();
+      return this.mutate(path, body, schema, options, event);
+    }
 
-    // SSRF guard
-    await validateUrl(url);
+    const idempotencyKey = options.idempotencyKey ?? createIdempotencyKey();
+    let failure: Error;
+
+    const pending = await this.outbox.pending();
+    if (pending > 0) {
+      failure = new AgntorError(`${pending} earlier operation(s) still queued`, 'OUTBOX_PENDING');
+    } else {
+      check();
+      try {
+        return await this.mutate(path, body, schema, { idempotencyKey }, event);
+      } catch (err) {
+        if (!this.isTransientFailure(err)) throw err;
+        failure = err as Error;
+      }
+    }
+
+    const entry = await this.outbox.enqueue({ path, body, idempotencyKey, event }, failure);
+    // Drain behind earlier operations without holding up the caller; a
+    // call that just failed is left to the flush timer
+    if (pending > 0) this.outbox.flush().catch(() => {});
+    throw new AgntorError(
+      `${path} could not be delivered (${failure.message}); queued in outbox as ${entry.id}`,
+      'OPERATION_QUEUED',
+      undefined,
+      { outboxId: entry.id },
+    );
+  }
+
+  /**
+   * Last known record of an escrow, as seen by this client.
+   *
+   * @internal
+   */
+  knownEscrow(escrowId: string): EscrowRecord | undefined {
+    return this.escrowStates.get(escrowId);
+  }
+
+  /**
+   * Sign evidence as this agent, with the API key as the HMAC secret.
+   *
+   * @internal
+   */
+  signEvidence(params: Omit<Parameters<typeof buildEvidence>[0], 'signer' | 'keyId'>): EvidenceBundle {
+    const evidence = buildEvidence({ ...params, signer: this.agentId, keyId: this.signing?.keyId });
+    return signEvidence(evidence, this.apiKey);
+  }
+
+  /**
+   * Hand an escrow this client created to the expiry watcher. A store
+   * failure is reported as a warning: the escrow exists either way.
+   *
+   * @internal
+   */
+  async watchEscrow(record: EscrowRecord): Promise<void> {
+    try {
+      await this.watcher?.track(record);
+    } catch (err) {
+      process.emitWarning(`Could not watch escrow ${record.escrowId}: ${String(err)}`, 'AgntorWatcherWarning');
+    }
+  }
+
+  /** @internal */
+  rememberEscrow(record: EscrowRecord): EscrowRecord {
+    this.escrowStates.remember(record);
+    return record;
+  }
+
+  private async replayQueued(entry: OutboxEntry): Promise<unknown> {
+    if (!(entry.event in DURABLE_SCHEMAS)) {
+      throw new AgntorError(`Cannot replay "${entry.event}" operation`, 'INVALID_OUTBOX_ENTRY');
+    }
+    const event = entry.event as DurableEvent;
+    const result = await this.mutate<unknown>(entry.path, entry.body, DURABLE_SCHEMAS[event], { idempotencyKey: entry.idempotencyKey }, event);
+    if (event === 'escrow_created') await this.watchEscrow(result as EscrowRecord);
+    return result;
+  }
+
+  /** Failures that may succeed later: network errors, timeouts, 5xx, and an open circuit. */
+  private isTransientFailure(err: unknown): boolean {
+    return (err instanceof AgntorError && err.code === 'CIRCUIT_OPEN') || isRetryableError(err, this.retry);
+  }
 
-    const headers: Record<string, string> = {
+  /**
+   * SSRF guard for API URLs. Skipped only when `testMode` is explicitly
+   * enabled, so the client can reach a local or in-memory API stand-in.
+   */
+  private async guardUrl(url: string): Promise<void> {
+    if (this.testMode) return;
+    try {
+      await validateUrl(url);
+    } catch (err) {
+      throw new AgntorError((err as Error).message, 'INVALID_URL');
+    }
+  }
+
+  private defaultHeaders(): Record<string, string> {
+    return {
       'Content-Type': 'application/json',
-      'x-api-key': this.apiKey,
+      ...(this.signing ? {} : { 'x-api-key': this.apiKey }),
       'x-agent-id': this.agentId,
       'x-chain': this.chain,
-      ...(merged.headers as Record<string, string> | undefined),
     };
+  }
 
+  /**
+   * Add HMAC signature headers when `signing` is configured. Each call
+   * gets a fresh timestamp and nonce, so retries are signed anew.
+   */
+  private sign(
+    method: HttpMethod,
+    url: string,
+    headers: Record<string, string>,
+    body?: RequestInit['body'],
+  ): Record<string, string> {
+    if (!this.signing) return headers;
+    if (body !== undefined && body !== null && typeof body !== 'string') {
+      throw new AgntorError('Request signing requires a string body', 'SIGNING_ERROR');
+    }
+    const { pathname, search } = new URL(url);
+    return {
+      ...headers,
+      ...signRequest({
+        method,
+        path: `${pathname}${search}`,
+        body: body ?? undefined,
+        headers,
+        keyId: this.signing.keyId,
+        secret: this.apiKey,
+      }),
+    };
+  }
+
+  /**
+   * Send a single attempt through the middleware chain.
+   *
+   * A 402 response is returned as-is (not thrown) so callers can run the
+   * x402 handshake; any other non-2xx status is mapped to `API_ERROR`.
+   */
+  private async send(
+    path: string,
+    options: RequestInit,
+    attempt: number,
+  ): Promise<AgntorResponseContext> {
+    const ctx: AgntorRequestContext = {
+      path,
+      url: `${this.baseUrl}${path}`,
+      method: ((options.method ?? 'GET').toUpperCase()) as HttpMethod,
+      attempt,
+      headers: {
+        ...this.defaultHeaders(),
+        ...(options.headers as Record<string, string> | undefined),
+      },
+      body: parseJsonBody(options.body),
+    };
+
+    const host = new URL(ctx.url).host;
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), this.timeout);
+    // The caller's signal cancels the request as well
+    const aborted = () => options.signal?.aborted === true;
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    if (aborted()) abort();
 
     try {
-      const response = await fetch(url, {
-        ...merged,
-        headers,
-        signal: controller.signal,
-      });
-      clearTimeout(timer);
+      this.breaker?.check(host);
 
-      if (response.status === 402) {
-        // If there is no payment token yet, surface the 402 body
-        // so the caller can obtain a proof and retry.
-        const body = await response.json();
-        if (!paymentToken) {
-          return body as T;
-        }
+      for (const mw of this.middleware) {
+        await mw.beforeRequest?.(ctx);
+      }
 
-        throw new AgntorError(
-          'Payment proof rejected by server',
-          'PAYMENT_REJECTED',
-          402,
-        );
+      // Sign last, so the signature covers any middleware rewrites
+      const body = serializeBody(ctx.body);
+      ctx.headers = this.sign(ctx.method, ctx.url, ctx.headers, body);
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(ctx.url, {
+          ...options,
+          method: ctx.method,
+          headers: ctx.headers,
+          body,
+          signal: controller.signal,
+        });
+      } catch (err) {
+        if (!aborted()) this.breaker?.recordFailure(host);
+        throw err;
       }
 
-      if (!response.ok) {
-        const body = await response.text().catch(() => '');
+      if (response.status >= 500) {
+        this.breaker?.recordFailure(host);
+      } else {
+        this.breaker?.recordSuccess(host);
+      }
+
+      const text = await response.text().catch(() => '');
+      const resCtx: AgntorResponseContext = {
+        ...ctx,
+        status: response.status,
+        response,
+        data: parseJsonText(text),
+      };
+
+      for (const mw of this.middleware) {
+        await mw.afterResponse?.(resCtx);
+      }
+
+      if (!response.ok && response.status !== 402) {
         throw new AgntorError(
-          `Agntor API error: ${response.status} ${response.statusText}${body ? ` – ${body}` : ''}`,
+          `Agntor API error: ${response.status} ${response.statusText}${text ? ` – ${text}` : ''}`,
           'API_ERROR',
           response.status,
+          { retryAfterMs: retryAfterFromResponse(response) },
         );
       }
 
-      return (await response.json()) as T;
+      return resCtx;
     } catch (err) {
-      if ((err as Error).name === 'AbortError') {
-        throw new AgntorError(
-          `Trusted request to ${path} timed out after ${this.timeout}ms`,
-          'TIMEOUT',
-        );
+      const error = (err as Error).name !== 'AbortError'
+        ? (err as Error)
+        : aborted()
+          ? new AgntorError(`Request to ${path} was aborted`, 'ABORTED')
+          : new AgntorError(`Request to ${path} timed out after ${this.timeout}ms`, 'TIMEOUT');
+
+      for (const mw of this.middleware) {
+        await mw.onError?.(error, ctx);
       }
-      throw err;
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Trust-aware request (x402 middleware)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Make a trust-aware HTTP request.
+   *
+   * When the server responds with 402 Payment Required and an
+   * `x402.paymentHandler` is configured, the payment handshake runs
+   * automatically (see `trustedRequestWithReceipt`). Without a handler
+   * the 402 body is returned so the caller can pay and retry with
+   * `paymentToken`.
+   *
+   * @param path   API path
+   * @param options Fetch options
+   * @param paymentToken  Optional pre-fetched x402 proof token
+   */
+  async trustedRequest<T = unknown>(
+    path: string,
+    options: RequestInit = {},
+    paymentToken?: string,
+  ): Promise<T> {
+    const { data } = await this.trustedRequestWithReceipt<T>(path, options, paymentToken);
+    return data;
+  }
+
+  /**
+   * Same as `trustedRequest`, but also returns the payment receipt.
+   *
+   * Handshake: parse the 402 body into typed requirements, pick one that
+   * satisfies `maxPrice` / `allowedRecipients`, run `settlementGuard` on
+   * the derived `TransactionMeta`, pay through the handler, then retry
+   * once with the proof in `X-AGNTOR-Proof`.
+   */
+  async trustedRequestWithReceipt<T = unknown>(
+    path: string,
+    options: RequestInit = {},
+    paymentToken?: string,
+  ): Promise<TrustedResponse<T>> {
+    // SSRF guard
+    await this.guardUrl(`${this.baseUrl}${path}`);
+
+    const first = await this.send(path, withProof(options, paymentToken), 0);
+
+    if (first.status !== 402) {
+      return { data: first.data as T };
+    }
+    if (paymentToken) {
+      throw new AgntorError(
+        'Payment proof rejected by server',
+        'PAYMENT_REJECTED',
+        402,
+      );
+    }
+
+    const handler = this.x402.paymentHandler;
+    if (!handler) {
+      // No wallet configured — surface the 402 body so the caller
+      // can obtain a proof and retry.
+      return { data: first.data as T };
+    }
+
+    const offer = parsePaymentRequired(first.data);
+    const requirement = selectRequirement(offer, this.x402, this.chain);
+    const meta = toTransactionMeta(requirement, this.x402.reputationScore);
+
+    const verdict = await settlementGuard(meta, this.x402.guard);
+    if (verdict.classification === 'block') {
+      throw new AgntorError(
+        `x402 payment blocked by settlement guard: ${verdict.reasoning}`,
+        'PAYMENT_BLOCKED',
+        402,
+      );
+    }
+
+    const proof = await handler.pay(requirement, { path, offer });
+    const receipt: PaymentReceipt = {
+      path,
+      requirement,
+      amount: meta.amount,
+      currency: meta.currency,
+      recipient: requirement.payTo,
+      proof,
+      guard: verdict,
+      paidAt: new Date().toISOString(),
+    };
+
+    // Money has moved: every failure from here on carries the receipt
+    let paid: AgntorResponseContext;
+    try {
+      paid = await this.send(path, withProof(options, proof.token), 1);
+    } catch (err) {
+      const error = err instanceof AgntorError ? err : undefined;
+      throw new AgntorError(
+        `Paid request to ${path} failed: ${(err as Error).message}`,
+        error?.code ?? 'NETWORK_ERROR',
+        error?.statusCode,
+        { retryAfterMs: error?.retryAfterMs, receipt },
+      );
+    }
+
+    if (paid.status === 402) {
+      throw new AgntorError(
+        'Payment proof rejected by server',
+        'PAYMENT_REJECTED',
+        402,
+        { receipt },
+      );
+    }
+
+    return {
+      data: paid.data as T,
+      receipt: { ...receipt, paymentResponse: paid.response.headers.get('x-payment-response') ?? undefined },
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Counterparty assessment
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Assess an agent before transacting with it: identity, verification,
+   * reputation, and (given `meta`) `settlementGuard` run concurrently
+   * and are merged into one report with an `allow` / `review` / `deny`
+   * decision. A sub-check that fails or times out is reported in
+   * `checks` instead of throwing.
+   *
+   * @param agentId  Counterparty to assess
+   * @param meta     Transaction to screen with `settlementGuard`
+   */
+  assessCounterparty(
+    agentId: string,
+    meta?: TransactionMeta,
+    options?: AssessCounterpartyOptions,
+  ): Promise<CounterpartyReport> {
+    return assessCounterparty({
+      identity: (id, refresh, signal) => this.identity.resolve(id, { refresh, signal }),
+      verification: (id, refresh, signal) => this.verify.status(id, { refresh, signal }),
+      reputation: (id, refresh, signal) => this.reputation.get(id, { refresh, signal }),
+    }, agentId, meta, options);
+  }
+
   // ---------------------------------------------------------------------------
   // Legacy convenience methods (kept for MCP server compatibility)
   // ---------------------------------------------------------------------------
@@ -280,10 +1173,7 @@ export class Agntor {
 
   /** @internal */
   async activateKillSwitch(agentId: string, reason: string) {
-    return this.request('/api/v1/agents/kill-switch', {
-      method: 'POST',
-      body: JSON.stringify({ agentId, reason }),
-    });
+    return this.mutate('/api/v1/agents/kill-switch', { agentId, reason }, z.unknown());
   }
 
   /** @internal */
@@ -296,15 +1186,12 @@ export class Agntor {
 
   /** @internal – legacy escrow helper used by MCP */
   async createEscrowLegacy(params: { target: string; amount: number; task: string; agentId?: string }) {
-    return this.request('/api/escrow/create', {
-      method: 'POST',
-      body: JSON.stringify({
-        agentId: params.agentId ?? this.agentId,
-        workerWallet: params.target,
-        amount: params.amount,
-        taskDescription: params.task,
-      }),
-    });
+    return this.mutate('/api/escrow/create', {
+      agentId: params.agentId ?? this.agentId,
+      workerWallet: params.target,
+      amount: params.amount,
+      taskDescription: params.task,
+    }, z.unknown());
   }
 
   /** @internal – legacy verify helper used by MCP */
@@ -327,129 +1214,351 @@ class IdentityModule {
   constructor(private sdk: Agntor) {}
 
   /** Register the current agent's identity */
-  async register(): Promise<AgentIdentity> {
-    return this.sdk.request<AgentIdentity>('/api/v1/identity/register', {
-      method: 'POST',
-      body: JSON.stringify({}),
-    });
+  async register(options?: MutationOptions): Promise<AgentIdentity> {
+    const identity = await this.sdk.mutate('/api/v1/identity/register', {}, AgentIdentitySchema, options);
+    await this.sdk.cache?.invalidate('identity', identity.agentId);
+    return identity;
   }
 
-  /** Resolve another agent's identity */
-  async resolve(agentId: string): Promise<AgentIdentity> {
-    return this.sdk.request<AgentIdentity>(`/api/v1/identity/${encodeURIComponent(agentId)}`);
+  /** Resolve another agent's identity (cached when `cache` is configured) */
+  async resolve(agentId: string, options?: LookupOptions): Promise<AgentIdentity> {
+    return this.sdk.lookup('identity', agentId, `/api/v1/identity/${encodeURIComponent(agentId)}`, AgentIdentitySchema, options);
   }
 
   /** Get the current agent's identity */
   async me(): Promise<AgentIdentity> {
-    return this.sdk.request<AgentIdentity>('/api/v1/identity/me');
+    return this.sdk.get('/api/v1/identity/me', AgentIdentitySchema);
   }
 }
 
 class VerifyModule {
   constructor(private sdk: Agntor) {}
 
-  /** Get verification status for an agent */
-  async status(agentId: string): Promise<VerificationStatus> {
-    return this.sdk.request<VerificationStatus>(`/api/v1/verify/${encodeURIComponent(agentId)}`);
+  /** Get verification status for an agent (cached when `cache` is configured) */
+  async status(agentId: string, options?: LookupOptions): Promise<VerificationStatus> {
+    return this.sdk.lookup('verification', agentId, `/api/v1/verify/${encodeURIComponent(agentId)}`, VerificationStatusSchema, options);
+  }
+
+  /**
+   * Verification status of many agents, in one batch request where the
+   * API supports it and otherwise `concurrency` lookups at a time. Each
+   * agent gets its own result or error; the call itself does not fail.
+   */
+  async statusMany(agentIds: string[], options?: BatchLookupOptions): Promise<BatchResult<VerificationStatus>[]> {
+    return this.sdk.lookupMany(
+      'verification',
+      agentIds,
+      '/api/v1/verify/batch',
+      (agentId) => `/api/v1/verify/${encodeURIComponent(agentId)}`,
+      VerificationStatusSchema,
+      VerificationBatchSchema,
+      options,
+    );
   }
 
   /** Submit an attestation */
-  async attest(params: AttestationParams): Promise<VerificationStatus> {
-    return this.sdk.request<VerificationStatus>('/api/v1/verify/attest', {
-      method: 'POST',
-      body: JSON.stringify(params),
-    });
+  async attest(params: AttestationParams, options?: MutationOptions): Promise<VerificationStatus> {
+    const status = await this.sdk.mutate('/api/v1/verify/attest', params, VerificationStatusSchema, options);
+    await this.sdk.cache?.invalidate('verification', status.agentId);
+    return status;
   }
 
   /** Get the current agent's badge */
   async badge(): Promise<{ badge: string }> {
-    return this.sdk.request<{ badge: string }>('/api/v1/verify/badge');
+    return this.sdk.get('/api/v1/verify/badge', BadgeSchema);
   }
 }
 
 class EscrowModule {
   constructor(private sdk: Agntor) {}
 
-  /** Create a new escrow */
-  async create(params: EscrowCreateParams): Promise<EscrowRecord> {
-    const result = await this.sdk.request<EscrowRecord>('/api/v1/escrow/create', {
-      method: 'POST',
-      body: JSON.stringify(params),
-    });
-    this.sdk.emit('escrow_created', result);
-    return result;
+  /**
+   * Create a new escrow. With `milestones`, their amounts must add up
+   * to `amount` (checked locally, `INVALID_MILESTONES`). With `payees`,
+   * weighted shares are resolved into amounts and fixed shares checked
+   * against the total (`INVALID_SHARES`). Structured conditions are
+   * validated (`INVALID_CONDITION`) and encoded. Without `payees`, a
+   * `counterparty` is required (`INVALID_INPUT`). With a `watcher`
+   * configured, the escrow is tracked until it settles or expires.
+   *
+   * Amounts may be given as `Money`; they must all be in one token, and
+   * are then sent with exact `amountUnits` and checked without rounding.
+   */
+  async create(params: EscrowCreateParams, options?: MutationOptions): Promise<EscrowRecord> {
+    const amounts = normalizeEscrowAmounts(params);
+    validateMilestones(amounts);
+    const body = encodeEscrowConditions(resolvePayeeShares(amounts));
+    if (typeof body.counterparty !== 'string' || body.counterparty === '') {
+      throw new AgntorError('counterparty is required unless payees are given', 'INVALID_INPUT');
+    }
+    const record = await this.sdk.durableMutate('/api/v1/escrow/create', body, options, 'escrow_created');
+    await this.sdk.watchEscrow(record);
+    return record;
   }
 
   /** Fund an existing escrow */
-  async fund(escrowId: string): Promise<EscrowRecord> {
-    const result = await this.sdk.request<EscrowRecord>(`/api/v1/escrow/${encodeURIComponent(escrowId)}/fund`, {
-      method: 'POST',
-      body: JSON.stringify({}),
-    });
-    this.sdk.emit('escrow_funded', result);
-    return result;
+  async fund(escrowId: string, options?: MutationOptions): Promise<EscrowRecord> {
+    return this.sdk.durableMutate(`/api/v1/escrow/${encodeURIComponent(escrowId)}/fund`, {}, options, 'escrow_funded', { escrowId, action: 'fund' });
   }
 
   /** Get escrow status */
   async status(escrowId: string): Promise<EscrowRecord> {
-    return this.sdk.request<EscrowRecord>(`/api/v1/escrow/${encodeURIComponent(escrowId)}`);
+    return this.sdk.rememberEscrow(await this.sdk.get(`/api/v1/escrow/${encodeURIComponent(escrowId)}`, EscrowRecordSchema));
+  }
+
+  /** Fetch one page of escrows matching `filter` */
+  async listPage(filter: EscrowListFilter = {}, cursor?: string): Promise<EscrowPage> {
+    const page = await this.sdk.get(`/api/v1/escrow?${escrowListQuery(filter, cursor)}`, EscrowPageSchema);
+    for (const escrow of page.escrows) this.sdk.rememberEscrow(escrow);
+    return page;
+  }
+
+  /**
+   * Iterate over every escrow matching `filter`, fetching further pages
+   * as the loop consumes them.
+   *
+   * @example
+   * ```ts
+   * for await (const escrow of agntor.escrow.list({ status: 'disputed' })) { ... }
+   * ```
+   */
+  async *list(filter: EscrowListFilter = {}): AsyncGenerator<EscrowRecord> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.listPage(filter, cursor);
+      yield* page.escrows;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  /**
+   * Wait until an escrow reaches a status (or any of several, or
+   * satisfies a predicate) and return its record.
+   *
+   * Uses pushed events when a `subscribe` channel is open, and polls
+   * `status` with backoff otherwise. Rejects with `ESCROW_TERMINAL` if
+   * the escrow ends in a status that cannot match, `WAIT_TIMEOUT` after
+   * `timeout`, and `ABORTED` when `signal` fires. On success the
+   * matching escrow event (e.g. `escrow_funded`) is emitted if this
+   * client has not delivered it yet.
+   *
+   * @example
+   * ```ts
+   * const escrow = await agntor.escrow.waitFor(id, 'funded', { timeout: 60_000 });
+   * ```
+   */
+  async waitFor(escrowId: string, target: EscrowWaitTarget, options?: WaitForOptions): Promise<EscrowRecord> {
+    return waitForEscrow(this.sdk, escrowId, target, options);
+  }
+
+  /**
+   * Evaluate the machine-checkable condition of an escrow (or of one of
+   * its milestones) locally and return signed evidence to pass to
+   * `settle.resolve` / `settle.resolveMilestone`. Check `passed` first;
+   * the bundle records failures as well.
+   *
+   * Throws `UNSUPPORTED_CONDITION` for free-form conditions.
+   */
+  async evaluate(escrowId: string, options: EvaluateEscrowOptions = {}): Promise<EvidenceBundle> {
+    const { milestoneId, ...context } = options;
+    const record = this.sdk.knownEscrow(escrowId) ?? await this.status(escrowId);
+
+    let condition = record.condition;
+    if (milestoneId !== undefined) {
+      const milestone = record.milestones?.find((m) => m.milestoneId === milestoneId);
+      if (!milestone) throw new AgntorError(`Escrow ${escrowId} has no milestone "${milestoneId}"`, 'INVALID_MILESTONES');
+      condition = milestone.condition;
+    }
+
+    const evaluation = await evaluateConditions(condition, context);
+    return this.sdk.signEvidence({ escrowId, milestoneId, condition, evaluation, context });
+  }
+
+  /** Locked value per currency, counterparty, and status for escrows matching `filter` */
+  async summary(filter: EscrowListFilter = {}): Promise<EscrowSummary> {
+    return summarizeEscrows(this.list(filter));
+  }
+
+  /**
+   * Actions legal for the last known state of an escrow, or `undefined`
+   * if this client has not seen it yet (call `status` first).
+   */
+  allowedActions(escrowId: string): EscrowAction[] | undefined {
+    const known = this.sdk.knownEscrow(escrowId);
+    return known ? allowedEscrowActions(known) : undefined;
   }
 
   /** Cancel an escrow */
-  async cancel(escrowId: string): Promise<EscrowRecord> {
-    const result = await this.sdk.request<EscrowRecord>(`/api/v1/escrow/${encodeURIComponent(escrowId)}/cancel`, {
-      method: 'POST',
-      body: JSON.stringify({}),
-    });
-    this.sdk.emit('escrow_cancelled', result);
-    return result;
+  async cancel(escrowId: string, options?: MutationOptions): Promise<EscrowRecord> {
+    return this.sdk.durableMutate(`/api/v1/escrow/${encodeURIComponent(escrowId)}/cancel`, {}, options, 'escrow_cancelled', { escrowId, action: 'cancel' });
   }
 }
 
+function proofString(proof: string | EvidenceBundle): string {
+  return typeof proof === 'string' ? proof : encodeEvidence(proof);
+}
+
+function disputePath(escrowId: string): string {
+  return `/api/v1/settle/${encodeURIComponent(escrowId)}/dispute`;
+}
+
+function payeePath(escrowId: string, agentId: string, action: 'release' | 'slash'): string {
+  return `/api/v1/settle/${encodeURIComponent(escrowId)}/payees/${encodeURIComponent(agentId)}/${action}`;
+}
+
+function milestonePath(escrowId: string, milestoneId: string, action: 'release' | 'slash' | 'resolve'): string {
+  return `/api/v1/settle/${encodeURIComponent(escrowId)}/milestones/${encodeURIComponent(milestoneId)}/${action}`;
+}
+
 class SettleModule {
   constructor(private sdk: Agntor) {}
 
-  /** Release escrowed funds to the counterparty */
-  async release(escrowId: string): Promise<SettlementResult> {
-    const result = await this.sdk.request<SettlementResult>(`/api/v1/settle/${encodeURIComponent(escrowId)}/release`, {
-      method: 'POST',
-      body: JSON.stringify({}),
-    });
-    this.sdk.emit('escrow_settled', result);
-    return result;
+  /** Release escrowed funds to the counterparty (every pending payee of a multi-party escrow) */
+  async release(escrowId: string, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(`/api/v1/settle/${encodeURIComponent(escrowId)}/release`, {}, options, 'escrow_settled', { escrowId, action: 'release' });
   }
 
-  /** Slash – return funds to the originator */
-  async slash(escrowId: string): Promise<SettlementResult> {
-    const result = await this.sdk.request<SettlementResult>(`/api/v1/settle/${encodeURIComponent(escrowId)}/slash`, {
-      method: 'POST',
-      body: JSON.stringify({}),
-    });
-    this.sdk.emit('escrow_settled', result);
-    return result;
+  /** Slash – return funds to the originator (every pending payee's share of a multi-party escrow) */
+  async slash(escrowId: string, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(`/api/v1/settle/${encodeURIComponent(escrowId)}/slash`, {}, options, 'escrow_settled', { escrowId, action: 'slash' });
   }
 
-  /** Resolve with proof */
-  async resolve(escrowId: string, proof: string): Promise<SettlementResult> {
-    const result = await this.sdk.request<SettlementResult>(`/api/v1/settle/${encodeURIComponent(escrowId)}/resolve`, {
-      method: 'POST',
-      body: JSON.stringify({ proof }),
-    });
-    this.sdk.emit('escrow_settled', result);
-    return result;
+  /** Resolve with proof: an opaque string or evidence from `escrow.evaluate` */
+  async resolve(escrowId: string, proof: string | EvidenceBundle, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(`/api/v1/settle/${encodeURIComponent(escrowId)}/resolve`, { proof: proofString(proof) }, options, 'escrow_settled', { escrowId, action: 'resolve' });
+  }
+
+  /** Release one milestone of a milestone escrow */
+  async releaseMilestone(escrowId: string, milestoneId: string, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(milestonePath(escrowId, milestoneId, 'release'), {}, options, 'escrow_settled', { escrowId, milestoneId, action: 'release' });
+  }
+
+  /** Slash one milestone – return its amount to the originator */
+  async slashMilestone(escrowId: string, milestoneId: string, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(milestonePath(escrowId, milestoneId, 'slash'), {}, options, 'escrow_settled', { escrowId, milestoneId, action: 'slash' });
+  }
+
+  /** Resolve one milestone with proof */
+  async resolveMilestone(escrowId: string, milestoneId: string, proof: string | EvidenceBundle, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(milestonePath(escrowId, milestoneId, 'resolve'), { proof: proofString(proof) }, options, 'escrow_settled', { escrowId, milestoneId, action: 'resolve' });
+  }
+
+  /** Release one payee's share of a multi-party escrow */
+  async releasePayee(escrowId: string, agentId: string, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(payeePath(escrowId, agentId, 'release'), {}, options, 'escrow_settled', { escrowId, payee: agentId, action: 'release' });
+  }
+
+  /** Slash one payee's share of a multi-party escrow, returning it to the payer */
+  async slashPayee(escrowId: string, agentId: string, options?: MutationOptions): Promise<SettlementResult> {
+    return this.sdk.durableMutate(payeePath(escrowId, agentId, 'slash'), {}, options, 'escrow_settled', { escrowId, payee: agentId, action: 'slash' });
+  }
+
+  /**
+   * Contest a funded escrow before it is settled. The escrow becomes
+   * `disputed` and can then only be resolved by arbitration, which
+   * announces its ruling with `dispute_resolved`.
+   */
+  async dispute(escrowId: string, reason: string, evidence?: string | EvidenceBundle, options?: MutationOptions): Promise<DisputeRecord> {
+    const body = { reason, ...(evidence !== undefined ? { evidence: proofString(evidence) } : {}) };
+    return this.sdk.durableMutate(disputePath(escrowId), body, options, 'dispute_opened', { escrowId, action: 'dispute' });
+  }
+
+  /** Add evidence to an open dispute (either party) */
+  async submitEvidence(escrowId: string, evidence: string | EvidenceBundle, options?: MutationOptions): Promise<DisputeRecord> {
+    return this.sdk.mutate(`${disputePath(escrowId)}/evidence`, { evidence: proofString(evidence) }, DisputeRecordSchema, options);
+  }
+
+  /** Current state of an escrow's dispute, including evidence and, once resolved, the ruling */
+  async disputeStatus(escrowId: string): Promise<DisputeRecord> {
+    return this.sdk.get(disputePath(escrowId), DisputeRecordSchema);
   }
 }
 
 class ReputationModule {
   constructor(private sdk: Agntor) {}
 
-  /** Get reputation score for an agent */
-  async get(agentId: string): Promise<ReputationScore> {
-    return this.sdk.request<ReputationScore>(`/api/v1/reputation/${encodeURIComponent(agentId)}`);
+  /** Get reputation score for an agent (cached when `cache` is configured) */
+  async get(agentId: string, options?: LookupOptions): Promise<ReputationScore> {
+    return this.sdk.lookup('reputation', agentId, `/api/v1/reputation/${encodeURIComponent(agentId)}`, ReputationScoreSchema, options);
+  }
+
+  /**
+   * Reputation scores of many agents, in one batch request where the
+   * API supports it and otherwise `concurrency` lookups at a time. Each
+   * agent gets its own result or error; the call itself does not fail.
+   * Rank the results with `rankAgents`.
+   */
+  async getMany(agentIds: string[], options?: BatchLookupOptions): Promise<BatchResult<ReputationScore>[]> {
+    return this.sdk.lookupMany(
+      'reputation',
+      agentIds,
+      '/api/v1/reputation/batch',
+      (agentId) => `/api/v1/reputation/${encodeURIComponent(agentId)}`,
+      ReputationScoreSchema,
+      ReputationBatchSchema,
+      options,
+    );
+  }
+
+  /**
+   * One page of an agent's reputation history matching `filter`, oldest
+   * first. An API that returns the whole history as an array is
+   * filtered locally and yields a single page.
+   */
+  async historyPage(agentId: string, filter: ReputationHistoryFilter = {}, cursor?: string): Promise<ReputationHistoryPage> {
+    const path = `/api/v1/reputation/${encodeURIComponent(agentId)}/history?${reputationHistoryQuery(filter, cursor)}`;
+    const data = await this.sdk.request(path);
+    if (Array.isArray(data)) {
+      return { entries: filterHistory(this.sdk.validate(ReputationHistorySchema, data, path), filter) };
+    }
+    return this.sdk.validate(ReputationHistoryPageSchema, data, path);
+  }
+
+  /**
+   * Iterate over an agent's reputation history matching `filter`,
+   * fetching further pages as the loop consumes them.
+   *
+   * @example
+   * ```ts
+   * for await (const entry of agntor.reputation.listHistory(agentId, { event: 'escrow_slashed' })) { ... }
+   * ```
+   */
+  async *listHistory(agentId: string, filter: ReputationHistoryFilter = {}): AsyncGenerator<ReputationHistoryEntry> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.historyPage(agentId, filter, cursor);
+      yield* page.entries;
+      cursor = page.nextCursor;
+    } while (cursor);
   }
 
-  /** Get reputation history for an agent */
-  async history(agentId: string): Promise<ReputationHistoryEntry[]> {
-    return this.sdk.request<ReputationHistoryEntry[]>(`/api/v1/reputation/${encodeURIComponent(agentId)}/history`);
+  /** Reputation history of an agent matching `filter`, every page collected */
+  async history(agentId: string, filter: ReputationHistoryFilter = {}): Promise<ReputationHistoryEntry[]> {
+    const entries: ReputationHistoryEntry[] = [];
+    for await (const entry of this.listHistory(agentId, filter)) entries.push(entry);
+    return entries;
+  }
+
+  /**
+   * Settlements of an agent per day (or `interval`) from `from` to `to`,
+   * with `aggregateHistory`. Only that range of the history is fetched.
+   */
+  async series(agentId: string, options: HistoryAggregationOptions = {}): Promise<HistoryBucket[]> {
+    const entries = this.listHistory(agentId, {
+      event: ['escrow_released', 'escrow_slashed'],
+      after: options.from,
+      before: options.to,
+    });
+    return aggregateHistory(entries, options);
+  }
+
+  /**
+   * Score an agent locally from its history with `scoreReputation`:
+   * time-decayed outcomes, volume, slashes, and counterparty diversity,
+   * tuned by `options`. The result's `score` can be passed to
+   * `settlementGuard` as `reputationScore`.
+   */
+  async score(agentId: string, options?: ReputationScoringOptions): Promise<ReputationBreakdown> {
+    return scoreReputation(await this.history(agentId), options);
   }
 }
@@ -0,0 +1,85 @@
+import type { LookupOptions } from './lookup-cache.js';
+
+/** Agents per batch request; longer lists are split */
+export const MAX_BATCH_SIZE = 100;
+
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Options of `reputation.getMany` and `verify.statusMany`.
+ */
+export interface BatchLookupOptions extends LookupOptions {
+  /** Parallel requests when falling back to one lookup per agent (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * Outcome of one agent in a batch lookup: its result, or why it failed.
+ */
+export type BatchResult<T> =
+  | { agentId: string; ok: true; value: T }
+  | { agentId: string; ok: false; error: Error };
+
+/**
+ * An agent ranked by `rankAgents`.
+ */
+export interface RankedAgent<T> {
+  agentId: string;
+  value: T;
+  score: number;
+  /** 1 for the best score */
+  rank: number;
+}
+
+/**
+ * Run `fn` on every item with at most `concurrency` calls in flight.
+ * Results keep the order of `items`.
+ *
+ * @internal
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  concurrency: number | undefined,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const limit = Math.max(1, Math.floor(concurrency ?? DEFAULT_CONCURRENCY));
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Rank the successful results of a batch lookup by `score`, best
+ * first. Failed lookups are left out; ties keep their input order and
+ * non-finite scores sort last.
+ *
+ * @example
+ * ```ts
+ * const scores = await agntor.reputation.getMany(candidates);
+ * const [best] = rankAgents(scores, (r) => r.successRate * Math.log1p(r.escrowVolume));
+ * ```
+ */
+export function rankAgents<T>(
+  results: readonly BatchResult<T>[],
+  score: (value: T, agentId: string) => number,
+): RankedAgent<T>[] {
+  const seen = new Set<string>();
+  const scored: Omit<RankedAgent<T>, 'rank'>[] = [];
+  for (const result of results) {
+    if (!result.ok || seen.has(result.agentId)) continue;
+    seen.add(result.agentId);
+    scored.push({ agentId: result.agentId, value: result.value, score: score(result.value, result.agentId) });
+  }
+
+  const key = (s: number) => (Number.isFinite(s) ? s : -Infinity);
+  return scored
+    .sort((a, b) => key(b.score) - key(a.score) || 0)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
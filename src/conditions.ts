@@ -0,0 +1,487 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import type { Amount, EscrowCreateParams } from './types.js';
+import { AgntorError } from './types.js';
+import { validateUrl } from './utils/network.js';
+import { canonicalJson, checkJsonSchema, jsonEqual, validateJsonSchema } from './json-schema.js';
+import type { OutputSchema } from './json-schema.js';
+
+/** Prefix marking a `condition` string as machine-checkable */
+export const CONDITION_PREFIX = 'agntor:v1:';
+
+const DEFAULT_HTTP_TIMEOUT = 10_000;
+const SHA256_HEX = /^[0-9a-f]{64}$/i;
+
+/**
+ * A value the HTTP response body must contain.
+ *
+ * `path` is a JSONPath subset: `$`, `.name`, `['name']`, and `[index]`.
+ * With `equals`, the value must exist and equal it; otherwise `exists`
+ * (default `true`) says whether the path must resolve.
+ */
+export interface JsonPathAssertion {
+  path: string;
+  equals?: unknown;
+  exists?: boolean;
+}
+
+/** The URL answers with an expected status (and optionally JSON content). */
+export interface HttpCondition {
+  type: 'http';
+  url: string;
+  /** Default: `GET` */
+  method?: 'GET' | 'HEAD';
+  /** Accepted status code(s) (default: 200) */
+  status?: number | number[];
+  /** Assertions on the JSON response body (GET only) */
+  json?: JsonPathAssertion[];
+}
+
+/** Evaluation happens no later than `before`. */
+export interface DeadlineCondition {
+  type: 'deadline';
+  /** ISO-8601 timestamp */
+  before: string;
+}
+
+/** The delivered artifact has this SHA-256 digest. */
+export interface ArtifactHashCondition {
+  type: 'artifact_hash';
+  /** Hex-encoded SHA-256 */
+  sha256: string;
+}
+
+/** The delivered output matches a JSON schema. */
+export interface OutputSchemaCondition {
+  type: 'output_schema';
+  schema: OutputSchema;
+}
+
+export type EscrowCondition = HttpCondition | DeadlineCondition | ArtifactHashCondition | OutputSchemaCondition;
+
+/**
+ * An escrow or milestone condition: free-form text (judged by the
+ * server), or one or more machine-checkable conditions that must all
+ * hold.
+ */
+export type EscrowConditionInput = string | EscrowCondition | EscrowCondition[];
+
+/**
+ * Inputs for `evaluateConditions`.
+ */
+export interface ConditionContext {
+  /** Delivered artifact, for `artifact_hash` (strings are hashed as UTF-8) */
+  artifact?: string | Uint8Array;
+  /** Delivered output, for `output_schema` */
+  output?: unknown;
+  /** `fetch` for `http` checks (default: global `fetch`) */
+  fetch?: typeof fetch;
+  /**
+   * Skip the SSRF check on `http` URLs. Only for tests against local
+   * servers — never for conditions written by a counterparty.
+   */
+  allowPrivateNetwork?: boolean;
+  /** Per-request timeout for `http` checks in ms (default: 10 000) */
+  timeout?: number;
+  /** Clock, in ms since epoch (default: `Date.now`) */
+  now?: () => number;
+}
+
+/**
+ * Options for `escrow.evaluate`.
+ */
+export interface EvaluateEscrowOptions extends ConditionContext {
+  /** Evaluate this milestone's condition instead of the escrow's */
+  milestoneId?: string;
+}
+
+/** Outcome of one condition. */
+export interface ConditionResult {
+  type: EscrowCondition['type'];
+  passed: boolean;
+  /** Human-readable reason */
+  detail: string;
+  /** What was observed (status code, extracted values, digest, ...) */
+  observed?: unknown;
+}
+
+/** Outcome of a set of conditions; `passed` only if every one passed. */
+export interface ConditionEvaluation {
+  passed: boolean;
+  results: ConditionResult[];
+  evaluatedAt: string;
+}
+
+/**
+ * Signed record of a local condition evaluation, passed as the proof to
+ * `settle.resolve` / `settle.resolveMilestone`.
+ */
+export interface EvidenceBundle {
+  version: 1;
+  escrowId: string;
+  milestoneId?: string;
+  /** The encoded condition that was evaluated */
+  condition: string;
+  passed: boolean;
+  results: ConditionResult[];
+  evaluatedAt: string;
+  /** SHA-256 of the artifact that was checked */
+  artifactSha256?: string;
+  /** SHA-256 of the canonical JSON of the output that was checked */
+  outputSha256?: string;
+  /** Agent that produced the evidence */
+  signer: string;
+  /** Key ID of the signing secret, when request signing is configured */
+  keyId?: string;
+  /** Hex HMAC-SHA256 over the canonical JSON of all other fields */
+  signature: string;
+}
+
+export type UnsignedEvidence = Omit<EvidenceBundle, 'signature'>;
+
+function invalid(message: string): AgntorError {
+  return new AgntorError(message, 'INVALID_CONDITION');
+}
+
+function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// ---------------------------------------------------------------------------
+// JSON paths
+// ---------------------------------------------------------------------------
+
+const PATH_SEGMENT = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+
+/**
+ * Split a JSONPath (`$.a['b'][0]`) into property names and indices.
+ * Throws `INVALID_CONDITION` for unsupported syntax.
+ */
+export function parseJsonPath(path: string): Array<string | number> {
+  if (!path.startsWith('$')) throw invalid(`JSON path "${path}" must start with "$"`);
+  const segments: Array<string | number> = [];
+  let i = 1;
+  while (i < path.length) {
+    PATH_SEGMENT.lastIndex = i;
+    const match = PATH_SEGMENT.exec(path);
+    if (!match) throw invalid(`Unsupported JSON path syntax at position ${i} of "${path}"`);
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push((match[3] ?? match[4]).replace(/\\(.)/g, '$1'));
+    i = PATH_SEGMENT.lastIndex;
+  }
+  return segments;
+}
+
+/** Resolve a JSONPath against a value. */
+export function selectJsonPath(value: unknown, path: string): { found: boolean; value?: unknown } {
+  let current = value;
+  for (const segment of parseJsonPath(path)) {
+    if (typeof segment === 'number' ? !Array.isArray(current) : (typeof current !== 'object' || current === null || Array.isArray(current))) {
+      return { found: false };
+    }
+    const container = current as Record<string | number, unknown>;
+    if (!Object.prototype.hasOwnProperty.call(container, segment)) return { found: false };
+    current = container[segment];
+  }
+  return { found: true, value: current };
+}
+
+// ---------------------------------------------------------------------------
+// Validation & encoding
+// ---------------------------------------------------------------------------
+
+function statusCodes(condition: HttpCondition): number[] {
+  if (condition.status === undefined) return [200];
+  return Array.isArray(condition.status) ? condition.status : [condition.status];
+}
+
+function validateCondition(condition: EscrowCondition, label: string): void {
+  if (typeof condition !== 'object' || condition === null) throw invalid(`${label}: must be an object`);
+
+  switch (condition.type) {
+    case 'http': {
+      let url: URL;
+      try {
+        url = new URL(condition.url);
+      } catch {
+        throw invalid(`${label}: url must be an absolute URL`);
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw invalid(`${label}: url must use http or https`);
+      if (condition.method !== undefined && condition.method !== 'GET' && condition.method !== 'HEAD') {
+        throw invalid(`${label}: method must be GET or HEAD`);
+      }
+      const codes = statusCodes(condition);
+      if (codes.length === 0 || codes.some((code) => !Number.isInteger(code) || code < 100 || code > 599)) {
+        throw invalid(`${label}: status must be HTTP status codes (100-599)`);
+      }
+      if (condition.json !== undefined) {
+        if (!Array.isArray(condition.json)) throw invalid(`${label}: json must be an array of assertions`);
+        if (condition.method === 'HEAD') throw invalid(`${label}: json assertions need a GET request`);
+        for (const assertion of condition.json) {
+          if (typeof assertion?.path !== 'string') throw invalid(`${label}: every json assertion needs a path`);
+          parseJsonPath(assertion.path);
+        }
+      }
+      return;
+    }
+    case 'deadline':
+      if (typeof condition.before !== 'string' || Number.isNaN(Date.parse(condition.before))) {
+        throw invalid(`${label}: before must be an ISO-8601 date`);
+      }
+      return;
+    case 'artifact_hash':
+      if (typeof condition.sha256 !== 'string' || !SHA256_HEX.test(condition.sha256)) {
+        throw invalid(`${label}: sha256 must be a hex-encoded SHA-256 digest`);
+      }
+      return;
+    case 'output_schema': {
+      const problems = checkJsonSchema(condition.schema);
+      if (problems.length) throw invalid(`${label}: invalid schema (${problems.join('; ')})`);
+      return;
+    }
+    default:
+      throw invalid(`${label}: unknown condition type "${(condition as { type?: unknown }).type}"`);
+  }
+}
+
+/**
+ * Check machine-checkable conditions and encode them as a `condition`
+ * string. Throws `INVALID_CONDITION`.
+ */
+export function encodeCondition(condition: EscrowCondition | EscrowCondition[], label = 'Condition'): string {
+  const list = Array.isArray(condition) ? condition : [condition];
+  if (list.length === 0) throw invalid(`${label}: list must not be empty`);
+  list.forEach((c, i) => validateCondition(c, list.length > 1 ? `${label} #${i + 1}` : label));
+  return CONDITION_PREFIX + canonicalJson(list);
+}
+
+/**
+ * Decode a `condition` string. Returns `undefined` for free-form text;
+ * throws `INVALID_CONDITION` if an encoded condition is malformed.
+ */
+export function parseCondition(condition: string): EscrowCondition[] | undefined {
+  if (!condition.startsWith(CONDITION_PREFIX)) return undefined;
+  let list: unknown;
+  try {
+    list = JSON.parse(condition.slice(CONDITION_PREFIX.length));
+  } catch {
+    throw invalid('Encoded condition is not valid JSON');
+  }
+  if (!Array.isArray(list)) throw invalid('Encoded condition must be a list');
+  encodeCondition(list as EscrowCondition[]);
+  return list as EscrowCondition[];
+}
+
+function normalizeCondition(input: EscrowConditionInput, label: string): string {
+  if (typeof input !== 'string') return encodeCondition(input, label);
+  if (!input) throw invalid(`${label} is required`);
+  parseCondition(input);
+  return input;
+}
+
+/**
+ * Validate the escrow and milestone conditions of `params` and return a
+ * copy with each one encoded as a string, ready to send.
+ */
+export function encodeEscrowConditions<A extends Amount>(params: EscrowCreateParams<A>): EscrowCreateParams<A> {
+  return {
+    ...params,
+    condition: normalizeCondition(params.condition, 'Escrow condition'),
+    ...(params.milestones
+      ? {
+          milestones: params.milestones.map((m, i) => ({
+            ...m,
+            condition: normalizeCondition(m.condition, `Milestone ${m.milestoneId ?? `#${i + 1}`} condition`),
+          })),
+        }
+      : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function result(type: EscrowCondition['type'], passed: boolean, detail: string, observed?: unknown): ConditionResult {
+  return observed === undefined ? { type, passed, detail } : { type, passed, detail, observed };
+}
+
+function assertionFailure(assertion: JsonPathAssertion, hit: { found: boolean; value?: unknown }): string | undefined {
+  if (assertion.equals !== undefined) {
+    if (!hit.found) return `${assertion.path} is missing`;
+    if (!jsonEqual(hit.value, assertion.equals)) {
+      return `${assertion.path} is ${canonicalJson(hit.value)}, expected ${canonicalJson(assertion.equals)}`;
+    }
+    return undefined;
+  }
+  const exists = assertion.exists ?? true;
+  if (hit.found !== exists) return exists ? `${assertion.path} is missing` : `${assertion.path} should not exist`;
+  return undefined;
+}
+
+async function checkHttp(condition: HttpCondition, context: ConditionContext): Promise<ConditionResult> {
+  if (!context.allowPrivateNetwork) {
+    try {
+      await validateUrl(condition.url);
+    } catch (err) {
+      return result('http', false, (err as Error).message);
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await (context.fetch ?? fetch)(condition.url, {
+      method: condition.method ?? 'GET',
+      // Following redirects would bypass the SSRF check on the target
+      redirect: 'manual',
+      signal: AbortSignal.timeout(context.timeout ?? DEFAULT_HTTP_TIMEOUT),
+    });
+  } catch (err) {
+    return result('http', false, `Request failed: ${(err as Error).message}`);
+  }
+
+  const status = response.status;
+  const expected = statusCodes(condition);
+  if (!expected.includes(status)) {
+    return result('http', false, `Expected status ${expected.join(' or ')}, got ${status}`, { status });
+  }
+  if (!condition.json?.length) return result('http', true, `Status ${status}`, { status });
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    return result('http', false, 'Response body is not JSON', { status });
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const assertion of condition.json) {
+    const hit = selectJsonPath(body, assertion.path);
+    if (hit.found) values[assertion.path] = hit.value;
+    const failure = assertionFailure(assertion, hit);
+    if (failure) return result('http', false, failure, { status, values });
+  }
+  return result('http', true, `Status ${status}; ${condition.json.length} JSON assertion(s) hold`, { status, values });
+}
+
+async function checkCondition(condition: EscrowCondition, context: ConditionContext, now: number): Promise<ConditionResult> {
+  switch (condition.type) {
+    case 'http':
+      return checkHttp(condition, context);
+    case 'deadline': {
+      const passed = now <= Date.parse(condition.before);
+      return result('deadline', passed, passed ? `Before ${condition.before}` : `Deadline ${condition.before} has passed`);
+    }
+    case 'artifact_hash': {
+      if (context.artifact === undefined) return result('artifact_hash', false, 'No artifact provided');
+      const digest = sha256Hex(context.artifact);
+      const passed = digest === condition.sha256.toLowerCase();
+      return result('artifact_hash', passed, passed ? 'Artifact digest matches' : 'Artifact digest does not match', { sha256: digest });
+    }
+    case 'output_schema': {
+      if (context.output === undefined) return result('output_schema', false, 'No output provided');
+      const errors = validateJsonSchema(context.output, condition.schema);
+      return errors.length
+        ? result('output_schema', false, `Output does not match the schema: ${errors.join('; ')}`)
+        : result('output_schema', true, 'Output matches the schema');
+    }
+  }
+}
+
+/**
+ * Evaluate machine-checkable conditions locally.
+ *
+ * Every condition is checked (failures do not short-circuit) so the
+ * result explains all of them. `http` URLs go through the SSRF guard
+ * and redirects are not followed. Throws only for malformed conditions
+ * (`INVALID_CONDITION`) and free-form text (`UNSUPPORTED_CONDITION`).
+ */
+export async function evaluateConditions(
+  condition: EscrowConditionInput,
+  context: ConditionContext = {},
+): Promise<ConditionEvaluation> {
+  let list: EscrowCondition[];
+  if (typeof condition === 'string') {
+    const parsed = parseCondition(condition);
+    if (!parsed) throw new AgntorError('Free-form conditions cannot be evaluated locally', 'UNSUPPORTED_CONDITION');
+    list = parsed;
+  } else {
+    list = Array.isArray(condition) ? condition : [condition];
+    encodeCondition(list);
+  }
+
+  const now = (context.now ?? Date.now)();
+  const results: ConditionResult[] = [];
+  for (const c of list) results.push(await checkCondition(c, context, now));
+
+  return { passed: results.every((r) => r.passed), results, evaluatedAt: new Date(now).toISOString() };
+}
+
+// ---------------------------------------------------------------------------
+// Evidence
+// ---------------------------------------------------------------------------
+
+/**
+ * Assemble the unsigned evidence for an evaluation, with digests of the
+ * artifact and output that were checked.
+ */
+export function buildEvidence(params: {
+  escrowId: string;
+  milestoneId?: string;
+  condition: string;
+  evaluation: ConditionEvaluation;
+  context?: ConditionContext;
+  signer: string;
+  keyId?: string;
+}): UnsignedEvidence {
+  const { context = {} } = params;
+  return {
+    version: 1,
+    escrowId: params.escrowId,
+    ...(params.milestoneId !== undefined ? { milestoneId: params.milestoneId } : {}),
+    condition: params.condition,
+    passed: params.evaluation.passed,
+    results: params.evaluation.results,
+    evaluatedAt: params.evaluation.evaluatedAt,
+    ...(context.artifact !== undefined ? { artifactSha256: sha256Hex(context.artifact) } : {}),
+    ...(context.output !== undefined ? { outputSha256: sha256Hex(canonicalJson(context.output)) } : {}),
+    signer: params.signer,
+    ...(params.keyId !== undefined ? { keyId: params.keyId } : {}),
+  };
+}
+
+function evidenceSignature(evidence: UnsignedEvidence, secret: string): string {
+  return createHmac('sha256', secret).update(canonicalJson(evidence)).digest('hex');
+}
+
+/** Sign evidence with HMAC-SHA256 over its canonical JSON. */
+export function signEvidence(evidence: UnsignedEvidence, secret: string): EvidenceBundle {
+  return { ...evidence, signature: evidenceSignature(evidence, secret) };
+}
+
+/** Check an evidence bundle's signature (constant-time). */
+export function verifyEvidence(bundle: EvidenceBundle, secret: string): boolean {
+  const { signature, ...evidence } = bundle;
+  if (typeof signature !== 'string') return false;
+  const expected = Buffer.from(evidenceSignature(evidence, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Serialize evidence as a settlement `proof` string. */
+export function encodeEvidence(bundle: EvidenceBundle): string {
+  return canonicalJson(bundle);
+}
+
+/** Parse a `proof` string produced by `encodeEvidence`, or `undefined` if it is not one. */
+export function decodeEvidence(proof: string): EvidenceBundle | undefined {
+  try {
+    const value = JSON.parse(proof) as Partial<EvidenceBundle> | null;
+    if (value?.version === 1 && typeof value.escrowId === 'string' && typeof value.signature === 'string') {
+      return value as EvidenceBundle;
+    }
+  } catch {
+    // Opaque proof
+  }
+  return undefined;
+}
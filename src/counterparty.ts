@@ -0,0 +1,264 @@
+import type {
+  AgentIdentity,
+  AuditLevel,
+  ReputationScore,
+  SettlementGuardResult,
+  TransactionMeta,
+  VerificationStatus,
+} from './types.js';
+import { AgntorError } from './types.js';
+import { settlementGuard } from './settlement-guard.js';
+import type { SettlementGuardOptions } from './settlement-guard.js';
+
+const DEFAULT_CHECK_TIMEOUT = 5_000;
+
+/**
+ * Outcome of `assessCounterparty`:
+ * - `allow`: every check passed
+ * - `review`: nothing disqualifying, but something could not be confirmed
+ * - `deny`: a check found a reason not to transact
+ */
+export type CounterpartyDecision = 'allow' | 'review' | 'deny';
+
+/** Sub-checks of a counterparty assessment */
+export type CounterpartyCheck = 'identity' | 'verification' | 'reputation' | 'guard';
+
+/**
+ * How one sub-check went. `skipped` means it had nothing to check
+ * (the guard without transaction details).
+ */
+export interface CounterpartyCheckResult {
+  status: 'ok' | 'failed' | 'timeout' | 'skipped';
+  /** Time the check took, in ms */
+  durationMs: number;
+  /** Why it failed or timed out */
+  error?: string;
+}
+
+/**
+ * Decision thresholds, set per audit level with `thresholds`.
+ */
+export interface CounterpartyThresholds {
+  /** Reputation below this needs review (default: 0.5) */
+  minReputation: number;
+  /** Reputation below this is denied, once the agent has history (default: 0.2) */
+  denyReputation: number;
+  /** Guard risk score above this needs review (default: 0.3) */
+  maxRiskScore: number;
+  /** Whether unverified agents need review (default: true) */
+  requireVerified: boolean;
+}
+
+/**
+ * Options of `assessCounterparty`.
+ */
+export interface AssessCounterpartyOptions {
+  /**
+   * Thresholds by audit level (`Bronze` … `Platinum`), each merged over
+   * `default`, which is merged over the built-in defaults
+   */
+  thresholds?: Partial<Record<AuditLevel | 'default', Partial<CounterpartyThresholds>>>;
+  /** Time each sub-check may take, in ms (default: 5000) */
+  timeout?: number;
+  /** Options for `settlementGuard` (e.g. `deepScan` and `provider`) */
+  guard?: SettlementGuardOptions;
+  /**
+   * 0–1 reputation of the agent, also passed to `settlementGuard` when
+   * the transaction has no `reputationScore` and the agent has history
+   * (default: `successRate`)
+   */
+  reputationScore?: (reputation: ReputationScore) => number;
+  /** Bypass the lookup cache */
+  refresh?: boolean;
+}
+
+/**
+ * Risk report of `assessCounterparty`.
+ */
+export interface CounterpartyReport {
+  agentId: string;
+  decision: CounterpartyDecision;
+  /** Why the decision is not `allow` (empty when it is) */
+  reasons: string[];
+  identityFound: boolean;
+  verified: boolean;
+  auditLevel?: string;
+  /** 0–1 reputation used for the decision */
+  reputationScore?: number;
+  identity?: AgentIdentity;
+  verification?: VerificationStatus;
+  reputation?: ReputationScore;
+  /** Heuristic (and, with `deepScan`, LLM) findings on the transaction */
+  guard?: SettlementGuardResult;
+  checks: Record<CounterpartyCheck, CounterpartyCheckResult>;
+  /** Thresholds applied, for the agent's audit level */
+  thresholds: CounterpartyThresholds;
+  /** ISO-8601 time of the assessment */
+  assessedAt: string;
+}
+
+/**
+ * Lookups `assessCounterparty` runs; `Agntor` supplies its modules.
+ */
+export interface CounterpartySources {
+  /** `signal` aborts once the check times out */
+  identity(agentId: string, refresh: boolean, signal: AbortSignal): Promise<AgentIdentity>;
+  verification(agentId: string, refresh: boolean, signal: AbortSignal): Promise<VerificationStatus>;
+  reputation(agentId: string, refresh: boolean, signal: AbortSignal): Promise<ReputationScore>;
+}
+
+/** Thresholds applied when none are configured */
+export const DEFAULT_COUNTERPARTY_THRESHOLDS: Readonly<CounterpartyThresholds> = {
+  minReputation: 0.5,
+  denyReputation: 0.2,
+  maxRiskScore: 0.3,
+  requireVerified: true,
+};
+
+/**
+ * Thresholds for an agent with `auditLevel`: the level's settings over
+ * `default` over `DEFAULT_COUNTERPARTY_THRESHOLDS`.
+ */
+export function counterpartyThresholds(
+  thresholds: AssessCounterpartyOptions['thresholds'] = {},
+  auditLevel?: string,
+): CounterpartyThresholds {
+  const level = auditLevel !== undefined && Object.hasOwn(thresholds, auditLevel)
+    ? thresholds[auditLevel as AuditLevel]
+    : undefined;
+  return { ...DEFAULT_COUNTERPARTY_THRESHOLDS, ...thresholds.default, ...level };
+}
+
+interface Settled<T> {
+  value?: T;
+  error?: unknown;
+  result: CounterpartyCheckResult;
+}
+
+/**
+ * Run a check, recording how it went instead of throwing. On timeout
+ * the check's `signal` aborts, cancelling its requests.
+ */
+async function runCheck<T>(check: (signal: AbortSignal) => Promise<T>, timeout: number): Promise<Settled<T>> {
+  const started = Date.now();
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new AgntorError(`Timed out after ${timeout}ms`, 'TIMEOUT'));
+      controller.abort();
+    }, timeout);
+  });
+
+  try {
+    const value = await Promise.race([check(controller.signal), expired]);
+    return { value, result: { status: 'ok', durationMs: Date.now() - started } };
+  } catch (err) {
+    const timedOut = err instanceof AgntorError && err.code === 'TIMEOUT';
+    return {
+      error: err,
+      result: { status: timedOut ? 'timeout' : 'failed', durationMs: Date.now() - started, error: (err as Error).message },
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function hasHistory(reputation: ReputationScore): boolean {
+  return reputation.escrowVolume > 0 || reputation.slashes > 0 || reputation.counterpartiesCount > 0;
+}
+
+/**
+ * Assess a counterparty before transacting: its identity, verification,
+ * and reputation are looked up concurrently, and `settlementGuard` runs
+ * on the transaction (if given) once the reputation is known. Each
+ * check is bounded by `timeout`; one that fails or times out is recorded
+ * in `checks` and leads to `review` rather than an error.
+ *
+ * The decision is `deny` when the identity does not exist, the guard
+ * blocks the transaction, or the reputation of an agent with history is
+ * below `denyReputation`; `review` when a check could not complete, the
+ * agent is unverified (with `requireVerified`), the reputation is below
+ * `minReputation`, or the guard's risk score exceeds `maxRiskScore`;
+ * otherwise `allow`.
+ */
+export async function assessCounterparty(
+  sources: CounterpartySources,
+  agentId: string,
+  meta: TransactionMeta | undefined,
+  options: AssessCounterpartyOptions = {},
+): Promise<CounterpartyReport> {
+  const timeout = options.timeout ?? DEFAULT_CHECK_TIMEOUT;
+  const refresh = options.refresh === true;
+  const toScore = options.reputationScore ?? ((r: ReputationScore) => r.successRate);
+
+  const identityCheck = runCheck((signal) => sources.identity(agentId, refresh, signal), timeout);
+  const verificationCheck = runCheck((signal) => sources.verification(agentId, refresh, signal), timeout);
+  const reputationCheck = runCheck((signal) => sources.reputation(agentId, refresh, signal), timeout);
+  const [identity, verification, reputation, guard] = await Promise.all([
+    identityCheck,
+    verificationCheck,
+    reputationCheck,
+    meta
+      ? reputationCheck.then(({ value }) => runCheck(() => settlementGuard(
+          { ...meta, reputationScore: meta.reputationScore ?? (value && hasHistory(value) ? toScore(value) : undefined) },
+          options.guard,
+        ), timeout))
+      : Promise.resolve<Settled<SettlementGuardResult>>({ result: { status: 'skipped', durationMs: 0 } }),
+  ]);
+
+  const auditLevel = verification.value?.auditLevel;
+  const thresholds = counterpartyThresholds(options.thresholds, auditLevel);
+  const reputationScore = reputation.value ? toScore(reputation.value) : undefined;
+  const identityMissing = identity.error instanceof AgntorError && identity.error.statusCode === 404;
+
+  const denials: string[] = [];
+  const reviews: string[] = [];
+  const checks = { identity, verification, reputation, guard };
+  for (const [name, check] of Object.entries(checks)) {
+    if (name === 'identity' && identityMissing) continue;
+    if (check.result.status === 'failed') reviews.push(`${name} check failed: ${check.result.error}`);
+    if (check.result.status === 'timeout') reviews.push(`${name} check timed out`);
+  }
+
+  if (identityMissing) denials.push('Identity not found');
+  if (verification.value && !verification.value.verified && thresholds.requireVerified) {
+    reviews.push('Agent is not verified');
+  }
+  if (reputation.value && reputationScore !== undefined) {
+    if (!hasHistory(reputation.value)) {
+      reviews.push('Agent has no settlement history');
+    } else if (reputationScore < thresholds.denyReputation) {
+      denials.push(`Reputation ${reputationScore} is below ${thresholds.denyReputation}`);
+    } else if (reputationScore < thresholds.minReputation) {
+      reviews.push(`Reputation ${reputationScore} is below ${thresholds.minReputation}`);
+    }
+  }
+  if (guard.value?.classification === 'block') {
+    denials.push(`Settlement guard blocked the transaction: ${guard.value.reasoning}`);
+  } else if (guard.value && guard.value.riskScore > thresholds.maxRiskScore) {
+    reviews.push(`Transaction risk score ${guard.value.riskScore} is above ${thresholds.maxRiskScore}`);
+  }
+
+  return {
+    agentId,
+    decision: denials.length > 0 ? 'deny' : reviews.length > 0 ? 'review' : 'allow',
+    reasons: [...denials, ...reviews],
+    identityFound: identity.value !== undefined,
+    verified: verification.value?.verified === true,
+    ...(auditLevel !== undefined ? { auditLevel } : {}),
+    ...(reputationScore !== undefined ? { reputationScore } : {}),
+    ...(identity.value ? { identity: identity.value } : {}),
+    ...(verification.value ? { verification: verification.value } : {}),
+    ...(reputation.value ? { reputation: reputation.value } : {}),
+    ...(guard.value ? { guard: guard.value } : {}),
+    checks: {
+      identity: identity.result,
+      verification: verification.result,
+      reputation: reputation.result,
+      guard: guard.result,
+    },
+    thresholds,
+    assessedAt: new Date().toISOString(),
+  };
+}
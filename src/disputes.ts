@@ -0,0 +1,58 @@
+import type { ArbitrationOutcome, EscrowRecord } from './types.js';
+import { applyMilestoneSettlement } from './milestones.js';
+import { applyPayeeSettlement } from './payees.js';
+import { amountTolerance, invalidInput } from './money.js';
+import type { EscrowStatus } from './escrow-state.js';
+
+const invalid = invalidInput('INVALID_OUTCOME');
+
+/**
+ * Final escrow status after a ruling. A split counts as `released` if
+ * the counterparty received anything, like a partly paid milestone
+ * escrow.
+ */
+export function arbitrationStatus(outcome: ArbitrationOutcome): EscrowStatus {
+  if (outcome.ruling !== 'split') return outcome.ruling;
+  return outcome.released > 0 ? 'released' : 'slashed';
+}
+
+/**
+ * Throw `INVALID_OUTCOME` unless a split divides exactly the amount the
+ * escrow still holds, with no negative share.
+ */
+export function validateArbitrationOutcome(record: EscrowRecord, outcome: ArbitrationOutcome): void {
+  if (outcome.ruling !== 'split') return;
+  const held = record.balance?.remaining ?? record.amount;
+  const { released, slashed } = outcome;
+  if (![released, slashed].every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0)) {
+    throw invalid('Split shares must be non-negative numbers');
+  }
+  if (Math.abs(released + slashed - held) > amountTolerance(held)) {
+    throw invalid(`Split shares add up to ${released + slashed}, but the escrow holds ${held}`);
+  }
+}
+
+/**
+ * Record after a ruling: the final status, and for splits the updated
+ * balance. Full rulings settle the pending stages or payees of milestone
+ * and multi-party escrows.
+ */
+export function applyArbitration(record: EscrowRecord, outcome: ArbitrationOutcome, settledAt?: string): EscrowRecord {
+  if (outcome.ruling !== 'split') {
+    if (record.payees?.length) return applyPayeeSettlement(record, outcome.ruling, undefined, settledAt);
+    return record.milestones?.length
+      ? applyMilestoneSettlement(record, outcome.ruling, undefined, settledAt)
+      : { ...record, status: outcome.ruling };
+  }
+
+  const before = record.balance ?? { released: 0, slashed: 0, remaining: record.amount };
+  return {
+    ...record,
+    status: arbitrationStatus(outcome),
+    balance: {
+      released: before.released + outcome.released,
+      slashed: before.slashed + outcome.slashed,
+      remaining: 0,
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import type { EscrowRecord } from './types.js';
+import type { EscrowStatus } from './escrow-state.js';
+
+/** Default page size for `escrow.list` */
+export const DEFAULT_ESCROW_PAGE_SIZE = 50;
+
+/**
+ * Filters for `escrow.list`. All filters are combined with AND.
+ */
+export interface EscrowListFilter {
+  /** Only escrows in this status (or any of these statuses) */
+  status?: EscrowStatus | EscrowStatus[];
+  /** Only escrows with this counterparty agent */
+  counterparty?: string;
+  /** Minimum amount (inclusive) */
+  minAmount?: number;
+  /** Maximum amount (inclusive) */
+  maxAmount?: number;
+  /** Created at or after this time */
+  createdAfter?: string | Date;
+  /** Created before this time */
+  createdBefore?: string | Date;
+  /** Expiring (`createdAt + timeout`) at or after this time */
+  expiresAfter?: string | Date;
+  /** Expiring before this time */
+  expiresBefore?: string | Date;
+  /** This agent's side of the escrow (default: either) */
+  role?: 'payer' | 'payee';
+  /** Page size (default: 50) */
+  pageSize?: number;
+}
+
+/**
+ * One page of `escrow.list` results.
+ */
+export interface EscrowPage {
+  escrows: EscrowRecord[];
+  /** Pass to the next request; absent on the last page */
+  nextCursor?: string;
+}
+
+/** `EscrowSummary.byCurrency` key for escrows created with plain number amounts */
+export const UNSPECIFIED_CURRENCY = 'unspecified';
+
+/**
+ * Totals for the escrows of one currency.
+ */
+export interface EscrowCurrencySummary {
+  /** Number of escrows */
+  count: number;
+  /** Value currently held across these escrows */
+  totalLocked: number;
+  /** Count, nominal amount, and locked value per status */
+  byStatus: Partial<Record<EscrowStatus, { count: number; amount: number; locked: number }>>;
+  /** Count and locked value per counterparty; a multi-party escrow counts for each payee, with its share */
+  byCounterparty: Record<string, { count: number; locked: number }>;
+}
+
+/**
+ * Totals for a set of escrows, from `summarizeEscrows`. Amounts in
+ * different currencies are never added up.
+ */
+export interface EscrowSummary {
+  /** Number of escrows */
+  count: number;
+  /** Totals per `currency.token`; escrows without a currency are under `UNSPECIFIED_CURRENCY` */
+  byCurrency: Record<string, EscrowCurrencySummary>;
+}
+
+/**
+ * Value an escrow currently holds: the unsettled balance of a funded or
+ * disputed escrow, otherwise nothing (not yet funded, or paid out).
+ */
+export function lockedAmount(record: EscrowRecord): number {
+  if (record.status !== 'funded' && record.status !== 'disputed') return 0;
+  return record.balance?.remaining ?? record.amount;
+}
+
+/** Locked value per counterparty: the unsettled share of each payee, or the whole escrow. */
+function lockedShares(record: EscrowRecord): [agentId: string, locked: number][] {
+  if (!record.payees?.length) return [[record.counterparty, lockedAmount(record)]];
+  const held = record.status === 'funded' || record.status === 'disputed';
+  return record.payees.map((payee) => [payee.agentId, held && payee.status === 'pending' ? payee.amount : 0]);
+}
+
+/**
+ * Total locked value per currency, and within each per counterparty
+ * and per status.
+ *
+ * Accepts an array or the async iterator returned by `escrow.list`.
+ */
+export async function summarizeEscrows(
+  escrows: Iterable<EscrowRecord> | AsyncIterable<EscrowRecord>,
+): Promise<EscrowSummary> {
+  const summary: EscrowSummary = { count: 0, byCurrency: {} };
+
+  for await (const escrow of escrows) {
+    const locked = lockedAmount(escrow);
+    summary.count++;
+
+    const totals = (summary.byCurrency[escrow.currency?.token ?? UNSPECIFIED_CURRENCY] ??= {
+      count: 0,
+      totalLocked: 0,
+      byStatus: {},
+      byCounterparty: {},
+    });
+    totals.count++;
+    totals.totalLocked += locked;
+
+    const status = (totals.byStatus[escrow.status] ??= { count: 0, amount: 0, locked: 0 });
+    status.count++;
+    status.amount += escrow.amount;
+    status.locked += locked;
+
+    for (const [agentId, share] of lockedShares(escrow)) {
+      const counterparty = (totals.byCounterparty[agentId] ??= { count: 0, locked: 0 });
+      counterparty.count++;
+      counterparty.locked += share;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Encode a filter and cursor as the `GET /api/v1/escrow` query string.
+ */
+export function escrowListQuery(filter: EscrowListFilter, cursor?: string): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | Date | undefined) => {
+    if (value === undefined) return;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  };
+
+  if (filter.status !== undefined) {
+    set('status', Array.isArray(filter.status) ? filter.status.join(',') : filter.status);
+  }
+  set('counterparty', filter.counterparty);
+  set('minAmount', filter.minAmount);
+  set('maxAmount', filter.maxAmount);
+  set('createdAfter', filter.createdAfter);
+  set('createdBefore', filter.createdBefore);
+  set('expiresAfter', filter.expiresAfter);
+  set('expiresBefore', filter.expiresBefore);
+  set('role', filter.role);
+  set('limit', filter.pageSize ?? DEFAULT_ESCROW_PAGE_SIZE);
+  set('cursor', cursor);
+
+  return params.toString();
+}
@@ -0,0 +1,153 @@
+import type { AgntorEvent, ArbitrationOutcome, EscrowRecord } from './types.js';
+import { AgntorError } from './types.js';
+import { applyMilestoneSettlement, assertMilestonePending } from './milestones.js';
+import { applyArbitration } from './disputes.js';
+import { applyPayeeSettlement, assertPayeePending } from './payees.js';
+
+const DEFAULT_MAX_TRACKED = 1_000;
+
+/** Every status an escrow can be in */
+export const ESCROW_STATUSES = ['created', 'funded', 'released', 'slashed', 'cancelled', 'expired', 'disputed'] as const;
+export type EscrowStatus = typeof ESCROW_STATUSES[number];
+
+/**
+ * Operations that move an escrow between statuses. `expire` and
+ * `dispute` are applied by the server; the rest are client calls.
+ */
+export type EscrowAction = 'fund' | 'cancel' | 'release' | 'slash' | 'resolve' | 'dispute' | 'expire';
+
+/**
+ * Legal transitions: for each status, the actions allowed from it and
+ * the statuses each action may lead to. Statuses with no entries are
+ * terminal.
+ */
+export const ESCROW_TRANSITIONS: Readonly<Record<EscrowStatus, Readonly<Partial<Record<EscrowAction, readonly EscrowStatus[]>>>>> = {
+  created: { fund: ['funded'], cancel: ['cancelled'], expire: ['expired'] },
+  funded: {
+    release: ['released'],
+    slash: ['slashed'],
+    resolve: ['released', 'slashed'],
+    dispute: ['disputed'],
+    cancel: ['cancelled'],
+    expire: ['expired'],
+  },
+  disputed: { resolve: ['released', 'slashed'] },
+  released: {},
+  slashed: {},
+  cancelled: {},
+  expired: {},
+};
+
+/** Whether `status` has no outgoing transitions. */
+export function isTerminalStatus(status: EscrowStatus): boolean {
+  return Object.keys(ESCROW_TRANSITIONS[status]).length === 0;
+}
+
+/** Whether `action` is legal from `status`. */
+export function canTransition(status: EscrowStatus, action: EscrowAction): boolean {
+  return ESCROW_TRANSITIONS[status]?.[action] !== undefined;
+}
+
+/**
+ * Actions currently legal for an escrow.
+ *
+ * @example allowedEscrowActions({ status: 'created' }) // ['fund', 'cancel', 'expire']
+ */
+export function allowedEscrowActions(record: Pick<EscrowRecord, 'status'>): EscrowAction[] {
+  return Object.keys(ESCROW_TRANSITIONS[record.status] ?? {}) as EscrowAction[];
+}
+
+/**
+ * Throw `INVALID_TRANSITION` unless `action` is legal for `record`.
+ */
+export function assertEscrowTransition(record: Pick<EscrowRecord, 'escrowId' | 'status'>, action: EscrowAction): void {
+  if (canTransition(record.status, action)) return;
+  const allowed = allowedEscrowActions(record);
+  throw new AgntorError(
+    `Cannot ${action} escrow ${record.escrowId}: status is "${record.status}"`
+      + (allowed.length ? ` (allowed: ${allowed.join(', ')})` : ' (terminal)'),
+    'INVALID_TRANSITION',
+    409,
+  );
+}
+
+/**
+ * Last known record of each escrow this client has seen, from its own
+ * responses and from pushed events. Used to reject illegal transitions
+ * before they reach the server.
+ */
+export class EscrowStateTracker {
+  private readonly records = new Map<string, EscrowRecord>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_TRACKED) {}
+
+  get(escrowId: string): EscrowRecord | undefined {
+    return this.records.get(escrowId);
+  }
+
+  remember(record: EscrowRecord): void {
+    this.records.delete(record.escrowId);
+    this.records.set(record.escrowId, record);
+    if (this.records.size > this.maxEntries) {
+      this.records.delete(this.records.keys().next().value as string);
+    }
+  }
+
+  /** Update from an emitted event (local or server-pushed). */
+  observe(event: AgntorEvent, data: unknown): void {
+    if (!data || typeof data !== 'object') return;
+    const payload = data as Record<string, unknown>;
+    if (typeof payload.escrowId !== 'string') return;
+
+    if (event === 'escrow_settled') {
+      const known = this.records.get(payload.escrowId);
+      if (!known) return;
+      const outcome = payload.outcome as EscrowStatus;
+      const milestoneId = typeof payload.milestoneId === 'string' ? payload.milestoneId : undefined;
+      const payee = typeof payload.payee === 'string' ? payload.payee : undefined;
+      if (known.payees?.length && (outcome === 'released' || outcome === 'slashed')) {
+        this.remember(applyPayeeSettlement(known, outcome, payee));
+      } else if (known.milestones?.length && (outcome === 'released' || outcome === 'slashed')) {
+        this.remember(applyMilestoneSettlement(known, outcome, milestoneId));
+      } else if (!milestoneId && !payee && (ESCROW_STATUSES as readonly string[]).includes(outcome)) {
+        this.remember({ ...known, status: outcome });
+      }
+    } else if (event === 'dispute_opened') {
+      const known = this.records.get(payload.escrowId);
+      if (known && canTransition(known.status, 'dispute')) this.remember({ ...known, status: 'disputed' });
+    } else if (event === 'dispute_resolved') {
+      const known = this.records.get(payload.escrowId);
+      const outcome = payload.outcome as ArbitrationOutcome | undefined;
+      if (known && outcome && !isTerminalStatus(known.status)) {
+        this.remember(applyArbitration(known, outcome, payload.resolvedAt as string | undefined));
+      }
+    } else if (event.startsWith('escrow_') && (ESCROW_STATUSES as readonly unknown[]).includes(payload.status)) {
+      this.remember(data as EscrowRecord);
+    }
+  }
+
+  /**
+   * Throw `INVALID_TRANSITION` if the last known record forbids `action`.
+   * Escrows this client has not seen are left to the server to judge.
+   */
+  assert(escrowId: string, action: EscrowAction): void {
+    const known = this.records.get(escrowId);
+    if (known) assertEscrowTransition(known, action);
+  }
+
+  /** Like `assert`, and also require a known payee's share to be pending. */
+  assertPayee(escrowId: string, agentId: string, action: EscrowAction): void {
+    const known = this.records.get(escrowId);
+    if (!known) return;
+    assertEscrowTransition(known, action);
+    if (known.payees) assertPayeePending(known, agentId);
+  }
+
+  /** Like `assert`, and also require a known milestone to be pending. */
+  assertMilestone(escrowId: string, milestoneId: string, action: EscrowAction): void {
+    const known = this.records.get(escrowId);
+    if (!known) return;
+    assertEscrowTransition(known, action);
+    if (known.milestones) assertMilestonePending(known, milestoneId);
+  }
+}
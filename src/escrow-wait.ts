@@ -0,0 +1,199 @@
+import type { Agntor } from './agntor.js';
+import type { AgntorEvent, AgntorEventMap, EscrowRecord, SettlementResult } from './types.js';
+import { AgntorError } from './types.js';
+import { isTerminalStatus } from './escrow-state.js';
+import type { EscrowStatus } from './escrow-state.js';
+
+const DEFAULT_INTERVAL = 1_000;
+const DEFAULT_MAX_INTERVAL = 15_000;
+
+/** Events that carry escrow state changes */
+const ESCROW_EVENTS: readonly AgntorEvent[] = [
+  'escrow_created',
+  'escrow_funded',
+  'escrow_settled',
+  'escrow_cancelled',
+  'dispute_opened',
+  'dispute_resolved',
+];
+
+/**
+ * What `escrow.waitFor` waits for: a status, any of several statuses,
+ * or a predicate over the record.
+ */
+export type EscrowWaitTarget = EscrowStatus | EscrowStatus[] | ((record: EscrowRecord) => boolean);
+
+/**
+ * Options for `escrow.waitFor`.
+ */
+export interface WaitForOptions {
+  /** Give up after this many ms (`WAIT_TIMEOUT`); default: wait indefinitely */
+  timeout?: number;
+  /** Abort the wait (`ABORTED`) */
+  signal?: AbortSignal;
+  /** First polling interval in ms (default: 1 000); doubles while nothing changes */
+  interval?: number;
+  /** Upper bound for the polling interval in ms (default: 15 000) */
+  maxInterval?: number;
+}
+
+function toPredicate(target: EscrowWaitTarget): (record: EscrowRecord) => boolean {
+  if (typeof target === 'function') return target;
+  const statuses = Array.isArray(target) ? target : [target];
+  return (record) => statuses.includes(record.status);
+}
+
+/** An event name together with its payload */
+export type EscrowAnnouncement = {
+  [E in AgntorEvent]: { event: E; data: AgntorEventMap[E] };
+}[AgntorEvent];
+
+/**
+ * The settlement a released or slashed record reflects: the whole
+ * escrow, with the outcome of each settled payee.
+ */
+function settlementOf(record: EscrowRecord & { status: 'released' | 'slashed' }): SettlementResult {
+  const settledAt = [...(record.payees ?? []), ...(record.milestones ?? [])]
+    .map((part) => part.settledAt)
+    .filter((at): at is string => at !== undefined)
+    .sort()
+    .at(-1);
+  const payees = record.payees?.flatMap((payee) =>
+    payee.status === 'pending' ? [] : [{ agentId: payee.agentId, outcome: payee.status, amount: payee.amount }]);
+
+  return {
+    escrowId: record.escrowId,
+    outcome: record.status,
+    amount: record.amount,
+    ...(payees?.length ? { payees } : {}),
+    ...(settledAt ? { settledAt } : {}),
+  };
+}
+
+/**
+ * The event announcing that an escrow reached its current status, with
+ * its payload, if there is one.
+ */
+export function statusEvent(record: EscrowRecord): EscrowAnnouncement | undefined {
+  switch (record.status) {
+    case 'created':
+      return { event: 'escrow_created', data: record };
+    case 'funded':
+      return { event: 'escrow_funded', data: record };
+    case 'cancelled':
+      return { event: 'escrow_cancelled', data: record };
+    case 'released':
+    case 'slashed':
+      return { event: 'escrow_settled', data: settlementOf({ ...record, status: record.status }) };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Wait until an escrow satisfies `target`.
+ *
+ * Pushed escrow events wake the wait immediately; while a live event
+ * channel is open, polling drops to a slow safety net. Otherwise the
+ * status is polled with backoff that resets whenever it changes. Fails
+ * fast with `ESCROW_TERMINAL` once the escrow can no longer change.
+ * On success the matching escrow event is emitted (deduplicated against
+ * any already delivered).
+ *
+ * @internal Use `agntor.escrow.waitFor`.
+ */
+export async function waitForEscrow(
+  sdk: Agntor,
+  escrowId: string,
+  target: EscrowWaitTarget,
+  options: WaitForOptions = {},
+): Promise<EscrowRecord> {
+  const matches = toPredicate(target);
+  const baseInterval = options.interval ?? DEFAULT_INTERVAL;
+  const maxInterval = Math.max(options.maxInterval ?? DEFAULT_MAX_INTERVAL, baseInterval);
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  if (options.signal?.aborted) abort();
+  const timer = options.timeout === undefined
+    ? undefined
+    : setTimeout(() => {
+        timedOut = true;
+        abort();
+      }, options.timeout);
+
+  let wake: (() => void) | undefined;
+  let pushed = false;
+  const onEvent = (data: unknown) => {
+    if ((data as { escrowId?: unknown } | undefined)?.escrowId !== escrowId) return;
+    pushed = true;
+    wake?.();
+  };
+  for (const event of ESCROW_EVENTS) sdk.on(event, onEvent);
+
+  // Resolves on wake-up, abort, or after `ms`
+  const pause = (ms: number) => new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(t);
+      controller.signal.removeEventListener('abort', done);
+      wake = undefined;
+      resolve();
+    };
+    const t = setTimeout(done, ms);
+    controller.signal.addEventListener('abort', done, { once: true });
+    wake = done;
+    if (pushed || controller.signal.aborted) done();
+  });
+
+  const stopped = () => new AgntorError(
+    timedOut
+      ? `Escrow ${escrowId} did not reach the expected state within ${options.timeout}ms`
+      : `Waiting for escrow ${escrowId} was aborted`,
+    timedOut ? 'WAIT_TIMEOUT' : 'ABORTED',
+  );
+
+  // Settles with the fetch, or rejects as soon as the wait is stopped
+  const fetchStatus = () => new Promise<EscrowRecord>((resolve, reject) => {
+    if (controller.signal.aborted) return reject(stopped());
+    const onAbort = () => reject(stopped());
+    controller.signal.addEventListener('abort', onAbort, { once: true });
+    sdk.escrow.status(escrowId).then(resolve, reject).finally(() => {
+      controller.signal.removeEventListener('abort', onAbort);
+    });
+  });
+
+  try {
+    let record = await fetchStatus();
+    let delay = baseInterval;
+
+    while (true) {
+      if (matches(record)) {
+        const announcement = statusEvent(record);
+        if (announcement) sdk.emit(announcement.event, announcement.data);
+        return record;
+      }
+      if (isTerminalStatus(record.status)) {
+        throw new AgntorError(
+          `Escrow ${escrowId} is ${record.status} and can no longer reach the expected state`,
+          'ESCROW_TERMINAL',
+        );
+      }
+
+      await pause(sdk.hasLiveChannel() ? maxInterval : delay);
+      if (controller.signal.aborted) throw stopped();
+
+      const previous = record.status;
+      // Pushed events already updated the client's view of the escrow
+      const known = pushed ? sdk.knownEscrow(escrowId) : undefined;
+      pushed = false;
+      record = known ?? await fetchStatus();
+      delay = record.status === previous ? Math.min(delay * 2, maxInterval) : baseInterval;
+    }
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abort);
+    for (const event of ESCROW_EVENTS) sdk.off(event, onEvent);
+  }
+}
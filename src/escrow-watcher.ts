@@ -0,0 +1,337 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { EscrowRecord } from './types.js';
+import { canTransition, isTerminalStatus } from './escrow-state.js';
+
+const DEFAULT_CHECK_INTERVAL = 30_000;
+const DEFAULT_WARN_BEFORE = 5 * 60_000;
+const DEFAULT_WATCH_PATH = '.agntor/watched-escrows.json';
+
+/**
+ * What the watcher does once an escrow passes its deadline:
+ * - `cancel`: cancel it, returning the funds to the payer
+ * - `slash`: slash it (an unfunded escrow is cancelled instead)
+ * - `notify`: only emit `escrow_expired`
+ */
+export type ExpiryPolicy = 'cancel' | 'slash' | 'notify';
+
+/**
+ * An escrow tracked by the watcher.
+ */
+export interface WatchedEscrow {
+  escrowId: string;
+  /** ISO-8601 deadline: creation time plus the escrow `timeout` */
+  expiresAt: string;
+  /** Whether `escrow_expiring` has been emitted */
+  warned: boolean;
+}
+
+/**
+ * Persistence for watched escrows. Implementations store the whole
+ * list; the watcher serializes all reads and writes.
+ */
+export interface EscrowWatchStore {
+  load(): Promise<WatchedEscrow[]>;
+  save(entries: WatchedEscrow[]): Promise<void>;
+}
+
+/**
+ * Settings for the opt-in expiry watcher (`AgntorConfig.watcher`).
+ */
+export interface EscrowWatcherOptions {
+  /** What to do with an expired escrow (default: "notify") */
+  policy?: ExpiryPolicy;
+  /** How long before the deadline `escrow_expiring` fires, in ms (default: 5 minutes) */
+  warnBefore?: number;
+  /** Where watched escrows are persisted (default: `FileEscrowWatchStore` at `path`) */
+  store?: EscrowWatchStore;
+  /** File used by the default store (default: ".agntor/watched-escrows.json") */
+  path?: string;
+  /** Background check interval in ms; `0` disables it (default: 30 000) */
+  interval?: number;
+  /** Clock, in ms since epoch (default: `Date.now`) */
+  now?: () => number;
+}
+
+/**
+ * Payload of the `escrow_expiring` event.
+ */
+export interface EscrowExpiringEvent {
+  escrowId: string;
+  expiresAt: string;
+  /** Time left until the deadline, in ms */
+  remaining: number;
+  /** Record as of the check */
+  record: EscrowRecord;
+}
+
+/**
+ * Payload of the `escrow_expired` event.
+ */
+export interface EscrowExpiredEvent {
+  escrowId: string;
+  expiresAt: string;
+  policy: ExpiryPolicy;
+  /** What the policy did; `none` when it only notifies or nothing was legal */
+  action: 'cancel' | 'slash' | 'none';
+  /** Record after the action; absent when the escrow could not be fetched */
+  record?: EscrowRecord;
+  /** Why fetching the escrow or the action failed permanently, if it did */
+  error?: Error;
+}
+
+/**
+ * Outcome of `EscrowWatcher.check`.
+ */
+export interface EscrowWatchResult {
+  expiring: EscrowExpiringEvent[];
+  expired: EscrowExpiredEvent[];
+}
+
+/**
+ * How the watcher talks to the client that owns it.
+ */
+export interface EscrowWatcherTransport {
+  status(escrowId: string): Promise<EscrowRecord>;
+  cancel(escrowId: string): Promise<EscrowRecord>;
+  /** Slash and return the updated record */
+  slash(escrowId: string): Promise<EscrowRecord>;
+  /** Whether a failure is worth retrying on the next check */
+  isTransient(error: unknown): boolean;
+  onExpiring(event: EscrowExpiringEvent): void;
+  onExpired(event: EscrowExpiredEvent): void;
+}
+
+/**
+ * Watch store backed by a JSON file, written atomically like
+ * `FileOutboxStore`.
+ */
+export class FileEscrowWatchStore implements EscrowWatchStore {
+  constructor(private readonly path: string = DEFAULT_WATCH_PATH) {}
+
+  async load(): Promise<WatchedEscrow[]> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as WatchedEscrow[];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  async save(entries: WatchedEscrow[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entries, null, 2), 'utf8');
+    await rename(tmp, this.path);
+  }
+}
+
+/**
+ * Watch store kept in memory (lost on exit). Useful for tests.
+ */
+export class MemoryEscrowWatchStore implements EscrowWatchStore {
+  private entries: WatchedEscrow[] = [];
+
+  async load(): Promise<WatchedEscrow[]> {
+    return structuredClone(this.entries);
+  }
+
+  async save(entries: WatchedEscrow[]): Promise<void> {
+    this.entries = structuredClone(entries);
+  }
+}
+
+/**
+ * Action `policy` takes on an expired escrow in `status`, if any is
+ * legal. Unfunded escrows hold nothing to slash, so they are cancelled.
+ */
+export function expiryAction(policy: ExpiryPolicy, status: EscrowRecord['status']): 'cancel' | 'slash' | undefined {
+  if (policy === 'notify') return undefined;
+  const action = status === 'created' ? 'cancel' : policy;
+  return canTransition(status, action) ? action : undefined;
+}
+
+/**
+ * Tracks the deadlines of escrows created through the client and acts
+ * on them: `escrow_expiring` fires `warnBefore` ahead of a deadline,
+ * and once it passes the configured policy runs and `escrow_expired`
+ * fires.
+ *
+ * The escrow is refreshed before each step, so ones settled in the
+ * meantime are dropped silently. A transient failure leaves the escrow
+ * watched for the next check; a permanent one, including an escrow that
+ * can no longer be fetched, drops it and is reported on `escrow_expired`.
+ */
+export class EscrowWatcher {
+  private readonly store: EscrowWatchStore;
+  private readonly policy: ExpiryPolicy;
+  private readonly warnBefore: number;
+  private readonly now: () => number;
+  private lock: Promise<unknown> = Promise.resolve();
+  private checking?: Promise<EscrowWatchResult>;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    options: EscrowWatcherOptions,
+    private readonly transport: EscrowWatcherTransport,
+  ) {
+    this.store = options.store ?? new FileEscrowWatchStore(options.path);
+    this.policy = options.policy ?? 'notify';
+    this.warnBefore = options.warnBefore ?? DEFAULT_WARN_BEFORE;
+    this.now = options.now ?? Date.now;
+
+    const interval = options.interval ?? DEFAULT_CHECK_INTERVAL;
+    if (interval > 0) {
+      this.timer = setInterval(() => {
+        // Outcomes are reported through events; nothing to surface here
+        this.check().catch(() => {});
+      }, interval);
+      this.timer.unref?.();
+    }
+  }
+
+  /** Watched escrows, in the order they were added. */
+  async list(): Promise<WatchedEscrow[]> {
+    return this.exclusive(() => this.store.load());
+  }
+
+  /**
+   * Start watching an escrow. Its deadline is `createdAt` (or now, if
+   * the record has none) plus `timeout` seconds. Terminal escrows are
+   * ignored; watching an escrow again resets it.
+   */
+  async track(record: EscrowRecord): Promise<void> {
+    if (isTerminalStatus(record.status)) return;
+    const created = record.createdAt ? Date.parse(record.createdAt) : NaN;
+    const start = Number.isNaN(created) ? this.now() : created;
+    const entry: WatchedEscrow = {
+      escrowId: record.escrowId,
+      expiresAt: new Date(start + record.timeout * 1000).toISOString(),
+      warned: false,
+    };
+    await this.exclusive(async () => {
+      const entries = (await this.store.load()).filter((e) => e.escrowId !== record.escrowId);
+      await this.store.save([...entries, entry]);
+    });
+  }
+
+  /** Stop watching an escrow. Returns `false` if it is not watched. */
+  async untrack(escrowId: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const entries = await this.store.load();
+      const remaining = entries.filter((e) => e.escrowId !== escrowId);
+      if (remaining.length === entries.length) return false;
+      await this.store.save(remaining);
+      return true;
+    });
+  }
+
+  /**
+   * Check deadlines now. Concurrent calls share one check.
+   *
+   * The store is locked only to snapshot the watched escrows and to
+   * merge the outcome back, not while the API is called, so `track` and
+   * `untrack` are not held up by a slow check.
+   */
+  check(): Promise<EscrowWatchResult> {
+    this.checking ??= this.run().finally(() => {
+      this.checking = undefined;
+    });
+    return this.checking;
+  }
+
+  /** Stop the background check timer. */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async run(): Promise<EscrowWatchResult> {
+    const entries = await this.exclusive(() => this.store.load());
+    const result: EscrowWatchResult = { expiring: [], expired: [] };
+    // Entries this check changed (`undefined`: no longer watched), by the snapshot they were derived from
+    const changes = new Map<WatchedEscrow, WatchedEscrow | undefined>();
+
+    for (const entry of entries) {
+      const deadline = Date.parse(entry.expiresAt);
+      const now = this.now();
+      if (now < deadline - this.warnBefore || (now < deadline && entry.warned)) continue;
+
+      let record: EscrowRecord;
+      try {
+        record = await this.transport.status(entry.escrowId);
+      } catch (err) {
+        // Try again on the next check, unless the escrow is gone or off-limits for good
+        if (this.transport.isTransient(err)) continue;
+        const event: EscrowExpiredEvent = {
+          escrowId: entry.escrowId, expiresAt: entry.expiresAt, policy: this.policy, action: 'none', error: err as Error,
+        };
+        changes.set(entry, undefined);
+        result.expired.push(event);
+        this.transport.onExpired(event);
+        continue;
+      }
+      if (isTerminalStatus(record.status) && record.status !== 'expired') {
+        changes.set(entry, undefined);
+        continue;
+      }
+
+      if (now < deadline) {
+        const event: EscrowExpiringEvent = { escrowId: entry.escrowId, expiresAt: entry.expiresAt, remaining: deadline - now, record };
+        changes.set(entry, { ...entry, warned: true });
+        result.expiring.push(event);
+        this.transport.onExpiring(event);
+        continue;
+      }
+
+      const expired = await this.expire(entry, record);
+      if (!expired) continue;
+      changes.set(entry, undefined);
+      result.expired.push(expired);
+      this.transport.onExpired(expired);
+    }
+
+    if (changes.size > 0) await this.exclusive(() => this.merge(changes));
+    return result;
+  }
+
+  /**
+   * Apply a check's changes to the current store contents. Escrows
+   * tracked, re-tracked, or untracked while the check ran keep their
+   * current entry.
+   */
+  private async merge(changes: Map<WatchedEscrow, WatchedEscrow | undefined>): Promise<void> {
+    const byId = new Map([...changes].map(([before, after]) => [before.escrowId, { before, after }]));
+    const entries = (await this.store.load()).flatMap((entry) => {
+      const change = byId.get(entry.escrowId);
+      const unchanged = change
+        && change.before.expiresAt === entry.expiresAt
+        && change.before.warned === entry.warned;
+      if (!unchanged) return [entry];
+      return change.after ? [change.after] : [];
+    });
+    await this.store.save(entries);
+  }
+
+  /** Run the policy on an expired escrow; `undefined` to retry later. */
+  private async expire(entry: WatchedEscrow, record: EscrowRecord): Promise<EscrowExpiredEvent | undefined> {
+    const base = { escrowId: entry.escrowId, expiresAt: entry.expiresAt, policy: this.policy };
+    const action = expiryAction(this.policy, record.status);
+    if (!action) return { ...base, action: 'none', record };
+
+    try {
+      const after = await this.transport[action](entry.escrowId);
+      return { ...base, action, record: after };
+    } catch (err) {
+      if (this.transport.isTransient(err)) return undefined;
+      return { ...base, action, record, error: err as Error };
+    }
+  }
+
+  /** Run `fn` after every earlier store operation has finished. */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => {});
+    return run;
+  }
+}
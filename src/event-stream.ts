@@ -0,0 +1,217 @@
+import type { AgntorEvent } from './types.js';
+import { AgntorError } from './types.js';
+
+const DEFAULT_RECONNECT_DELAY = 1_000;
+const DEFAULT_MAX_RECONNECT_DELAY = 30_000;
+const DEFAULT_DEDUP_WINDOW = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_DEDUP_MAX_ENTRIES = 1_000;
+
+/** Events the server may push over the live channel */
+export const STREAM_EVENTS: readonly AgntorEvent[] = [
+  'escrow_created',
+  'escrow_funded',
+  'escrow_settled',
+  'escrow_cancelled',
+  'dispute_opened',
+  'dispute_resolved',
+  'verification_changed',
+  'reputation_updated',
+];
+
+/**
+ * A single Server-Sent Events message.
+ */
+export interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+  /** Reconnection delay requested by the server, in ms */
+  retry?: number;
+}
+
+/**
+ * Options for `Agntor.subscribe`.
+ */
+export interface SubscribeOptions {
+  /** Only receive these events (default: all stream events) */
+  events?: AgntorEvent[];
+  /** Resume after this event ID (sent as `Last-Event-ID` on the first connect) */
+  lastEventId?: string;
+  /** Initial reconnect delay in ms (default: 1 000); doubles per failed attempt */
+  reconnectDelay?: number;
+  /** Upper bound for the reconnect delay in ms (default: 30 000) */
+  maxReconnectDelay?: number;
+  /** Called for connection failures and invalid event payloads (`INVALID_EVENT`, skipped); the stream keeps reconnecting unless the error is fatal */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Handle for an open live event subscription.
+ */
+export interface EventSubscription {
+  /** ID of the last event received — pass to `subscribe` to resume later */
+  readonly lastEventId: string | undefined;
+  /** Whether the subscription has been closed */
+  readonly closed: boolean;
+  /** Stop receiving events and close the connection */
+  close(): void;
+}
+
+/**
+ * Parse an SSE byte stream into messages.
+ *
+ * Implements the subset of the EventSource wire format the Agntor API
+ * uses: `id`, `event`, `data` (multi-line), `retry`, and `:` comments.
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  const cancel = () => { reader.cancel().catch(() => {}); };
+  signal?.addEventListener('abort', cancel, { once: true });
+  let buffer = '';
+  let message: { id?: string; event?: string; data: string[]; retry?: number } = { data: [] };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + (buffer.startsWith('\r\n', newline) ? 2 : 1));
+
+        if (line === '') {
+          if (message.data.length > 0) {
+            yield {
+              id: message.id,
+              event: message.event ?? 'message',
+              data: message.data.join('\n'),
+              retry: message.retry,
+            };
+          }
+          message = { data: [] };
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        switch (field) {
+          case 'id':
+            message.id = value;
+            break;
+          case 'event':
+            message.event = value;
+            break;
+          case 'data':
+            message.data.push(value);
+            break;
+          case 'retry':
+            if (/^\d+$/.test(value)) message.retry = Number(value);
+            break;
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Remembers recently seen events so the same change is not delivered
+ * twice — once from the local call that caused it and again from the
+ * server push (or from a replay after reconnect).
+ */
+export class EventDeduplicator {
+  private readonly seen = new Map<string, number>();
+
+  constructor(
+    private readonly window: number = DEFAULT_DEDUP_WINDOW,
+    private readonly maxEntries: number = DEFAULT_DEDUP_MAX_ENTRIES,
+  ) {}
+
+  /**
+   * Record `key`; returns `false` if it was already seen within the window.
+   */
+  mark(key: string | undefined): boolean {
+    if (key === undefined) return true;
+
+    const now = Date.now();
+    for (const [k, at] of this.seen) {
+      if (now - at < this.window) break;
+      this.seen.delete(k);
+    }
+
+    if (this.seen.has(key)) return false;
+
+    this.seen.set(key, now);
+    if (this.seen.size > this.maxEntries) {
+      this.seen.delete(this.seen.keys().next().value as string);
+    }
+    return true;
+  }
+}
+
+/**
+ * Identity of an event payload for deduplication.
+ *
+ * Escrow events are keyed by escrow ID (and milestone, if any) and
+ * resulting state, so a local `escrow_funded` and the server's push for
+ * the same funding collapse.
+ */
+export function eventKey(event: AgntorEvent, data: unknown): string | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  const record = data as Record<string, unknown>;
+  if (typeof record.escrowId !== 'string') return undefined;
+  const state = record.status ?? record.outcome ?? '';
+  const milestone = typeof record.milestoneId === 'string' ? `/${record.milestoneId}` : '';
+  const payee = typeof record.payee === 'string' ? `@${record.payee}` : '';
+  return `${event}:${record.escrowId}${milestone}${payee}:${String(state)}`;
+}
+
+/**
+ * Wait `ms`, resolving early if `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/** Configuration errors: a URL the SSRF guard rejects, or a request that cannot be signed */
+const FATAL_STREAM_CODES: ReadonlySet<string> = new Set(['INVALID_URL', 'SIGNING_ERROR']);
+
+/**
+ * Whether a stream connection error should stop reconnecting.
+ * Configuration, auth, and other client errors won't fix themselves;
+ * 408/429 might.
+ */
+export function isFatalStreamError(err: unknown): boolean {
+  if (!(err instanceof AgntorError)) return false;
+  if (FATAL_STREAM_CODES.has(err.code)) return true;
+  return err.statusCode !== undefined
+    && err.statusCode >= 400
+    && err.statusCode < 500
+    && err.statusCode !== 408
+    && err.statusCode !== 429;
+}
+
+export const STREAM_DEFAULTS = {
+  reconnectDelay: DEFAULT_RECONNECT_DELAY,
+  maxReconnectDelay: DEFAULT_MAX_RECONNECT_DELAY,
+} as const;
@@ -0,0 +1,123 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { AgntorError } from './types.js';
+import { canonicalJson } from './json-schema.js';
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_MAX_ENTRIES = 1_000;
+
+interface CacheEntry {
+  scope: string;
+  bodySha256: string;
+  promise: Promise<unknown>;
+  expiresAt: number;
+}
+
+/**
+ * The call an idempotency key is bound to.
+ */
+export interface IdempotentRequest {
+  /** HTTP method */
+  method: string;
+  /** API path */
+  path: string;
+  /** Request body, compared by its canonical JSON */
+  body?: unknown;
+}
+
+/**
+ * Generate a fresh idempotency key.
+ */
+export function createIdempotencyKey(): string {
+  return randomUUID();
+}
+
+/**
+ * Local replay cache for state-changing calls.
+ *
+ * The first call with a given key runs the operation; any later call
+ * with the same key (including concurrent ones) receives the original
+ * result instead of sending a second mutation. Failed operations are
+ * evicted so the caller can retry with the same key.
+ */
+export class IdempotencyCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly ttl: number = DEFAULT_TTL,
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES,
+  ) {}
+
+  /**
+   * Run `fn` once per `key`.
+   *
+   * @param key     Idempotency key
+   * @param request The call the key is bound to; reusing the key for a
+   *                different method, path, or body is rejected
+   * @param fn      The mutation to perform
+   */
+  async run<T>(key: string, request: IdempotentRequest, fn: () => Promise<T>): Promise<T> {
+    this.prune();
+
+    const scope = `${request.method.toUpperCase()} ${request.path}`;
+    const bodySha256 = createHash('sha256')
+      .update(request.body === undefined ? '' : canonicalJson(request.body))
+      .digest('hex');
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      if (existing.scope !== scope) {
+        throw new AgntorError(
+          `Idempotency key "${key}" was already used for ${existing.scope}`,
+          'IDEMPOTENCY_KEY_REUSED',
+        );
+      }
+      if (existing.bodySha256 !== bodySha256) {
+        throw new AgntorError(
+          `Idempotency key "${key}" was already used for ${scope} with a different body`,
+          'IDEMPOTENCY_KEY_REUSED',
+        );
+      }
+      return structuredClone(await existing.promise) as T;
+    }
+
+    const promise = fn();
+    // Keep a private copy so callers mutating their result can't alter replays
+    const stored = promise.then((result) => structuredClone(result));
+    stored.catch(() => {});
+    this.entries.set(key, { scope, bodySha256, promise: stored, expiresAt: Infinity });
+
+    if (this.entries.size > this.maxEntries) {
+      // Map preserves insertion order — evict the oldest entry
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    try {
+      const result = await promise;
+      const entry = this.entries.get(key);
+      if (entry) entry.expiresAt = Date.now() + this.ttl;
+      return result;
+    } catch (err) {
+      this.entries.delete(key);
+      throw err;
+    }
+  }
+
+  /** Whether a completed or in-flight result exists for `key`. */
+  has(key: string): boolean {
+    this.prune();
+    return this.entries.has(key);
+  }
+
+  /** Drop all cached results. */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
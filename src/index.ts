@@ -1,9 +1,110 @@
 // Core client
 export { Agntor } from './agntor.js';
 
+// Idempotency
+export { IdempotencyCache, createIdempotencyKey } from './idempotency.js';
+
+// Live event stream
+export { parseServerSentEvents, STREAM_EVENTS } from './event-stream.js';
+
+// Escrow state machine
+export {
+  ESCROW_STATUSES,
+  ESCROW_TRANSITIONS,
+  allowedEscrowActions,
+  assertEscrowTransition,
+  canTransition,
+  isTerminalStatus,
+} from './escrow-state.js';
+
+// Escrow listing & summaries
+export { summarizeEscrows, lockedAmount, UNSPECIFIED_CURRENCY } from './escrow-query.js';
+
+// Escrow conditions & evidence
+export {
+  CONDITION_PREFIX,
+  encodeCondition,
+  parseCondition,
+  evaluateConditions,
+  signEvidence,
+  verifyEvidence,
+  encodeEvidence,
+  decodeEvidence,
+  parseJsonPath,
+  selectJsonPath,
+} from './conditions.js';
+export { validateJsonSchema, checkJsonSchema, canonicalJson } from './json-schema.js';
+
+// Disputes & arbitration
+export { applyArbitration, arbitrationStatus, validateArbitrationOutcome } from './disputes.js';
+
+// Milestone escrows
+export { validateMilestones, milestoneBalance } from './milestones.js';
+
+// Multi-party escrows
+export { resolvePayeeShares, applyPayeeSettlement, assertPayeePending } from './payees.js';
+
+// Durable offline outbox
+export { Outbox, FileOutboxStore, MemoryOutboxStore } from './outbox.js';
+
+// Escrow expiry watcher
+export { EscrowWatcher, FileEscrowWatchStore, MemoryEscrowWatchStore, expiryAction } from './escrow-watcher.js';
+
+// Money (exact token amounts)
+export {
+  TOKEN_DECIMALS,
+  isMoney,
+  moneyFromUnits,
+  parseMoney,
+  toMoney,
+  formatUnits,
+  formatMoney,
+  rescale,
+  sameCurrency,
+  compareMoney,
+  addMoney,
+  subtractMoney,
+  moneyToNumber,
+  escrowMoney,
+  normalizeEscrowAmounts,
+} from './money.js';
+
+// Local reputation scoring
+export { scoreReputation } from './reputation-score.js';
+
+// Reputation history queries
+export {
+  aggregateHistory,
+  filterHistory,
+  reputationHistoryQuery,
+  DEFAULT_HISTORY_PAGE_SIZE,
+  MAX_HISTORY_BUCKETS,
+} from './reputation-history.js';
+
+// Lookup cache
+export { LookupCache, MemoryLookupCacheStore } from './lookup-cache.js';
+
+// Batch lookups
+export { rankAgents, MAX_BATCH_SIZE } from './batch.js';
+
+// Counterparty assessment
+export { assessCounterparty, counterpartyThresholds, DEFAULT_COUNTERPARTY_THRESHOLDS } from './counterparty.js';
+
+// In-memory API stand-in for integration tests
+export { MockAgntorApi, MOCK_BASE_URL } from './mock-api.js';
+
+// Retry policy & circuit breaker
+export { CircuitBreaker, computeBackoff, parseRetryAfter } from './retry.js';
+
+// Request signing (HMAC) & server-side verification
+export { signRequest, RequestVerifier, MemoryNonceStore, SIGNATURE_HEADERS } from './signing.js';
+
 // Ticket system
 export { TicketIssuer } from './issuer.js';
 
+// Settlement receipts
+export { ReceiptIssuer, SettlementReceiptPayload, verifyReceipt, decodeReceipt } from './receipts.js';
+
 // Protection utilities
 export { guard, DEFAULT_INJECTION_PATTERNS } from './guard.js';
 export { redact, DEFAULT_REDACTION_PATTERNS } from './redact.js';
@@ -12,6 +113,16 @@ export { guardTool, wrapAgentTool } from './tool-guard.js';
 // Settlement guard (x402 scam detection)
 export { settlementGuard } from './settlement-guard.js';
 
+// x402 payment handshake
+export {
+  PaymentRequiredSchema,
+  PaymentRequirementSchema,
+  parsePaymentRequired,
+  selectRequirement,
+  toTransactionMeta,
+  formatAtomicAmount,
+} from './x402.js';
+
 // Battery-included guard providers
 export { createOpenAIGuardProvider } from './providers/guard-openai.js';
 export { createAnthropicGuardProvider } from './providers/guard-anthropic.js';
@@ -34,6 +145,28 @@ export {
   SettlementDecisionSchema,
   SimulationResultSchema,
   parseStructuredOutput,
+  AgentIdentitySchema,
+  VerificationStatusSchema,
+  BadgeSchema,
+  EscrowRecordSchema,
+  EscrowMilestoneSchema,
+  EscrowPayeeSchema,
+  EscrowCurrencySchema,
+  EscrowBalanceSchema,
+  EscrowPageSchema,
+  SettlementResultSchema,
+  PayeeOutcomeSchema,
+  ArbitrationOutcomeSchema,
+  DisputeEvidenceSchema,
+  DisputeRecordSchema,
+  ReputationScoreSchema,
+  ReputationHistoryEntrySchema,
+  ReputationHistorySchema,
+  ReputationHistoryPageSchema,
+  BatchItemErrorSchema,
+  ReputationBatchSchema,
+  VerificationBatchSchema,
+  withValidationMode,
 } from './schemas.js';
 
 // Transaction simulator
@@ -51,6 +184,15 @@ export type {
   AuditConstraints as AuditConstraintsType,
   AuditTicketPayload as AuditTicketPayloadType,
   AgntorConfig,
+  AgntorMiddleware,
+  AgntorRequestContext,
+  AgntorResponseContext,
+  HttpMethod,
+  IdempotencyOptions,
+  RetryPolicy,
+  CircuitBreakerOptions,
+  AgntorErrorOptions,
+  MutationOptions,
   TicketGenerationOptions,
   ValidationResult,
   TicketIssuerConfig,
@@ -65,12 +207,34 @@ export type {
   VerificationStatus,
   AttestationParams,
   EscrowCreateParams,
+  EscrowCreateFields,
   EscrowRecord,
+  Amount,
+  EscrowCurrency,
+  MilestoneParams,
+  MilestoneStatus,
+  EscrowMilestone,
+  PayeeShareParams,
+  PayeeStatus,
+  EscrowPayee,
+  EscrowBalance,
+  PayeeOutcome,
   SettlementResult,
+  DisputeStatus,
+  DisputeEvidence,
+  DisputeRecord,
+  ArbitrationOutcome,
   ReputationScore,
   ReputationHistoryEntry,
+  ReputationEventKind,
+  BatchItemError,
+  BatchLookupResponse,
   AgntorEvent,
   AgntorEventCallback,
+  AgntorEventMap,
+  AgntorEmitterEventMap,
+  ListenerErrorEvent,
+  EventIteratorOptions,
   ChatMessage,
   AnalysisResponse,
   MultimodalContentPart,
@@ -87,6 +251,154 @@ export type {
   SettlementGuardOptions,
 } from './settlement-guard.js';
 
+export type {
+  IdempotentRequest,
+} from './idempotency.js';
+
+export type {
+  MockAgntorApiOptions,
+  MockEscrow,
+  MockFault,
+  MockRequest,
+  MockRouteHandler,
+} from './mock-api.js';
+
+export type {
+  SubscribeOptions,
+  EventSubscription,
+  ServerSentEvent,
+} from './event-stream.js';
+
+export type {
+  PaymentRequired,
+  PaymentRequirement,
+  PaymentHandler,
+  PaymentProof,
+  PaymentReceipt,
+  TrustedResponse,
+  X402Options,
+} from './x402.js';
+
+export type {
+  EscrowStatus,
+  EscrowAction,
+} from './escrow-state.js';
+
+export type {
+  EscrowListFilter,
+  EscrowPage,
+  EscrowSummary,
+  EscrowCurrencySummary,
+} from './escrow-query.js';
+
+export type {
+  EscrowCondition,
+  EscrowConditionInput,
+  HttpCondition,
+  DeadlineCondition,
+  ArtifactHashCondition,
+  OutputSchemaCondition,
+  JsonPathAssertion,
+  ConditionContext,
+  ConditionResult,
+  ConditionEvaluation,
+  EvaluateEscrowOptions,
+  EvidenceBundle,
+  UnsignedEvidence,
+} from './conditions.js';
+
+export type {
+  OutputSchema,
+  OutputSchemaType,
+} from './json-schema.js';
+
+export type {
+  EscrowWaitTarget,
+  WaitForOptions,
+} from './escrow-wait.js';
+
+export type {
+  OutboxEntry,
+  OutboxStore,
+  OutboxOptions,
+  OutboxFlushResult,
+  OutboxDeliveredEvent,
+  OutboxFailedEvent,
+} from './outbox.js';
+
+export type {
+  ExpiryPolicy,
+  WatchedEscrow,
+  EscrowWatchStore,
+  EscrowWatcherOptions,
+  EscrowExpiringEvent,
+  EscrowExpiredEvent,
+  EscrowWatchResult,
+} from './escrow-watcher.js';
+
+export type {
+  Money,
+  MoneyInput,
+  ParseMoneyOptions,
+} from './money.js';
+
+export type {
+  ReputationFactor,
+  ReputationScoringOptions,
+  ReputationFactorScore,
+  ReputationBreakdown,
+} from './reputation-score.js';
+
+export type {
+  ReputationHistoryFilter,
+  ReputationHistoryPage,
+  HistoryInterval,
+  HistoryAggregationOptions,
+  HistoryBucket,
+} from './reputation-history.js';
+
+export type {
+  CachedLookup,
+  CachedValue,
+  LookupCacheStore,
+  LookupCacheOptions,
+  LookupOptions,
+} from './lookup-cache.js';
+
+export type {
+  BatchLookupOptions,
+  BatchResult,
+  RankedAgent,
+} from './batch.js';
+
+export type {
+  CounterpartyDecision,
+  CounterpartyCheck,
+  CounterpartyCheckResult,
+  CounterpartyThresholds,
+  CounterpartySources,
+  AssessCounterpartyOptions,
+  CounterpartyReport,
+} from './counterparty.js';
+
+export type {
+  SettlementReceiptPayload as SettlementReceiptPayloadType,
+  ReceiptAlgorithm,
+  ReceiptKey,
+  ReceiptIssuerConfig,
+  VerifyReceiptOptions,
+  ReceiptValidationResult,
+} from './receipts.js';
+
+export type {
+  NonceStore,
+  RequestSigningOptions,
+  RequestVerifierConfig,
+  SignatureVerificationResult,
+  SignedRequest,
+  SignRequestParams,
+} from './signing.js';
+
 export type {
   OpenAIGuardProviderOptions,
 } from './providers/guard-openai.js';
@@ -99,6 +411,7 @@ export type {
   GuardResponse,
   SettlementDecision,
   SimulationResult,
+  ResponseValidationMode,
 } from './schemas.js';
 
 export type {
@@ -6,6 +6,9 @@ import {
   ValidationResult,
   X402PaymentProof,
 } from './types.js';
+import { AgntorError } from './types.js';
+import type { Money } from './money.js';
+import { compareMoney, formatMoney, toMoney } from './money.js';
 
 /**
  * Agntor Ticket Issuer
@@ -159,13 +162,14 @@ export class TicketIssuer {
    * Validate transaction constraints against ticket
    * 
    * @param token - JWT token
-   * @param transactionValue - Dollar value of transaction
+   * @param transactionValue - Value of the transaction: a number in the
+   *   ticket's `max_op_currency` (USD by default), or exact `Money`
    * @param mcpServer - MCP server being accessed (optional)
    * @returns Validation result
    */
   async validateTransaction(
     token: string,
-    transactionValue: number,
+    transactionValue: number | Money,
     mcpServer?: string,
     paymentContext?: { protocol?: string; x402Proof?: X402PaymentProof }
   ): Promise<ValidationResult> {
@@ -176,10 +180,25 @@ export class TicketIssuer {
     }
 
     // Check transaction value constraint
-    if (transactionValue > result.payload.constraints.max_op_value) {
+    const { max_op_value, max_op_currency = 'USD' } = result.payload.constraints;
+    let value: Money;
+    let limit: Money;
+    try {
+      limit = toMoney(max_op_value, { token: max_op_currency });
+      value = toMoney(transactionValue, { token: limit.token });
+    } catch (err) {
+      if (!(err instanceof AgntorError)) throw err;
+      return {
+        valid: false,
+        error: `Transaction value cannot be checked against the ticket limit: ${err.message}`,
+        errorCode: 'CONSTRAINT_VIOLATION',
+        payload: result.payload,
+      };
+    }
+    if (compareMoney(value, limit) > 0) {
       return {
         valid: false,
-        error: `Transaction value $${transactionValue} exceeds limit $${result.payload.constraints.max_op_value}`,
+        error: `Transaction value ${formatMoney(value)} exceeds limit ${formatMoney(limit)}`,
         errorCode: 'CONSTRAINT_VIOLATION',
         payload: result.payload,
       };
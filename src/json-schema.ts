@@ -0,0 +1,200 @@
+/**
+ * The JSON Schema subset understood by `output_schema` conditions.
+ *
+ * Only these keywords are enforced. Schemas using any other validation
+ * keyword are rejected by `checkJsonSchema`, so a condition never looks
+ * stricter than it is.
+ */
+export interface OutputSchema {
+  type?: OutputSchemaType | OutputSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OutputSchema;
+  items?: OutputSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  /** Annotations, ignored during validation */
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+}
+
+export type OutputSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+const TYPES: readonly string[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+const ANNOTATIONS: readonly string[] = ['$schema', '$id', 'title', 'description'];
+const COUNTS = ['minItems', 'maxItems', 'minLength', 'maxLength'] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): OutputSchemaType | undefined {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  switch (typeof value) {
+    case 'string': return 'string';
+    case 'number': return Number.isFinite(value) ? 'number' : undefined;
+    case 'boolean': return 'boolean';
+    case 'object': return 'object';
+    default: return undefined;
+  }
+}
+
+/**
+ * Stable JSON encoding with sorted object keys, so equal values encode
+ * identically regardless of key order.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => canonicalJson(v ?? null)).join(',')}]`;
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Structural equality of JSON values. */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+/**
+ * Problems with a schema itself: unsupported keywords and malformed
+ * keyword values. Returns an empty list for a usable schema.
+ */
+export function checkJsonSchema(schema: unknown, at = '#'): string[] {
+  if (!isPlainObject(schema)) return [`${at}: schema must be an object`];
+  const problems: string[] = [];
+
+  for (const [keyword, value] of Object.entries(schema)) {
+    const where = `${at}/${keyword}`;
+    switch (keyword) {
+      case 'type': {
+        const types = Array.isArray(value) ? value : [value];
+        if (types.length === 0 || types.some((t) => !TYPES.includes(t as string))) {
+          problems.push(`${where}: must be one of ${TYPES.join(', ')}`);
+        }
+        break;
+      }
+      case 'enum':
+        if (!Array.isArray(value) || value.length === 0) problems.push(`${where}: must be a non-empty array`);
+        break;
+      case 'const':
+        break;
+      case 'properties':
+        if (!isPlainObject(value)) {
+          problems.push(`${where}: must be an object`);
+        } else {
+          for (const [name, sub] of Object.entries(value)) problems.push(...checkJsonSchema(sub, `${where}/${name}`));
+        }
+        break;
+      case 'required':
+        if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) problems.push(`${where}: must be an array of strings`);
+        break;
+      case 'additionalProperties':
+        if (typeof value !== 'boolean') problems.push(...checkJsonSchema(value, where));
+        break;
+      case 'items':
+        problems.push(...checkJsonSchema(value, where));
+        break;
+      case 'pattern':
+        try {
+          if (typeof value !== 'string') throw new TypeError();
+          new RegExp(value, 'u');
+        } catch {
+          problems.push(`${where}: must be a valid regular expression`);
+        }
+        break;
+      case 'minimum':
+      case 'maximum':
+        if (typeof value !== 'number' || !Number.isFinite(value)) problems.push(`${where}: must be a number`);
+        break;
+      default:
+        if ((COUNTS as readonly string[]).includes(keyword)) {
+          if (!Number.isInteger(value) || (value as number) < 0) problems.push(`${where}: must be a non-negative integer`);
+        } else if (!ANNOTATIONS.includes(keyword)) {
+          problems.push(`${where}: unsupported keyword`);
+        }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate `value` against `schema`. Returns one message per violation
+ * (with a JSON pointer to the offending value); empty when it matches.
+ */
+export function validateJsonSchema(value: unknown, schema: OutputSchema, at = ''): string[] {
+  const where = at || '/';
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.some((t) =>
+      t === actual || (t === 'integer' && Number.isInteger(value)) || (t === 'number' && actual === 'number'),
+    );
+    if (!matches) {
+      // Nothing else is meaningful once the type is wrong
+      return [`${where}: expected ${allowed.join(' or ')}, got ${actual ?? typeof value}`];
+    }
+  }
+  if (schema.const !== undefined && !jsonEqual(value, schema.const)) {
+    errors.push(`${where}: must equal ${canonicalJson(schema.const)}`);
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option) => jsonEqual(value, option))) {
+    errors.push(`${where}: must be one of ${schema.enum.map((o) => canonicalJson(o)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${where}: shorter than ${schema.minLength}`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${where}: longer than ${schema.maxLength}`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${where}: does not match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${where}: less than ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${where}: greater than ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${where}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${where}: more than ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${at}/${i}`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) errors.push(`${where}: missing required property "${name}"`);
+    }
+    for (const [name, item] of Object.entries(value)) {
+      const sub = schema.properties?.[name];
+      if (sub) {
+        errors.push(...validateJsonSchema(item, sub, `${at}/${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${where}: unexpected property "${name}"`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${at}/${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
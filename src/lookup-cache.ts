@@ -0,0 +1,206 @@
+const DEFAULT_TTLS: Readonly<Record<CachedLookup, number>> = {
+  identity: 10 * 60_000,
+  verification: 60_000,
+  reputation: 60_000,
+};
+const DEFAULT_MAX_ENTRIES = 1_000;
+
+/**
+ * Lookups the cache covers: `identity.resolve`, `verify.status`, and
+ * `reputation.get`.
+ */
+export type CachedLookup = 'identity' | 'verification' | 'reputation';
+
+/**
+ * A cached lookup result.
+ */
+export interface CachedValue {
+  value: unknown;
+  /** When it was fetched, in ms since epoch */
+  storedAt: number;
+}
+
+/**
+ * Persistence for cached lookups, keyed by `"<lookup>:<agentId>"`.
+ * Implementations may share entries between processes (e.g. Redis);
+ * expiry is decided by the cache from `storedAt`.
+ */
+export interface LookupCacheStore {
+  get(key: string): Promise<CachedValue | undefined>;
+  set(key: string, entry: CachedValue): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Settings for the opt-in lookup cache (`AgntorConfig.cache`).
+ */
+export interface LookupCacheOptions {
+  /** Time a result is served without asking the API, in ms per lookup (default: identity 10 min, others 1 min) */
+  ttl?: Partial<Record<CachedLookup, number>>;
+  /**
+   * How long past its TTL a result may still be served while a fresh
+   * one is fetched in the background, in ms (default: 0)
+   */
+  staleWhileRevalidate?: number;
+  /** Where results are kept (default: `MemoryLookupCacheStore`) */
+  store?: LookupCacheStore;
+  /** Size of the default store (default: 1000) */
+  maxEntries?: number;
+  /** Clock, in ms since epoch (default: `Date.now`) */
+  now?: () => number;
+}
+
+/**
+ * Per-call options of cached lookups.
+ */
+export interface LookupOptions {
+  /** Skip the cache and fetch from the API (the result is cached) */
+  refresh?: boolean;
+  /** Abort the request (`ABORTED`); a lookup with a signal never shares a request with other lookups */
+  signal?: AbortSignal;
+}
+
+/**
+ * Lookup cache store kept in memory, evicting the oldest entry once
+ * `maxEntries` is reached.
+ */
+export class MemoryLookupCacheStore implements LookupCacheStore {
+  private readonly entries = new Map<string, CachedValue>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<CachedValue | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CachedValue): Promise<void> {
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Caches identity, verification, and reputation lookups.
+ *
+ * Fresh results are served from the store; results past their TTL but
+ * within `staleWhileRevalidate` are served while one background fetch
+ * replaces them. Concurrent misses for the same agent share one
+ * request. Store failures count as misses and are reported as process
+ * warnings, so a broken store never fails a lookup.
+ */
+export class LookupCache {
+  private readonly ttl: Record<CachedLookup, number>;
+  private readonly staleWhileRevalidate: number;
+  private readonly store: LookupCacheStore;
+  private readonly now: () => number;
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  /** Bumped on invalidation, so fetches already running don't store stale results */
+  private readonly generations = new Map<string, number>();
+
+  constructor(options: LookupCacheOptions = {}) {
+    this.ttl = { ...DEFAULT_TTLS, ...options.ttl };
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    this.store = options.store ?? new MemoryLookupCacheStore(options.maxEntries);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Cached result of `lookup` for `agentId`, fetching it with `fetch`
+   * when missing, expired, or `options.refresh` is set.
+   */
+  async get<T>(lookup: CachedLookup, agentId: string, fetch: () => Promise<T>, options: LookupOptions = {}): Promise<T> {
+    const key = `${lookup}:${agentId}`;
+    // An abortable fetch is the caller's own; others must not wait on it
+    const shared = !options.signal;
+    if (options.refresh) return this.load(key, fetch, true, shared);
+
+    const entry = await this.guard(() => this.store.get(key));
+    if (entry) {
+      const age = this.now() - entry.storedAt;
+      if (age < this.ttl[lookup]) return structuredClone(entry.value) as T;
+      if (age < this.ttl[lookup] + this.staleWhileRevalidate) {
+        // Failures surface on the next lookup that has to wait for the API
+        this.load(key, fetch, false, shared).catch(() => {});
+        return structuredClone(entry.value) as T;
+      }
+    }
+    return this.load(key, fetch, false, shared);
+  }
+
+  /** Fresh cached result of `lookup` for `agentId`, without fetching. */
+  async peek<T>(lookup: CachedLookup, agentId: string): Promise<T | undefined> {
+    const entry = await this.guard(() => this.store.get(`${lookup}:${agentId}`));
+    if (!entry || this.now() - entry.storedAt >= this.ttl[lookup]) return undefined;
+    return structuredClone(entry.value) as T;
+  }
+
+  /** Cache a result fetched elsewhere (e.g. by a batch request). */
+  set(lookup: CachedLookup, agentId: string, value: unknown): Promise<void> {
+    const key = `${lookup}:${agentId}`;
+    return this.guard(() => this.store.set(key, { value: structuredClone(value), storedAt: this.now() }));
+  }
+
+  /** Drop the cached result of `lookup` for `agentId`. */
+  invalidate(lookup: CachedLookup, agentId: string): Promise<void> {
+    const key = `${lookup}:${agentId}`;
+    this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+    this.inflight.delete(key);
+    return this.guard(() => this.store.delete(key));
+  }
+
+  /** Drop every cached result. */
+  clear(): Promise<void> {
+    for (const key of [...this.generations.keys(), ...this.inflight.keys()]) {
+      this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+    }
+    this.inflight.clear();
+    return this.guard(() => this.store.clear());
+  }
+
+  private load<T>(key: string, fetch: () => Promise<T>, fresh = false, shared = true): Promise<T> {
+    const running = this.inflight.get(key);
+    // Every caller gets its own copy, so mutating a result can't alter another's
+    if (running && !fresh && shared) return running.then((value) => structuredClone(value) as T);
+
+    // A forced refresh supersedes any fetch already running
+    if (fresh && running) this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+    const generation = this.generations.get(key) ?? 0;
+    const promise = fetch().then(async (value) => {
+      if ((this.generations.get(key) ?? 0) === generation) {
+        await this.guard(() => this.store.set(key, { value: structuredClone(value), storedAt: this.now() }));
+      }
+      return value;
+    });
+    if (shared) {
+      this.inflight.set(key, promise);
+      const settle = () => {
+        if (this.inflight.get(key) === promise) this.inflight.delete(key);
+      };
+      promise.then(settle, settle);
+    }
+    return promise.then((value) => structuredClone(value));
+  }
+
+  /** Run a store operation, treating failure as a miss. */
+  private async guard<T>(op: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await op();
+    } catch (err) {
+      process.emitWarning(`Lookup cache store failed: ${(err as Error).message}`, 'AgntorCacheWarning');
+      return undefined;
+    }
+  }
+}
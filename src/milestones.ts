@@ -0,0 +1,118 @@
+import type { EscrowBalance, EscrowCreateParams, EscrowMilestone, EscrowRecord, MilestoneStatus } from './types.js';
+import { AgntorError } from './types.js';
+import { amountTolerance, escrowMoney, formatMoney, invalidInput, moneyFromUnits } from './money.js';
+import type { EscrowStatus } from './escrow-state.js';
+
+const invalid = invalidInput('INVALID_MILESTONES');
+
+/**
+ * Check the milestones of an escrow before it is submitted: each stage
+ * needs a positive amount, a condition, and a valid deadline; IDs must
+ * be unique; and the amounts must add up to the escrow total (exactly,
+ * in base units, for escrows with a `currency`).
+ *
+ * Throws `INVALID_MILESTONES`. Escrows without milestones pass.
+ */
+export function validateMilestones(params: EscrowCreateParams<number>): void {
+  const { milestones } = params;
+  if (milestones === undefined) return;
+  if (!Array.isArray(milestones) || milestones.length === 0) {
+    throw invalid('milestones must be a non-empty array');
+  }
+
+  const ids = new Set<string>();
+  let sum = 0;
+  milestones.forEach((m, i) => {
+    const label = m.milestoneId ?? `#${i + 1}`;
+    if (typeof m.amount !== 'number' || !Number.isFinite(m.amount) || m.amount <= 0) {
+      throw invalid(`Milestone ${label}: amount must be a positive number`);
+    }
+    if (!m.condition) {
+      throw invalid(`Milestone ${label}: condition is required`);
+    }
+    if (typeof m.deadline !== 'string' || Number.isNaN(Date.parse(m.deadline))) {
+      throw invalid(`Milestone ${label}: deadline must be an ISO-8601 date`);
+    }
+    if (m.milestoneId !== undefined) {
+      if (ids.has(m.milestoneId)) throw invalid(`Duplicate milestone ID "${m.milestoneId}"`);
+      ids.add(m.milestoneId);
+    }
+    sum += m.amount;
+  });
+
+  const { currency } = params;
+  if (currency) {
+    const total = escrowMoney(params)!.units;
+    const units = milestones.reduce((acc, m) => acc + escrowMoney(params, m)!.units, 0n);
+    if (units !== total) {
+      const [got, want] = [units, total].map((u) => formatMoney(moneyFromUnits(u, currency.token, currency.decimals)));
+      throw invalid(`Milestone amounts add up to ${got}, but the escrow amount is ${want}`);
+    }
+    return;
+  }
+  if (Math.abs(sum - params.amount) > amountTolerance(params.amount)) {
+    throw invalid(`Milestone amounts add up to ${sum}, but the escrow amount is ${params.amount}`);
+  }
+}
+
+/** Released, slashed, and still-held totals across milestones (or payees). */
+export function milestoneBalance(milestones: readonly Pick<EscrowMilestone, 'amount' | 'status'>[]): EscrowBalance {
+  const balance: EscrowBalance = { released: 0, slashed: 0, remaining: 0 };
+  for (const m of milestones) {
+    if (m.status === 'pending') balance.remaining += m.amount;
+    else balance[m.status] += m.amount;
+  }
+  return balance;
+}
+
+/**
+ * Escrow status implied by its milestones: still `funded` while any
+ * stage is pending; once all are settled, `released` if anything was
+ * paid out, else `slashed`.
+ */
+export function milestoneEscrowStatus(milestones: readonly Pick<EscrowMilestone, 'status'>[]): EscrowStatus {
+  if (milestones.some((m) => m.status === 'pending')) return 'funded';
+  return milestones.some((m) => m.status === 'released') ? 'released' : 'slashed';
+}
+
+/**
+ * Throw `INVALID_TRANSITION` unless `milestoneId` exists on `record`
+ * and has not been settled yet.
+ */
+export function assertMilestonePending(record: EscrowRecord, milestoneId: string): void {
+  const milestone = record.milestones?.find((m) => m.milestoneId === milestoneId);
+  if (!milestone) {
+    throw new AgntorError(`Escrow ${record.escrowId} has no milestone "${milestoneId}"`, 'INVALID_TRANSITION', 409);
+  }
+  if (milestone.status !== 'pending') {
+    throw new AgntorError(
+      `Milestone ${milestoneId} of escrow ${record.escrowId} is already ${milestone.status}`,
+      'INVALID_TRANSITION',
+      409,
+    );
+  }
+}
+
+/**
+ * Record a settlement on a milestone escrow. Settles `milestoneId`, or
+ * every pending milestone when it is omitted, and recomputes the
+ * balance and escrow status. Returns a new record.
+ */
+export function applyMilestoneSettlement(
+  record: EscrowRecord,
+  outcome: Exclude<MilestoneStatus, 'pending'>,
+  milestoneId?: string,
+  settledAt?: string,
+): EscrowRecord {
+  const milestones = (record.milestones ?? []).map((m) =>
+    m.status === 'pending' && (milestoneId === undefined || m.milestoneId === milestoneId)
+      ? { ...m, status: outcome, ...(settledAt ? { settledAt } : {}) }
+      : m,
+  );
+  return {
+    ...record,
+    milestones,
+    balance: milestoneBalance(milestones),
+    status: milestoneEscrowStatus(milestones),
+  };
+}
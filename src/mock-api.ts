@@ -0,0 +1,949 @@
+import { generateKeyPairSync, randomUUID } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import type {
+  AgntorConfig,
+  AgntorEvent,
+  AgentIdentity,
+  ArbitrationOutcome,
+  BatchLookupResponse,
+  DisputeEvidence,
+  DisputeRecord,
+  EscrowCreateParams,
+  EscrowMilestone,
+  EscrowPayee,
+  EscrowRecord,
+  PayeeOutcome,
+  ReputationHistoryEntry,
+  ReputationScore,
+  SettlementResult,
+  VerificationStatus,
+} from './types.js';
+import type { RequestVerifier } from './signing.js';
+import type { EscrowPage } from './escrow-query.js';
+import { filterHistory } from './reputation-history.js';
+import type { ReputationHistoryPage } from './reputation-history.js';
+import { canTransition } from './escrow-state.js';
+import { applyMilestoneSettlement, assertMilestonePending, milestoneBalance, validateMilestones } from './milestones.js';
+import { applyArbitration, validateArbitrationOutcome } from './disputes.js';
+import { applyPayeeSettlement, assertPayeePending, payeeOutcomes, resolvePayeeShares } from './payees.js';
+import type { EscrowAction, EscrowStatus } from './escrow-state.js';
+import { ReceiptIssuer } from './receipts.js';
+import { MAX_BATCH_SIZE } from './batch.js';
+import { canonicalJson } from './json-schema.js';
+
+/** Base URL used by clients pointed at the mock */
+export const MOCK_BASE_URL = 'http://agntor.mock';
+
+/**
+ * An injected failure. The first `times` requests matching `method` and
+ * `path` receive this response instead of the normal route.
+ */
+export interface MockFault {
+  /** HTTP method to match (default: any) */
+  method?: string;
+  /** Path (exact string, without query) or pattern to match (default: any) */
+  path?: string | RegExp;
+  /** Extra delay before responding, in ms */
+  latency?: number;
+  /** Response status; omit for a latency-only fault */
+  status?: number;
+  /** Response body (JSON-encoded unless a string) */
+  body?: unknown;
+  /** Response headers (e.g. `Retry-After`) */
+  headers?: Record<string, string>;
+  /** For 402 faults: a proof token that lets the request through to the route */
+  acceptProof?: string;
+  /** How many matching requests to affect (default: 1; `Infinity` for all) */
+  times?: number;
+}
+
+/**
+ * A request received by the mock, for assertions.
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  /** Query string parameters */
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Handler for a custom route registered with `MockAgntorApi.route`.
+ */
+export type MockRouteHandler = (
+  req: MockRequest,
+  params: Record<string, string>,
+) => { status?: number; body?: unknown; headers?: Record<string, string> } | Promise<{ status?: number; body?: unknown; headers?: Record<string, string> }>;
+
+export interface MockAgntorApiOptions {
+  /** Delay applied to every request, in ms (default: 0) */
+  latency?: number;
+  /** Clock used for timestamps (default: `() => new Date()`) */
+  now?: () => Date;
+  /**
+   * Verify signed requests (401 on failure). Without it, any request
+   * carrying `x-api-key` or a signature header is accepted.
+   */
+  verifier?: RequestVerifier;
+}
+
+interface MockAgent {
+  identity: AgentIdentity;
+  verification: VerificationStatus;
+  settled: number;
+  successes: number;
+  volume: number;
+  slashes: number;
+  counterparties: Set<string>;
+  history: ReputationHistoryEntry[];
+  killSwitch: boolean;
+}
+
+/**
+ * Escrow as stored by the mock, including the paying agent.
+ */
+export interface MockEscrow extends EscrowRecord {
+  payer: string;
+}
+
+interface StreamEvent {
+  id: number;
+  event: AgntorEvent;
+  data: unknown;
+}
+
+interface RouteResult {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockRouteHandler;
+}
+
+class MockHttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function compilePath(path: string): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        keys.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { pattern: new RegExp(`^${source}$`), keys };
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * In-memory stand-in for the Agntor API.
+ *
+ * Implements every route the SDK calls (including the legacy MCP ones
+ * and the live event stream), keeps realistic escrow state and
+ * reputation, honors `Idempotency-Key`, and supports fault injection.
+ * Pass `mock.fetch` as `AgntorConfig.fetch` — or spread `mock.clientConfig()`
+ * into the config — to run integration tests fully offline.
+ *
+ * @example
+ * ```ts
+ * const mock = new MockAgntorApi();
+ * const agntor = new Agntor({ ...mock.clientConfig(), apiKey: 'k', agentId: 'agent://me', chain: 'base' });
+ * const escrow = await agntor.escrow.create({ counterparty: 'agent://w', amount: 10, condition: 'done', timeout: 60 });
+ * ```
+ */
+export class MockAgntorApi {
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+  /** Escrows by ID */
+  readonly escrows = new Map<string, MockEscrow>();
+  /** Disputes by escrow ID */
+  readonly disputes = new Map<string, DisputeRecord>();
+  /** `iss` of settlement receipts */
+  readonly receiptIssuer = 'agntor-mock';
+  /** Keys that verify settlement receipts, by key ID (pass as `verifyReceipt` `keys`) */
+  readonly receiptKeys: Record<string, KeyObject>;
+
+  private readonly agents = new Map<string, MockAgent>();
+  private readonly idempotent = new Map<string, { status: number; body: unknown; bodyJson: string }>();
+  private readonly events: StreamEvent[] = [];
+  private readonly streams = new Set<(event: StreamEvent) => void>();
+  private readonly routes: Route[] = [];
+  private faults: MockFault[] = [];
+  private latency: number;
+  private readonly now: () => Date;
+  private readonly verifier?: RequestVerifier;
+  private readonly receipts: ReceiptIssuer;
+
+  constructor(options: MockAgntorApiOptions = {}) {
+    this.latency = options.latency ?? 0;
+    this.now = options.now ?? (() => new Date());
+    this.verifier = options.verifier;
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.receiptKeys = { 'mock-receipts': publicKey };
+    this.receipts = new ReceiptIssuer({ issuer: this.receiptIssuer, signingKey: privateKey, keyId: 'mock-receipts' });
+    this.registerRoutes();
+  }
+
+  /**
+   * `fetch`-compatible entry point.
+   */
+  readonly fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = Object.fromEntries(
+      Object.entries((init.headers as Record<string, string> | undefined) ?? {}).map(([k, v]) => [k.toLowerCase(), v]),
+    );
+    let body: unknown;
+    if (typeof init.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        body = init.body;
+      }
+    }
+
+    const req: MockRequest = { method, path: url.pathname, query: Object.fromEntries(url.searchParams), headers, body };
+    this.requests.push(req);
+
+    await delay(this.latency, init.signal);
+
+    const fault = this.takeFault(req);
+    if (fault) {
+      await delay(fault.latency ?? 0, init.signal);
+      if (fault.status !== undefined) {
+        return this.respond({ status: fault.status, body: fault.body, headers: fault.headers });
+      }
+    }
+
+    if (this.verifier) {
+      const result = await this.verifier.verify({
+        method,
+        path: `${url.pathname}${url.search}`,
+        headers,
+        body: typeof init.body === 'string' ? init.body : undefined,
+      });
+      if (!result.valid) {
+        return this.respond({ status: 401, body: { error: result.error, code: result.errorCode } });
+      }
+    } else if (!headers['x-api-key'] && !headers['x-agntor-signature']) {
+      return this.respond({ status: 401, body: { error: 'Missing API key' } });
+    }
+
+    if (method === 'GET' && url.pathname === '/api/v1/events/stream') {
+      return this.openStream(headers['last-event-id'], url.searchParams.get('events'), init.signal);
+    }
+
+    const key = headers['idempotency-key'];
+    const bodyJson = canonicalJson(req.body ?? null);
+    const replay = key ? this.idempotent.get(`${method} ${url.pathname} ${key}`) : undefined;
+    if (replay) {
+      if (replay.bodyJson !== bodyJson) {
+        return this.respond({ status: 422, body: { error: 'Idempotency key reused with a different request body' } });
+      }
+      return this.respond(replay);
+    }
+
+    const result = await this.dispatch(req);
+    if (key && (result.status ?? 200) < 500) {
+      this.idempotent.set(`${method} ${url.pathname} ${key}`, { status: result.status ?? 200, body: result.body, bodyJson });
+    }
+    return this.respond(result);
+  };
+
+  /**
+   * Config fragment that points an `Agntor` client at this mock
+   * (base URL, `fetch`, and the explicit SSRF exemption).
+   */
+  clientConfig(): Pick<AgntorConfig, 'baseUrl' | 'fetch' | 'testMode'> {
+    return { baseUrl: MOCK_BASE_URL, fetch: this.fetch, testMode: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Test controls
+  // ---------------------------------------------------------------------------
+
+  /** Queue a fault for matching requests. */
+  injectFault(fault: MockFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  /** Remove all pending faults. */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /** Change the latency applied to every request. */
+  setLatency(ms: number): void {
+    this.latency = ms;
+  }
+
+  /**
+   * Register a custom route (e.g. a paid resource for x402 tests).
+   * Path segments starting with `:` are captured as params.
+   */
+  route(method: string, path: string, handler: MockRouteHandler): void {
+    // Custom routes take precedence over built-in ones
+    this.routes.unshift({ method: method.toUpperCase(), ...compilePath(path), handler });
+  }
+
+  /** Create or update an agent's identity and verification. */
+  seedAgent(agentId: string, init: Partial<AgentIdentity> & Partial<Omit<VerificationStatus, 'agentId'>> = {}): void {
+    const agent = this.agent(agentId);
+    const { verified, auditLevel, capabilities, badge, ...identity } = init;
+    Object.assign(agent.identity, identity);
+    if (verified !== undefined) agent.verification.verified = verified;
+    if (auditLevel !== undefined) agent.verification.auditLevel = auditLevel;
+    if (capabilities !== undefined) agent.verification.capabilities = capabilities;
+    if (badge !== undefined) agent.verification.badge = badge;
+  }
+
+  /**
+   * Push an event to connected streams, as if it happened server-side.
+   */
+  pushEvent(event: AgntorEvent, data: unknown): void {
+    const entry: StreamEvent = { id: this.events.length + 1, event, data };
+    this.events.push(entry);
+    for (const listener of this.streams) listener(entry);
+  }
+
+  /**
+   * Rule on an open dispute, as an arbitrator would. Settles the escrow
+   * and updates the counterparty's reputation.
+   */
+  resolveDispute(escrowId: string, outcome: ArbitrationOutcome): DisputeRecord {
+    const escrow = this.requireEscrow(escrowId);
+    const dispute = this.requireOpenDispute(escrowId);
+    this.requireStatus(escrow, 'resolve');
+    validateArbitrationOutcome(escrow, outcome);
+
+    const resolvedAt = this.now().toISOString();
+    const held = escrow.balance?.remaining ?? escrow.amount;
+    Object.assign(escrow, applyArbitration(escrow, outcome, resolvedAt));
+    Object.assign(dispute, { status: 'resolved', resolvedAt, outcome });
+
+    const paid = outcome.ruling === 'split' ? outcome.released : outcome.ruling === 'released' ? held : 0;
+    // A split counts as a success when the counterparty received at least half
+    this.recordSettlement(escrow, escrow.counterparty, paid * 2 >= held && paid > 0 ? 'released' : 'slashed', paid, resolvedAt);
+
+    const record = structuredClone(dispute);
+    this.pushEvent('dispute_resolved', record);
+    this.pushEvent('reputation_updated', this.reputation(escrow.counterparty));
+    return record;
+  }
+
+  /** Move an escrow to `expired` (as the server would after its timeout). */
+  expireEscrow(escrowId: string): EscrowRecord {
+    const escrow = this.requireEscrow(escrowId);
+    this.requireStatus(escrow, 'expire');
+    escrow.status = 'expired';
+    return this.publicEscrow(escrow);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Routing
+  // ---------------------------------------------------------------------------
+
+  private registerRoutes(): void {
+    const add = (method: string, path: string, handler: MockRouteHandler) => {
+      this.routes.push({ method, ...compilePath(path), handler });
+    };
+
+    // Identity
+    add('POST', '/api/v1/identity/register', (req) => ({ body: this.agent(this.caller(req)).identity }));
+    add('GET', '/api/v1/identity/me', (req) => ({ body: this.knownAgent(this.caller(req)).identity }));
+    add('GET', '/api/v1/identity/:agentId', (_req, p) => ({ body: this.knownAgent(p.agentId).identity }));
+
+    // Verification
+    add('GET', '/api/v1/verify/badge', (req) => {
+      const verification = this.knownAgent(this.caller(req)).verification;
+      return { body: { badge: verification.badge ?? (verification.verified ? 'verified' : 'unverified') } };
+    });
+    add('POST', '/api/v1/verify/attest', (req) => this.attest(req));
+    add('GET', '/api/v1/verify/:agentId', (_req, p) => ({ body: this.knownAgent(p.agentId).verification }));
+    add('POST', '/api/v1/verify/batch', (req) => ({ body: this.batch(req, (id) => this.knownAgent(id).verification) }));
+
+    // Escrow
+    add('POST', '/api/v1/escrow/create', (req) => ({ body: this.createEscrow(req) }));
+    add('GET', '/api/v1/escrow', (req) => ({ body: this.listEscrows(req) }));
+    add('GET', '/api/v1/escrow/:escrowId', (_req, p) => ({ body: this.publicEscrow(this.requireEscrow(p.escrowId)) }));
+    add('POST', '/api/v1/escrow/:escrowId/fund', (_req, p) => ({ body: this.transition(p.escrowId, 'fund', 'funded', 'escrow_funded') }));
+    add('POST', '/api/v1/escrow/:escrowId/cancel', (_req, p) => ({ body: this.transition(p.escrowId, 'cancel', 'cancelled', 'escrow_cancelled') }));
+
+    // Settlement
+    add('POST', '/api/v1/settle/:escrowId/release', (_req, p) => ({ body: this.settle(p.escrowId, 'release', 'released') }));
+    add('POST', '/api/v1/settle/:escrowId/slash', (_req, p) => ({ body: this.settle(p.escrowId, 'slash', 'slashed') }));
+    add('POST', '/api/v1/settle/:escrowId/resolve', (req, p) => {
+      const proof = (req.body as { proof?: unknown } | undefined)?.proof;
+      if (typeof proof !== 'string' || !proof) throw new MockHttpError(400, 'proof is required');
+      return { body: this.settle(p.escrowId, 'resolve', 'released', proof) };
+    });
+    add('POST', '/api/v1/settle/:escrowId/milestones/:milestoneId/release', (_req, p) => ({
+      body: this.settle(p.escrowId, 'release', 'released', undefined, p.milestoneId),
+    }));
+    add('POST', '/api/v1/settle/:escrowId/milestones/:milestoneId/slash', (_req, p) => ({
+      body: this.settle(p.escrowId, 'slash', 'slashed', undefined, p.milestoneId),
+    }));
+    add('POST', '/api/v1/settle/:escrowId/milestones/:milestoneId/resolve', (req, p) => {
+      const proof = (req.body as { proof?: unknown } | undefined)?.proof;
+      if (typeof proof !== 'string' || !proof) throw new MockHttpError(400, 'proof is required');
+      return { body: this.settle(p.escrowId, 'resolve', 'released', proof, p.milestoneId) };
+    });
+
+    // Disputes
+    add('POST', '/api/v1/settle/:escrowId/dispute', (req, p) => ({ body: this.openDispute(req, p.escrowId) }));
+    add('POST', '/api/v1/settle/:escrowId/dispute/evidence', (req, p) => ({ body: this.addEvidence(req, p.escrowId) }));
+    add('GET', '/api/v1/settle/:escrowId/dispute', (_req, p) => {
+      const dispute = this.disputes.get(p.escrowId);
+      if (!dispute) throw new MockHttpError(404, `Escrow ${p.escrowId} has no dispute`);
+      return { body: dispute };
+    });
+
+    add('POST', '/api/v1/settle/:escrowId/payees/:agentId/release', (_req, p) => ({
+      body: this.settle(p.escrowId, 'release', 'released', undefined, undefined, p.agentId),
+    }));
+    add('POST', '/api/v1/settle/:escrowId/payees/:agentId/slash', (_req, p) => ({
+      body: this.settle(p.escrowId, 'slash', 'slashed', undefined, undefined, p.agentId),
+    }));
+
+    // Reputation
+    add('GET', '/api/v1/reputation/:agentId', (_req, p) => ({ body: this.reputation(p.agentId) }));
+    add('GET', '/api/v1/reputation/:agentId/history', (req, p) => ({ body: this.historyPage(req, p.agentId) }));
+    add('POST', '/api/v1/reputation/batch', (req) => ({ body: this.batch(req, (id) => this.reputation(id)) }));
+
+    // Legacy MCP routes
+    add('GET', '/api/v1/agents/:idOrHandle', (_req, p) => {
+      const agent = this.agents.get(p.idOrHandle)
+        ?? [...this.agents.values()].find((a) => a.identity.name === p.idOrHandle);
+      if (!agent) throw new MockHttpError(404, `Agent ${p.idOrHandle} not found`);
+      const score = this.reputation(agent.identity.agentId);
+      return {
+        body: {
+          id: agent.identity.agentId,
+          handle: agent.identity.name ?? agent.identity.agentId,
+          verified: agent.verification.verified,
+          killSwitch: agent.killSwitch,
+          trust: { score: Math.round(score.successRate * 100) },
+        },
+      };
+    });
+    add('POST', '/api/v1/agents/kill-switch', (req) => {
+      const { agentId, reason } = (req.body ?? {}) as { agentId?: string; reason?: string };
+      if (!agentId) throw new MockHttpError(400, 'agentId is required');
+      this.knownAgent(agentId).killSwitch = true;
+      return { body: { success: true, agentId, reason } };
+    });
+    add('POST', '/api/v1/agents', () => ({
+      body: { agents: [...this.agents.values()].map((a) => ({ ...a.identity, verified: a.verification.verified })) },
+    }));
+    add('POST', '/api/v1/agents/verify', (req) => {
+      const { hash, agentId } = (req.body ?? {}) as { hash?: string; agentId?: string };
+      return { body: { verified: true, hash, agentId: agentId ?? this.caller(req) } };
+    });
+    add('POST', '/api/escrow/create', (req) => {
+      const { agentId, workerWallet, amount, taskDescription } = (req.body ?? {}) as Record<string, unknown>;
+      const escrow = this.createEscrow({
+        ...req,
+        headers: { ...req.headers, 'x-agent-id': String(agentId ?? this.caller(req)) },
+        body: { counterparty: workerWallet, amount, condition: taskDescription, timeout: 3600 },
+      });
+      return { body: { success: true, escrow } };
+    });
+  }
+
+  private async dispatch(req: MockRequest): Promise<RouteResult> {
+    for (const route of this.routes) {
+      if (route.method !== req.method) continue;
+      const match = route.pattern.exec(req.path);
+      if (!match) continue;
+
+      const params = Object.fromEntries(route.keys.map((k, i) => [k, decodeURIComponent(match[i + 1])]));
+      try {
+        return await route.handler(req, params);
+      } catch (err) {
+        if (err instanceof MockHttpError) {
+          return { status: err.status, body: { error: err.message } };
+        }
+        throw err;
+      }
+    }
+    return { status: 404, body: { error: `No route for ${req.method} ${req.path}` } };
+  }
+
+  private takeFault(req: MockRequest): MockFault | undefined {
+    const index = this.faults.findIndex((f) =>
+      (!f.method || f.method.toUpperCase() === req.method)
+      && (!f.path || (typeof f.path === 'string' ? f.path === req.path : f.path.test(req.path))),
+    );
+    if (index === -1) return undefined;
+
+    const fault = this.faults[index];
+    if (fault.status === 402 && fault.acceptProof && req.headers['x-agntor-proof'] === fault.acceptProof) {
+      return undefined;
+    }
+
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) this.faults.splice(index, 1);
+    return fault;
+  }
+
+  private respond(result: RouteResult): Response {
+    const body = result.body === undefined
+      ? null
+      : typeof result.body === 'string' ? result.body : JSON.stringify(result.body);
+    return new Response(body, {
+      status: result.status ?? 200,
+      headers: { 'Content-Type': 'application/json', ...result.headers },
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Domain behaviour
+  // ---------------------------------------------------------------------------
+
+  private caller(req: MockRequest): string {
+    const agentId = req.headers['x-agent-id'];
+    if (!agentId) throw new MockHttpError(400, 'x-agent-id header is required');
+    return agentId;
+  }
+
+  private agent(agentId: string): MockAgent {
+    let agent = this.agents.get(agentId);
+    if (!agent) {
+      agent = {
+        identity: { agentId, createdAt: this.now().toISOString() },
+        verification: { agentId, verified: false, capabilities: [] },
+        settled: 0,
+        successes: 0,
+        volume: 0,
+        slashes: 0,
+        counterparties: new Set(),
+        history: [],
+        killSwitch: false,
+      };
+      this.agents.set(agentId, agent);
+    }
+    return agent;
+  }
+
+  private knownAgent(agentId: string): MockAgent {
+    const agent = this.agents.get(agentId);
+    if (!agent) throw new MockHttpError(404, `Agent ${agentId} not found`);
+    return agent;
+  }
+
+  private attest(req: MockRequest): RouteResult {
+    const { capability, proof } = (req.body ?? {}) as { capability?: string; proof?: string };
+    if (!capability || !proof) throw new MockHttpError(400, 'capability and proof are required');
+
+    const verification = this.agent(this.caller(req)).verification;
+    verification.capabilities = [...new Set([...(verification.capabilities ?? []), capability])];
+    verification.verified = true;
+    verification.auditLevel ??= 'Bronze';
+    this.pushEvent('verification_changed', { ...verification });
+    return { body: verification };
+  }
+
+  private createEscrow(req: MockRequest): EscrowRecord {
+    const { counterparty, amount, condition, timeout } = (req.body ?? {}) as Record<string, unknown>;
+    if (typeof counterparty !== 'string' || !counterparty) throw new MockHttpError(400, 'counterparty is required');
+    if (typeof amount !== 'number' || !(amount > 0)) throw new MockHttpError(400, 'amount must be a positive number');
+    if (typeof condition !== 'string') throw new MockHttpError(400, 'condition is required');
+    if (typeof timeout !== 'number' || !(timeout > 0)) throw new MockHttpError(400, 'timeout must be a positive number');
+
+    const body = req.body as EscrowCreateParams<number>;
+    const milestones = this.createMilestones(body);
+    const payees = this.createPayees(body);
+
+    const payer = this.caller(req);
+    this.agent(payer);
+    this.agent(counterparty);
+    for (const p of payees ?? []) this.agent(p.agentId);
+
+    const escrow: MockEscrow = {
+      escrowId: `esc_${randomUUID()}`,
+      status: 'created',
+      amount,
+      counterparty,
+      condition,
+      timeout,
+      createdAt: this.now().toISOString(),
+      ...(body.currency ? { currency: body.currency } : {}),
+      ...(body.amountUnits ? { amountUnits: body.amountUnits } : {}),
+      ...(milestones ? { milestones, balance: milestoneBalance(milestones) } : {}),
+      ...(payees ? { payees, balance: milestoneBalance(payees) } : {}),
+      payer,
+    };
+    this.escrows.set(escrow.escrowId, escrow);
+
+    const record = this.publicEscrow(escrow);
+    this.pushEvent('escrow_created', record);
+    return record;
+  }
+
+  private requireEscrow(escrowId: string): MockEscrow {
+    const escrow = this.escrows.get(escrowId);
+    if (!escrow) throw new MockHttpError(404, `Escrow ${escrowId} not found`);
+    return escrow;
+  }
+
+  private listEscrows(req: MockRequest): EscrowPage {
+    const caller = this.caller(req);
+    const q = req.query;
+    const number = (key: string) => (q[key] === undefined ? undefined : Number(q[key]));
+    const time = (key: string) => (q[key] === undefined ? undefined : Date.parse(q[key]));
+    const statuses = q.status?.split(',');
+    const [minAmount, maxAmount] = [number('minAmount'), number('maxAmount')];
+    const [createdAfter, createdBefore] = [time('createdAfter'), time('createdBefore')];
+    const [expiresAfter, expiresBefore] = [time('expiresAfter'), time('expiresBefore')];
+
+    const matches = [...this.escrows.values()].filter((e) => {
+      const payee = e.counterparty === caller || !!e.payees?.some((p) => p.agentId === caller);
+      const involved = q.role === 'payer' ? e.payer === caller
+        : q.role === 'payee' ? payee
+        : e.payer === caller || payee;
+      if (!involved) return false;
+
+      const created = Date.parse(e.createdAt ?? '');
+      const expires = created + e.timeout * 1000;
+      return (!statuses || statuses.includes(e.status))
+        && (q.counterparty === undefined || e.counterparty === q.counterparty)
+        && (minAmount === undefined || e.amount >= minAmount)
+        && (maxAmount === undefined || e.amount <= maxAmount)
+        && (createdAfter === undefined || created >= createdAfter)
+        && (createdBefore === undefined || created < createdBefore)
+        && (expiresAfter === undefined || expires >= expiresAfter)
+        && (expiresBefore === undefined || expires < expiresBefore);
+    });
+
+    const limit = Math.min(Math.max(number('limit') ?? 50, 1), 100);
+    const offset = q.cursor ? Number(Buffer.from(q.cursor, 'base64url').toString()) : 0;
+    if (!Number.isInteger(offset) || offset < 0) throw new MockHttpError(400, 'Invalid cursor');
+
+    const next = offset + limit;
+    return {
+      escrows: matches.slice(offset, next).map((e) => this.publicEscrow(e)),
+      ...(next < matches.length ? { nextCursor: Buffer.from(String(next)).toString('base64url') } : {}),
+    };
+  }
+
+  /** Paged, filtered history; without `limit` the whole history, as older API versions return it */
+  private historyPage(req: MockRequest, agentId: string): ReputationHistoryPage | ReputationHistoryEntry[] {
+    const history = this.agent(agentId).history;
+    const q = req.query;
+    if (q.limit === undefined) return history;
+
+    const matches = filterHistory(history, {
+      event: q.event?.split(','),
+      after: q.after,
+      before: q.before,
+    });
+    const limit = Math.min(Math.max(Number(q.limit), 1), 500);
+    const offset = q.cursor ? Number(Buffer.from(q.cursor, 'base64url').toString()) : 0;
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isFinite(limit)) throw new MockHttpError(400, 'Invalid cursor or limit');
+
+    const next = offset + limit;
+    return {
+      entries: matches.slice(offset, next),
+      ...(next < matches.length ? { nextCursor: Buffer.from(String(next)).toString('base64url') } : {}),
+    };
+  }
+
+  private createMilestones(params: EscrowCreateParams<number>): EscrowMilestone[] | undefined {
+    try {
+      validateMilestones(params);
+    } catch (err) {
+      throw new MockHttpError(400, (err as Error).message);
+    }
+    return params.milestones?.map((m, i) => ({
+      milestoneId: m.milestoneId ?? `m${i + 1}`,
+      amount: m.amount,
+      ...(m.amountUnits ? { amountUnits: m.amountUnits } : {}),
+      // Clients encode structured conditions before sending
+      condition: String(m.condition),
+      deadline: m.deadline,
+      status: 'pending' as const,
+    }));
+  }
+
+  private createPayees(params: EscrowCreateParams<number>): EscrowPayee[] | undefined {
+    if (params.payees === undefined) return undefined;
+    try {
+      // Clients send resolved amounts; check they cover the total exactly
+      resolvePayeeShares({ ...params, payees: params.payees.map(({ weight: _weight, ...p }) => p) });
+    } catch (err) {
+      throw new MockHttpError(400, (err as Error).message);
+    }
+    return params.payees.map((p) => ({
+      agentId: p.agentId,
+      amount: p.amount!,
+      ...(p.amountUnits ? { amountUnits: p.amountUnits } : {}),
+      ...(p.weight !== undefined ? { weight: p.weight } : {}),
+      status: 'pending' as const,
+    }));
+  }
+
+  private requireStatus(escrow: MockEscrow, action: EscrowAction): void {
+    if (!canTransition(escrow.status, action)) {
+      throw new MockHttpError(409, `Cannot ${action} escrow in status "${escrow.status}"`);
+    }
+  }
+
+  private transition(escrowId: string, action: EscrowAction, to: EscrowStatus, event: AgntorEvent): EscrowRecord {
+    const escrow = this.requireEscrow(escrowId);
+    this.requireStatus(escrow, action);
+    escrow.status = to;
+    const record = this.publicEscrow(escrow);
+    this.pushEvent(event, record);
+    return record;
+  }
+
+  private settle(
+    escrowId: string,
+    action: EscrowAction,
+    outcome: 'released' | 'slashed',
+    proof?: string,
+    milestoneId?: string,
+    payee?: string,
+  ): SettlementResult {
+    const escrow = this.requireEscrow(escrowId);
+    this.requireStatus(escrow, action);
+
+    const settledAt = this.now().toISOString();
+    let amount = escrow.amount;
+    let payees: PayeeOutcome[] | undefined;
+    if (escrow.payees) {
+      if (milestoneId !== undefined) throw new MockHttpError(404, `Escrow ${escrowId} has no milestones`);
+      if (payee !== undefined) {
+        try {
+          assertPayeePending(escrow, payee);
+        } catch (err) {
+          throw new MockHttpError(409, (err as Error).message);
+        }
+      }
+      payees = payeeOutcomes(escrow, outcome, payee);
+      amount = payees.reduce((sum, p) => sum + p.amount, 0);
+      Object.assign(escrow, applyPayeeSettlement(escrow, outcome, payee, settledAt));
+    } else if (payee !== undefined) {
+      throw new MockHttpError(404, `Escrow ${escrowId} has no payees`);
+    } else if (escrow.milestones) {
+      if (milestoneId !== undefined) {
+        try {
+          assertMilestonePending(escrow, milestoneId);
+        } catch (err) {
+          throw new MockHttpError(409, (err as Error).message);
+        }
+        amount = escrow.milestones.find((m) => m.milestoneId === milestoneId)!.amount;
+      } else {
+        amount = escrow.balance?.remaining ?? escrow.amount;
+      }
+      Object.assign(escrow, applyMilestoneSettlement(escrow, outcome, milestoneId, settledAt));
+    } else if (milestoneId !== undefined) {
+      throw new MockHttpError(404, `Escrow ${escrowId} has no milestones`);
+    } else {
+      escrow.status = outcome;
+    }
+
+    if (payees) {
+      for (const p of payees) this.recordSettlement(escrow, p.agentId, outcome, p.amount, settledAt);
+    } else {
+      this.recordSettlement(escrow, escrow.counterparty, outcome, amount, settledAt, milestoneId);
+    }
+
+    // Resolving a disputed escrow with proof closes the dispute too
+    const dispute = this.disputes.get(escrowId);
+    if (dispute?.status === 'open' && milestoneId === undefined && payee === undefined) {
+      Object.assign(dispute, { status: 'resolved', resolvedAt: settledAt, outcome: { ruling: outcome } });
+      this.pushEvent('dispute_resolved', structuredClone(dispute));
+    }
+
+    const result: SettlementResult = {
+      escrowId,
+      outcome,
+      ...(milestoneId ? { milestoneId } : {}),
+      ...(payee ? { payee } : {}),
+      ...(payees ? { payees } : {}),
+      amount,
+      settledAt,
+      ...(proof ? { proof } : {}),
+    };
+    result.receipt = this.receipts.issue(result, { payer: escrow.payer, payee: payee ?? escrow.counterparty });
+    this.pushEvent('escrow_settled', result);
+    for (const agentId of payees ? payees.map((p) => p.agentId) : [escrow.counterparty]) {
+      this.pushEvent('reputation_updated', this.reputation(agentId));
+    }
+    return result;
+  }
+
+  private recordSettlement(
+    escrow: MockEscrow,
+    payeeId: string,
+    outcome: 'released' | 'slashed',
+    amount: number,
+    settledAt: string,
+    milestoneId?: string,
+  ): void {
+    const payee = this.agent(payeeId);
+    payee.settled++;
+    payee.volume += amount;
+    payee.counterparties.add(escrow.payer);
+    if (outcome === 'released') payee.successes++;
+    else payee.slashes++;
+    payee.history.push({
+      timestamp: settledAt,
+      event: outcome === 'released' ? 'escrow_released' : 'escrow_slashed',
+      details: { escrowId: escrow.escrowId, amount, counterparty: escrow.payer, ...(milestoneId ? { milestoneId } : {}) },
+    });
+  }
+
+  private openDispute(req: MockRequest, escrowId: string): DisputeRecord {
+    const escrow = this.requireEscrow(escrowId);
+    const agentId = this.requireParty(req, escrow);
+    const { reason, evidence } = (req.body ?? {}) as { reason?: unknown; evidence?: unknown };
+    if (typeof reason !== 'string' || !reason) throw new MockHttpError(400, 'reason is required');
+    if (evidence !== undefined && typeof evidence !== 'string') throw new MockHttpError(400, 'evidence must be a string');
+    this.requireStatus(escrow, 'dispute');
+
+    const openedAt = this.now().toISOString();
+    escrow.status = 'disputed';
+    const dispute: DisputeRecord = {
+      disputeId: `dsp_${randomUUID()}`,
+      escrowId,
+      status: 'open',
+      openedBy: agentId,
+      reason,
+      evidence: evidence ? [this.evidenceEntry(agentId, evidence, openedAt)] : [],
+      openedAt,
+    };
+    this.disputes.set(escrowId, dispute);
+
+    const record = structuredClone(dispute);
+    this.pushEvent('dispute_opened', record);
+    return record;
+  }
+
+  private addEvidence(req: MockRequest, escrowId: string): DisputeRecord {
+    const agentId = this.requireParty(req, this.requireEscrow(escrowId));
+    const dispute = this.requireOpenDispute(escrowId);
+    const evidence = (req.body as { evidence?: unknown } | undefined)?.evidence;
+    if (typeof evidence !== 'string' || !evidence) throw new MockHttpError(400, 'evidence is required');
+    dispute.evidence.push(this.evidenceEntry(agentId, evidence, this.now().toISOString()));
+    return structuredClone(dispute);
+  }
+
+  private evidenceEntry(submittedBy: string, evidence: string, submittedAt: string): DisputeEvidence {
+    return { evidenceId: `evd_${randomUUID()}`, submittedBy, evidence, submittedAt };
+  }
+
+  private requireOpenDispute(escrowId: string): DisputeRecord {
+    const dispute = this.disputes.get(escrowId);
+    if (!dispute) throw new MockHttpError(404, `Escrow ${escrowId} has no dispute`);
+    if (dispute.status !== 'open') throw new MockHttpError(409, `Dispute on escrow ${escrowId} is already resolved`);
+    return dispute;
+  }
+
+  /** Only the payer and the counterparty may take part in a dispute */
+  private requireParty(req: MockRequest, escrow: MockEscrow): string {
+    const agentId = this.caller(req);
+    if (agentId !== escrow.payer && agentId !== escrow.counterparty && !escrow.payees?.some((p) => p.agentId === agentId)) {
+      throw new MockHttpError(403, `${agentId} is not a party to escrow ${escrow.escrowId}`);
+    }
+    return agentId;
+  }
+
+  /** Answer a batch lookup, reporting each agent's failure in place. */
+  private batch<T>(req: MockRequest, lookup: (agentId: string) => T): BatchLookupResponse<T> {
+    const { agentIds } = (req.body ?? {}) as { agentIds?: unknown };
+    if (!Array.isArray(agentIds) || !agentIds.every((id) => typeof id === 'string')) {
+      throw new MockHttpError(400, 'agentIds must be an array of strings');
+    }
+    if (agentIds.length > MAX_BATCH_SIZE) throw new MockHttpError(400, `At most ${MAX_BATCH_SIZE} agentIds per batch`);
+    return {
+      results: agentIds.map((agentId: string) => {
+        try {
+          return { agentId, data: lookup(agentId) };
+        } catch (err) {
+          if (!(err instanceof MockHttpError)) throw err;
+          return { agentId, error: { status: err.status, message: err.message } };
+        }
+      }),
+    };
+  }
+
+  private reputation(agentId: string): ReputationScore {
+    const agent = this.agent(agentId);
+    return {
+      agentId,
+      successRate: agent.settled === 0 ? 0 : agent.successes / agent.settled,
+      escrowVolume: agent.volume,
+      slashes: agent.slashes,
+      counterpartiesCount: agent.counterparties.size,
+    };
+  }
+
+  private publicEscrow(escrow: MockEscrow): EscrowRecord {
+    const { payer: _payer, ...record } = escrow;
+    return { ...record };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Live event stream
+  // ---------------------------------------------------------------------------
+
+  private openStream(lastEventId: string | undefined, filter: string | null, signal?: AbortSignal | null): Response {
+    const wanted = filter ? new Set(filter.split(',')) : undefined;
+    const encoder = new TextEncoder();
+    const after = Number(lastEventId ?? 0) || 0;
+    let listener: ((event: StreamEvent) => void) | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (entry: StreamEvent) => {
+          if (wanted && !wanted.has(entry.event)) return;
+          controller.enqueue(encoder.encode(`id: ${entry.id}\nevent: ${entry.event}\ndata: ${JSON.stringify(entry.data)}\n\n`));
+        };
+        for (const entry of this.events) {
+          if (entry.id > after) send(entry);
+        }
+        listener = send;
+        this.streams.add(send);
+        signal?.addEventListener('abort', () => {
+          this.streams.delete(send);
+          try {
+            controller.close();
+          } catch {
+            // already closed by the consumer
+          }
+        }, { once: true });
+      },
+      cancel: () => {
+        if (listener) this.streams.delete(listener);
+      },
+    });
+
+    return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+}
@@ -0,0 +1,336 @@
+import type { Amount, EscrowCreateParams, EscrowCurrency, EscrowRecord } from './types.js';
+import { AgntorError } from './types.js';
+
+/**
+ * An exact amount of a token: `units` of 10^-`decimals` each, so
+ * `{ units: 1_000_500_000n, token: 'USDC', decimals: 6 }` is 1,000.5 USDC.
+ */
+export interface Money {
+  readonly units: bigint;
+  readonly token: string;
+  readonly decimals: number;
+}
+
+/** `Money`, or a number / numeric string read in a given token */
+export type MoneyInput = Money | number | string;
+
+export interface ParseMoneyOptions {
+  /** Token for amounts that do not name one */
+  token?: string;
+  /**
+   * Decimal places of the token. When given, amounts with more are
+   * rejected; otherwise known tokens use `TOKEN_DECIMALS`, extended to
+   * fit the amount as written.
+   */
+  decimals?: number;
+}
+
+/** Decimal places of well-known tokens and currencies */
+export const TOKEN_DECIMALS: Readonly<Record<string, number>> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  USDC: 6,
+  USDT: 6,
+  PYUSD: 6,
+  DAI: 18,
+  ETH: 18,
+  WETH: 18,
+  POL: 18,
+  BTC: 8,
+  WBTC: 8,
+  SOL: 9,
+};
+
+/** Stablecoins treated as USD when comparing amounts */
+const USD_STABLECOINS: ReadonlySet<string> = new Set(['USDC', 'USDT', 'PYUSD', 'DAI']);
+
+const CURRENCY_SYMBOLS: Readonly<Record<string, string>> = { $: 'USD', '€': 'EUR', '£': 'GBP' };
+const MAX_DECIMALS = 77;
+const AMOUNT_PATTERN = /^(\d{1,3}(?:,\d{3})+|\d*)(?:\.(\d+))?$/;
+const TOKEN_SUFFIX = /^(.*?)(?:\s+([A-Za-z][\w.]*)|([A-Z][\w.]*))$/;
+const TOKEN_PREFIX = /^([A-Za-z][\w.]*)\s+(.*)$/;
+
+/** Float amounts are compared with this tolerance, relative to the total (at least 1) */
+export const AMOUNT_EPSILON = 1e-9;
+
+/**
+ * Largest difference at which float amounts still add up to `total`.
+ *
+ * @internal
+ */
+export function amountTolerance(total: number): number {
+  return AMOUNT_EPSILON * Math.max(1, Math.abs(total));
+}
+
+/**
+ * Factory of `AgntorError`s with `code`, for rejecting invalid amounts,
+ * milestones, shares, or rulings.
+ *
+ * @internal
+ */
+export function invalidInput(code: string): (message: string) => AgntorError {
+  return (message) => new AgntorError(message, code);
+}
+
+const invalid = invalidInput('INVALID_AMOUNT');
+
+function checkDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw invalid(`decimals must be an integer from 0 to ${MAX_DECIMALS}`);
+  }
+}
+
+function knownDecimals(token: string): number | undefined {
+  return TOKEN_DECIMALS[token.toUpperCase()];
+}
+
+/** Currency a token is compared in: stablecoins count as USD. */
+function currencyKey(token: string): string {
+  const upper = token.toUpperCase();
+  return USD_STABLECOINS.has(upper) ? 'USD' : upper;
+}
+
+/** Shortest decimal form of a finite number, without exponent notation. */
+function numberToDecimal(value: number): string {
+  if (!Number.isFinite(value)) throw invalid(`${value} is not a finite amount`);
+  const text = String(value);
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) return text;
+  const [, sign, int, fraction = '', exponent] = match;
+  const digits = int + fraction;
+  const point = int.length + Number(exponent);
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return sign + digits + '0'.repeat(point - digits.length);
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/** Whether `value` is a `Money`. */
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Money).units === 'bigint'
+    && typeof (value as Money).token === 'string'
+    && typeof (value as Money).decimals === 'number';
+}
+
+/**
+ * Money from base units, e.g. an on-chain amount.
+ *
+ * @example moneyFromUnits('1500000', 'USDC', 6) // 1.5 USDC
+ */
+export function moneyFromUnits(units: bigint | string, token: string, decimals: number): Money {
+  checkDecimals(decimals);
+  if (typeof units === 'string' && !/^-?\d+$/.test(units)) throw invalid(`"${units}" is not an integer amount of base units`);
+  return { units: BigInt(units), token, decimals };
+}
+
+/**
+ * Parse a human-readable amount such as `"1,000.50 USDC"`, `"$12"`, or
+ * `"ETH 0.000000000000000001"`. Thousands separators must be grouped
+ * correctly, and nothing is rounded: an amount with more decimal places
+ * than `options.decimals` is rejected.
+ *
+ * Throws `INVALID_AMOUNT`, or `CURRENCY_MISMATCH` if the text names a
+ * different currency than `options.token`.
+ */
+export function parseMoney(text: string, options: ParseMoneyOptions = {}): Money {
+  let rest = text.trim();
+  let negative = false;
+  if (rest.startsWith('-')) {
+    negative = true;
+    rest = rest.slice(1).trimStart();
+  }
+
+  let named: string | undefined = CURRENCY_SYMBOLS[rest[0]];
+  if (named) rest = rest.slice(1).trimStart();
+  const suffix = TOKEN_SUFFIX.exec(rest);
+  const prefix = suffix ? undefined : TOKEN_PREFIX.exec(rest);
+  const written = suffix ? suffix[2] ?? suffix[3] : prefix?.[1];
+  if (written !== undefined) {
+    if (named && currencyKey(named) !== currencyKey(written)) {
+      throw new AgntorError(`"${text}" names two currencies`, 'CURRENCY_MISMATCH');
+    }
+    named = written;
+    rest = (suffix ? suffix[1] : prefix![2]).trim();
+  }
+
+  if (named && options.token && currencyKey(named) !== currencyKey(options.token)) {
+    throw new AgntorError(`"${text}" is not in ${options.token}`, 'CURRENCY_MISMATCH');
+  }
+  const token = named ?? options.token;
+  if (!token) throw invalid(`"${text}" does not name a token`);
+
+  const match = AMOUNT_PATTERN.exec(rest);
+  if (!match || (!match[1] && !match[2])) throw invalid(`"${text}" is not a valid amount`);
+  const whole = match[1].replace(/,/g, '') || '0';
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+
+  let decimals: number;
+  if (options.decimals !== undefined) {
+    checkDecimals(options.decimals);
+    if (fraction.length > options.decimals) {
+      throw invalid(`"${text}" has more than ${options.decimals} decimal places`);
+    }
+    decimals = options.decimals;
+  } else {
+    decimals = Math.max(knownDecimals(token) ?? 0, fraction.length);
+    checkDecimals(decimals);
+  }
+
+  const units = BigInt(whole + fraction.padEnd(decimals, '0'));
+  return { units: negative ? -units : units, token, decimals };
+}
+
+/**
+ * Read a number, numeric string, or `Money` as `Money`. Numbers are
+ * taken at their shortest decimal form, never via binary fractions.
+ */
+export function toMoney(value: MoneyInput, options: ParseMoneyOptions = {}): Money {
+  if (isMoney(value)) {
+    if (options.token && currencyKey(value.token) !== currencyKey(options.token)) {
+      throw new AgntorError(`${formatMoney(value)} is not in ${options.token}`, 'CURRENCY_MISMATCH');
+    }
+    return options.decimals === undefined ? value : rescale(value, options.decimals);
+  }
+  return parseMoney(typeof value === 'number' ? numberToDecimal(value) : value, options);
+}
+
+/**
+ * Decimal string of an amount in base units.
+ *
+ * @example formatUnits(1500000n, 6) // "1.5"
+ */
+export function formatUnits(units: bigint | string, decimals: number): string {
+  const value = BigInt(units);
+  const sign = value < 0n ? '-' : '';
+  const digits = (value < 0n ? -value : value).toString();
+  if (decimals <= 0) return sign + digits;
+  const padded = digits.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+  return sign + (fraction ? `${whole}.${fraction}` : whole);
+}
+
+/**
+ * Format money for display, e.g. `"1000.5 USDC"`, or `"1,000.5 USDC"`
+ * with `grouping`.
+ */
+export function formatMoney(money: Money, options: { grouping?: boolean } = {}): string {
+  let amount = formatUnits(money.units, money.decimals);
+  if (options.grouping) {
+    amount = amount.replace(/^(-?)(\d+)/, (_, sign: string, whole: string) => sign + whole.replace(/\B(?=(\d{3})+$)/g, ','));
+  }
+  return `${amount} ${money.token}`;
+}
+
+/** The same amount with `decimals` places; throws `INVALID_AMOUNT` if precision would be lost. */
+export function rescale(money: Money, decimals: number): Money {
+  checkDecimals(decimals);
+  if (decimals >= money.decimals) {
+    return { ...money, units: money.units * 10n ** BigInt(decimals - money.decimals), decimals };
+  }
+  const factor = 10n ** BigInt(money.decimals - decimals);
+  if (money.units % factor !== 0n) throw invalid(`${formatMoney(money)} has more than ${decimals} decimal places`);
+  return { ...money, units: money.units / factor, decimals };
+}
+
+/** Whether two amounts can be compared: the same currency, counting stablecoins as USD. */
+export function sameCurrency(a: Pick<Money, 'token'>, b: Pick<Money, 'token'>): boolean {
+  return currencyKey(a.token) === currencyKey(b.token);
+}
+
+/**
+ * `-1`, `0`, or `1` as `a` is less than, equal to, or greater than `b`.
+ * Throws `CURRENCY_MISMATCH` for different currencies.
+ */
+export function compareMoney(a: Money, b: Money): -1 | 0 | 1 {
+  if (!sameCurrency(a, b)) {
+    throw new AgntorError(`Cannot compare ${a.token} with ${b.token}`, 'CURRENCY_MISMATCH');
+  }
+  const decimals = Math.max(a.decimals, b.decimals);
+  const [x, y] = [rescale(a, decimals).units, rescale(b, decimals).units];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function combine(a: Money, b: Money, sign: 1n | -1n): Money {
+  if (a.token.toUpperCase() !== b.token.toUpperCase()) {
+    throw new AgntorError(`Cannot combine ${a.token} with ${b.token}`, 'CURRENCY_MISMATCH');
+  }
+  const decimals = Math.max(a.decimals, b.decimals);
+  return { token: a.token, decimals, units: rescale(a, decimals).units + sign * rescale(b, decimals).units };
+}
+
+/** `a + b`, in the same token. */
+export function addMoney(a: Money, b: Money): Money {
+  return combine(a, b, 1n);
+}
+
+/** `a - b`, in the same token. */
+export function subtractMoney(a: Money, b: Money): Money {
+  return combine(a, b, -1n);
+}
+
+/** Nearest JS number, for APIs that take plain numbers. */
+export function moneyToNumber(money: Money): number {
+  return Number(formatUnits(money.units, money.decimals));
+}
+
+/**
+ * The exact amount of an escrow (or of one of its milestones or payees)
+ * created with `Money`, or `undefined` if it has no `currency`.
+ */
+export function escrowMoney(
+  record: Pick<EscrowRecord, 'amount' | 'amountUnits' | 'currency'>,
+  part: { amount: number; amountUnits?: string } = record,
+): Money | undefined {
+  const { currency } = record;
+  if (!currency) return undefined;
+  return part.amountUnits !== undefined
+    ? moneyFromUnits(part.amountUnits, currency.token, currency.decimals)
+    : toMoney(part.amount, currency);
+}
+
+/**
+ * Convert the `Money` amounts of new escrow params into the numbers the
+ * API takes, adding the escrow `currency` and exact `amountUnits` so no
+ * precision is lost on the way. All `Money` amounts must be in one token;
+ * plain numbers alongside them are read in that token. Params without
+ * `Money` are returned unchanged.
+ *
+ * Throws `CURRENCY_MISMATCH` or `INVALID_AMOUNT`.
+ */
+export function normalizeEscrowAmounts(params: EscrowCreateParams): EscrowCreateParams<number> {
+  const amounts: Amount[] = [
+    params.amount,
+    ...(params.milestones ?? []).map((m) => m.amount),
+    ...(params.payees ?? []).flatMap((p) => (p.amount === undefined ? [] : [p.amount])),
+  ];
+  const money = amounts.filter(isMoney);
+  if (money.length === 0) return params as EscrowCreateParams<number>;
+
+  const { token } = money[0];
+  for (const m of money) {
+    if (m.token.toUpperCase() !== token.toUpperCase()) {
+      throw new AgntorError(`Escrow amounts mix ${token} and ${m.token}`, 'CURRENCY_MISMATCH');
+    }
+  }
+  const currency: EscrowCurrency = { token, decimals: Math.max(...money.map((m) => m.decimals)) };
+  const exact = (amount: Amount) => {
+    const m = toMoney(amount, currency);
+    return { amount: moneyToNumber(m), amountUnits: m.units.toString() };
+  };
+
+  const { milestones, payees, counterparty, ...rest } = params;
+  const fields = {
+    ...rest,
+    ...exact(params.amount),
+    currency,
+    ...(milestones ? { milestones: milestones.map((m) => ({ ...m, ...exact(m.amount) })) } : {}),
+  };
+  if (params.payees === undefined) return { ...fields, counterparty: params.counterparty };
+  return {
+    ...fields,
+    ...(counterparty !== undefined ? { counterparty } : {}),
+    payees: params.payees.map(({ amount, ...p }) => (amount === undefined ? p : { ...p, ...exact(amount) })),
+  };
+}
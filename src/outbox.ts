@@ -0,0 +1,272 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AgntorEvent } from './types.js';
+
+const DEFAULT_FLUSH_INTERVAL = 30_000;
+const DEFAULT_OUTBOX_PATH = '.agntor/outbox.json';
+
+/**
+ * A mutation waiting in the outbox.
+ */
+export interface OutboxEntry {
+  /** Outbox entry ID */
+  id: string;
+  /** API path of the mutation */
+  path: string;
+  /** JSON request body */
+  body: unknown;
+  /** Idempotency key reused on every replay, so the server applies it once */
+  idempotencyKey: string;
+  /** Event emitted when the mutation is delivered */
+  event: AgntorEvent;
+  /** ISO-8601 time the entry was queued */
+  enqueuedAt: string;
+  /** Replay attempts made so far */
+  attempts: number;
+  /** Message of the most recent failure */
+  lastError?: string;
+}
+
+/**
+ * Persistence for outbox entries. Implementations store the whole
+ * queue; the outbox serializes all reads and writes.
+ */
+export interface OutboxStore {
+  load(): Promise<OutboxEntry[]>;
+  save(entries: OutboxEntry[]): Promise<void>;
+}
+
+/**
+ * Settings for the opt-in offline outbox (`AgntorConfig.outbox`).
+ */
+export interface OutboxOptions {
+  /** Where queued operations are persisted (default: `FileOutboxStore` at `path`) */
+  store?: OutboxStore;
+  /** File used by the default store (default: ".agntor/outbox.json") */
+  path?: string;
+  /** Background replay interval in ms; `0` disables it (default: 30 000) */
+  flushInterval?: number;
+}
+
+/**
+ * Outcome of `Outbox.flush`.
+ */
+export interface OutboxFlushResult {
+  /** Entries delivered in this flush */
+  delivered: OutboxEntry[];
+  /** Entries dropped after a permanent failure */
+  failed: OutboxEntry[];
+  /** Entries still queued (the API is still unreachable) */
+  pending: OutboxEntry[];
+}
+
+/**
+ * Payload of the `outbox_delivered` event.
+ */
+export interface OutboxDeliveredEvent {
+  entry: OutboxEntry;
+  result: unknown;
+}
+
+/**
+ * Payload of the `outbox_failed` event.
+ */
+export interface OutboxFailedEvent {
+  entry: OutboxEntry;
+  error: Error;
+}
+
+/**
+ * How the outbox talks to the client that owns it.
+ */
+export interface OutboxTransport {
+  /** Send a queued mutation */
+  deliver(entry: OutboxEntry): Promise<unknown>;
+  /** Whether a failure is worth retrying later */
+  isTransient(error: unknown): boolean;
+  onDelivered(event: OutboxDeliveredEvent): void;
+  onFailed(event: OutboxFailedEvent): void;
+}
+
+/**
+ * Outbox store backed by a JSON file. Writes go to a temporary file
+ * that is renamed into place, so a crash never leaves a torn queue.
+ */
+export class FileOutboxStore implements OutboxStore {
+  constructor(private readonly path: string = DEFAULT_OUTBOX_PATH) {}
+
+  async load(): Promise<OutboxEntry[]> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as OutboxEntry[];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  async save(entries: OutboxEntry[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entries, null, 2), 'utf8');
+    await rename(tmp, this.path);
+  }
+}
+
+/**
+ * Outbox store kept in memory (lost on exit). Useful for tests.
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private entries: OutboxEntry[] = [];
+
+  async load(): Promise<OutboxEntry[]> {
+    return structuredClone(this.entries);
+  }
+
+  async save(entries: OutboxEntry[]): Promise<void> {
+    this.entries = structuredClone(entries);
+  }
+}
+
+/**
+ * Durable queue of escrow and settlement mutations that could not reach
+ * the API.
+ *
+ * Entries are replayed strictly in order with their original
+ * idempotency keys. A transient failure stops the replay (later entries
+ * may depend on earlier ones); a permanent failure drops the entry and
+ * emits `outbox_failed`.
+ */
+export class Outbox {
+  private readonly store: OutboxStore;
+  private lock: Promise<unknown> = Promise.resolve();
+  private flushing?: Promise<OutboxFlushResult>;
+  private timer?: ReturnType<typeof setInterval>;
+  /** Queue length as of the last store read or write */
+  private size?: number;
+
+  constructor(
+    options: OutboxOptions,
+    private readonly transport: OutboxTransport,
+  ) {
+    this.store = options.store ?? new FileOutboxStore(options.path);
+
+    const interval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    if (interval > 0) {
+      this.timer = setInterval(() => {
+        // Failures are reported through events; nothing to surface here
+        this.flush().catch(() => {});
+      }, interval);
+      this.timer.unref?.();
+    }
+  }
+
+  /** Queued operations, oldest first. */
+  async list(): Promise<OutboxEntry[]> {
+    return this.exclusive(() => this.load());
+  }
+
+  /**
+   * Number of queued operations. Read from the store once, then tracked
+   * in memory, so checking an empty queue costs no I/O.
+   *
+   * @internal
+   */
+  async pending(): Promise<number> {
+    if (this.size !== undefined) return this.size;
+    return this.exclusive(async () => (await this.load()).length);
+  }
+
+  /** Remove a queued operation before it is replayed. Returns `false` if it is not queued. */
+  async cancel(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const entries = await this.load();
+      const remaining = entries.filter((e) => e.id !== id);
+      if (remaining.length === entries.length) return false;
+      await this.save(remaining);
+      return true;
+    });
+  }
+
+  /** @internal */
+  async enqueue(entry: Pick<OutboxEntry, 'path' | 'body' | 'idempotencyKey' | 'event'>, error: Error): Promise<OutboxEntry> {
+    return this.exclusive(async () => {
+      const queued: OutboxEntry = {
+        id: randomUUID(),
+        ...entry,
+        enqueuedAt: new Date().toISOString(),
+        attempts: 1,
+        lastError: error.message,
+      };
+      await this.save([...(await this.load()), queued]);
+      return queued;
+    });
+  }
+
+  /**
+   * Replay queued operations now. Concurrent calls share one replay.
+   */
+  flush(): Promise<OutboxFlushResult> {
+    this.flushing ??= this.exclusive(() => this.replay()).finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  /** Stop the background replay timer. */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async replay(): Promise<OutboxFlushResult> {
+    const entries = await this.load();
+    const delivered: OutboxEntry[] = [];
+    const failed: OutboxEntry[] = [];
+
+    while (entries.length > 0) {
+      const entry = entries[0];
+      try {
+        const result = await this.transport.deliver(entry);
+        entries.shift();
+        await this.save(entries);
+        delivered.push(entry);
+        this.transport.onDelivered({ entry, result });
+      } catch (err) {
+        const error = err as Error;
+        entry.attempts++;
+        entry.lastError = error.message;
+
+        if (this.transport.isTransient(err)) {
+          await this.save(entries);
+          break;
+        }
+
+        entries.shift();
+        await this.save(entries);
+        failed.push(entry);
+        this.transport.onFailed({ entry, error });
+      }
+    }
+
+    return { delivered, failed, pending: entries };
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    const entries = await this.store.load();
+    this.size = entries.length;
+    return entries;
+  }
+
+  private async save(entries: OutboxEntry[]): Promise<void> {
+    await this.store.save(entries);
+    this.size = entries.length;
+  }
+
+  /** Run `fn` after every earlier store operation has finished. */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => {});
+    return run;
+  }
+}
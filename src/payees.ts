@@ -0,0 +1,159 @@
+import type { EscrowCreateParams, EscrowRecord, PayeeOutcome, PayeeShareParams } from './types.js';
+import { AgntorError } from './types.js';
+import { milestoneBalance, milestoneEscrowStatus } from './milestones.js';
+import { amountTolerance, escrowMoney, formatMoney, invalidInput, moneyFromUnits, moneyToNumber } from './money.js';
+
+/** Weights are ratios, not money: scaled to integers to split base units exactly */
+const WEIGHT_SCALE = 1e9;
+
+const invalid = invalidInput('INVALID_SHARES');
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Check the payees of a multi-party escrow and resolve weighted shares
+ * into amounts. Each payee needs a unique agent ID and either a fixed
+ * `amount` or a `weight`; fixed amounts may not exceed the total, and
+ * without weighted payees they must add up to it exactly. Weighted
+ * shares divide the remainder, with the last one absorbing rounding so
+ * the amounts always sum to the total.
+ *
+ * Escrows with a `currency` are split in base units, so the shares
+ * (and their `amountUnits`) add up to the total exactly.
+ *
+ * Returns the params with every payee's `amount` set and `counterparty`
+ * defaulted to the first payee. Throws `INVALID_SHARES`. Escrows
+ * without payees are returned unchanged.
+ */
+export function resolvePayeeShares(params: EscrowCreateParams<number>): EscrowCreateParams<number> {
+  const { payees } = params;
+  if (payees === undefined) return params;
+  if (!Array.isArray(payees) || payees.length === 0) throw invalid('payees must be a non-empty array');
+  if (params.milestones !== undefined) throw invalid('An escrow cannot have both payees and milestones');
+
+  const ids = new Set<string>();
+  let fixed = 0;
+  let totalWeight = 0;
+  for (const p of payees) {
+    if (typeof p.agentId !== 'string' || !p.agentId) throw invalid('Every payee needs an agentId');
+    if (ids.has(p.agentId)) throw invalid(`Duplicate payee "${p.agentId}"`);
+    ids.add(p.agentId);
+    if ((p.amount === undefined) === (p.weight === undefined)) {
+      throw invalid(`Payee ${p.agentId}: give either amount or weight`);
+    }
+    if (p.amount !== undefined) {
+      if (!isPositive(p.amount)) throw invalid(`Payee ${p.agentId}: amount must be a positive number`);
+      fixed += p.amount;
+    } else {
+      if (!isPositive(p.weight)) throw invalid(`Payee ${p.agentId}: weight must be a positive number`);
+      totalWeight += p.weight;
+    }
+  }
+
+  if (params.currency) return resolveExactShares(params, payees, totalWeight);
+
+  const tolerance = amountTolerance(params.amount);
+  const remainder = params.amount - fixed;
+  if (totalWeight === 0 && Math.abs(remainder) > tolerance) {
+    throw invalid(`Payee amounts add up to ${fixed}, but the escrow amount is ${params.amount}`);
+  }
+  if (totalWeight > 0 && remainder <= tolerance) {
+    throw invalid(`Fixed payee amounts (${fixed}) leave nothing of ${params.amount} for weighted payees`);
+  }
+
+  const lastWeighted = payees.map((p) => p.weight !== undefined).lastIndexOf(true);
+  let allocated = 0;
+  const resolved: PayeeShareParams<number>[] = payees.map((p, i) => {
+    if (p.weight === undefined) return { agentId: p.agentId, amount: p.amount };
+    const amount = i === lastWeighted ? remainder - allocated : (remainder * p.weight) / totalWeight;
+    allocated += amount;
+    return { agentId: p.agentId, amount, weight: p.weight };
+  });
+
+  return { ...params, counterparty: params.counterparty ?? payees[0].agentId, payees: resolved };
+}
+
+function resolveExactShares(
+  params: EscrowCreateParams<number>,
+  payees: PayeeShareParams<number>[],
+  totalWeight: number,
+): EscrowCreateParams<number> {
+  const { token, decimals } = params.currency!;
+  const show = (units: bigint) => formatMoney(moneyFromUnits(units, token, decimals));
+  const unitsOf = (p: PayeeShareParams<number>) => escrowMoney(params, { amount: p.amount!, amountUnits: p.amountUnits })!.units;
+
+  const total = escrowMoney(params)!.units;
+  const fixed = payees.reduce((sum, p) => (p.amount === undefined ? sum : sum + unitsOf(p)), 0n);
+  const remainder = total - fixed;
+  if (totalWeight === 0 && remainder !== 0n) {
+    throw invalid(`Payee amounts add up to ${show(fixed)}, but the escrow amount is ${show(total)}`);
+  }
+  if (totalWeight > 0 && remainder <= 0n) {
+    throw invalid(`Fixed payee amounts (${show(fixed)}) leave nothing of ${show(total)} for weighted payees`);
+  }
+
+  const scaled = (weight: number) => BigInt(Math.round(weight * WEIGHT_SCALE));
+  const denominator = payees.reduce((sum, p) => (p.weight === undefined ? sum : sum + scaled(p.weight)), 0n);
+  const lastWeighted = payees.map((p) => p.weight !== undefined).lastIndexOf(true);
+  let allocated = 0n;
+  const resolved: PayeeShareParams<number>[] = payees.map((p, i) => {
+    if (p.weight === undefined) return { agentId: p.agentId, amount: p.amount, amountUnits: unitsOf(p).toString() };
+    const units = i === lastWeighted ? remainder - allocated : (remainder * scaled(p.weight)) / denominator;
+    allocated += units;
+    return {
+      agentId: p.agentId,
+      amount: moneyToNumber(moneyFromUnits(units, token, decimals)),
+      amountUnits: units.toString(),
+      weight: p.weight,
+    };
+  });
+
+  return { ...params, counterparty: params.counterparty ?? payees[0].agentId, payees: resolved };
+}
+
+/**
+ * Throw `INVALID_TRANSITION` unless `agentId` is a payee of `record`
+ * whose share has not been settled yet.
+ */
+export function assertPayeePending(record: EscrowRecord, agentId: string): void {
+  const payee = record.payees?.find((p) => p.agentId === agentId);
+  if (!payee) {
+    throw new AgntorError(`${agentId} is not a payee of escrow ${record.escrowId}`, 'INVALID_TRANSITION', 409);
+  }
+  if (payee.status !== 'pending') {
+    throw new AgntorError(`Payee ${agentId} of escrow ${record.escrowId} is already ${payee.status}`, 'INVALID_TRANSITION', 409);
+  }
+}
+
+/**
+ * Apply a settlement to a multi-party escrow: one payee (`agentId`) or
+ * every pending payee. The escrow stays `funded` until all payees are
+ * settled, then becomes `released` if anyone was paid, else `slashed`.
+ */
+export function applyPayeeSettlement(
+  record: EscrowRecord,
+  outcome: PayeeOutcome['outcome'],
+  agentId?: string,
+  settledAt?: string,
+): EscrowRecord {
+  const payees = (record.payees ?? []).map((p) =>
+    p.status === 'pending' && (agentId === undefined || p.agentId === agentId)
+      ? { ...p, status: outcome, ...(settledAt ? { settledAt } : {}) }
+      : p,
+  );
+  return {
+    ...record,
+    payees,
+    balance: milestoneBalance(payees),
+    status: milestoneEscrowStatus(payees),
+  };
+}
+
+/** Per-payee outcomes that settling `agentId` (or everyone pending) would produce. */
+export function payeeOutcomes(record: EscrowRecord, outcome: PayeeOutcome['outcome'], agentId?: string): PayeeOutcome[] {
+  return (record.payees ?? [])
+    .filter((p) => p.status === 'pending' && (agentId === undefined || p.agentId === agentId))
+    .map((p) => ({ agentId: p.agentId, outcome, amount: p.amount }));
+}
@@ -0,0 +1,193 @@
+import jwt from 'jsonwebtoken';
+import { KeyObject, createPublicKey } from 'node:crypto';
+import type { JsonWebKey } from 'node:crypto';
+import { z } from 'zod';
+import type { SettlementResult } from './types.js';
+
+export type ReceiptAlgorithm = 'ES256' | 'ES384' | 'ES512' | 'RS256' | 'RS384' | 'RS512' | 'HS256';
+
+/** Public-key algorithms accepted unless `algorithms` says otherwise */
+const ASYMMETRIC_ALGORITHMS: ReceiptAlgorithm[] = ['ES256', 'ES384', 'ES512', 'RS256', 'RS384', 'RS512'];
+
+/**
+ * Claims of a settlement receipt. `sub` is the escrow ID; `iat` and
+ * `settled_at` record when it settled. `amount` is left out when the
+ * settled amount is not known.
+ */
+export const SettlementReceiptPayload = z.object({
+  iss: z.string(),
+  sub: z.string(),
+  iat: z.number(),
+  outcome: z.string(),
+  amount: z.number().optional(),
+  payer: z.string(),
+  payee: z.string(),
+  settled_at: z.string(),
+  milestone_id: z.string().optional(),
+  payees: z.array(z.object({
+    agent_id: z.string(),
+    outcome: z.enum(['released', 'slashed']),
+    amount: z.number(),
+  })).optional(),
+});
+export type SettlementReceiptPayload = z.infer<typeof SettlementReceiptPayload>;
+
+/** A verification key: PEM string, secret, `KeyObject`, or JWK */
+export type ReceiptKey = string | Buffer | KeyObject | JsonWebKey;
+
+export interface ReceiptIssuerConfig {
+  /** `iss` claim */
+  issuer: string;
+  signingKey: string | KeyObject;
+  /** `kid` header, so verifiers can pick the matching key */
+  keyId?: string;
+  /** Default: ES256 */
+  algorithm?: ReceiptAlgorithm;
+}
+
+export interface VerifyReceiptOptions {
+  /** Trusted issuer keys, by key ID (`kid`). A single key is tried whatever the `kid`. */
+  keys: ReceiptKey | Record<string, ReceiptKey>;
+  /** Accepted `iss` values (default: any) */
+  issuer?: string | string[];
+  /** Accepted algorithms (default: the ES* and RS* families; HS256 must be opted into) */
+  algorithms?: ReceiptAlgorithm[];
+  /** Reject receipts issued longer ago than this, in seconds */
+  maxAge?: number;
+  /** Claims the receipt must carry, e.g. the escrow and amount you were promised */
+  expected?: Partial<Pick<SettlementReceiptPayload, 'sub' | 'outcome' | 'amount' | 'payer' | 'payee' | 'milestone_id'>>;
+}
+
+export interface ReceiptValidationResult {
+  valid: boolean;
+  payload?: SettlementReceiptPayload;
+  error?: string;
+  errorCode?: 'EXPIRED' | 'INVALID_SIGNATURE' | 'INVALID_FORMAT' | 'UNKNOWN_KEY' | 'MISMATCH';
+}
+
+/**
+ * Signs settlement receipts: JWS tokens covering the escrow, outcome,
+ * amount, parties, and settlement time. Used by the API (and
+ * `MockAgntorApi`); receivers check them with `verifyReceipt`.
+ */
+export class ReceiptIssuer {
+  private readonly config: ReceiptIssuerConfig & { algorithm: ReceiptAlgorithm };
+
+  constructor(config: ReceiptIssuerConfig) {
+    this.config = { algorithm: 'ES256', ...config };
+  }
+
+  /**
+   * Sign a receipt for a settlement between `payer` and `payee`.
+   *
+   * @returns JWS compact serialization
+   */
+  issue(result: SettlementResult, parties: { payer: string; payee: string }): string {
+    const settledAt = result.settledAt ?? new Date().toISOString();
+    const payload: SettlementReceiptPayload = {
+      iss: this.config.issuer,
+      sub: result.escrowId,
+      iat: Math.floor(Date.parse(settledAt) / 1000),
+      outcome: result.outcome,
+      ...(result.amount !== undefined ? { amount: result.amount } : {}),
+      payer: parties.payer,
+      payee: parties.payee,
+      settled_at: settledAt,
+      ...(result.milestoneId ? { milestone_id: result.milestoneId } : {}),
+      ...(result.payees
+        ? { payees: result.payees.map((p) => ({ agent_id: p.agentId, outcome: p.outcome, amount: p.amount })) }
+        : {}),
+    };
+
+    return jwt.sign(payload, this.config.signingKey, {
+      algorithm: this.config.algorithm,
+      ...(this.config.keyId ? { keyid: this.config.keyId } : {}),
+    });
+  }
+}
+
+function isSingleKey(keys: VerifyReceiptOptions['keys']): keys is ReceiptKey {
+  return typeof keys === 'string' || Buffer.isBuffer(keys) || keys instanceof KeyObject || 'kty' in keys;
+}
+
+function toVerificationKey(key: ReceiptKey): string | Buffer | KeyObject {
+  if (typeof key === 'string' || Buffer.isBuffer(key) || key instanceof KeyObject) return key;
+  return createPublicKey({ key, format: 'jwk' });
+}
+
+/**
+ * Verify a settlement receipt offline against trusted issuer keys,
+ * without calling the API. Like `TicketIssuer.validateTicket`, failures
+ * are returned rather than thrown.
+ *
+ * @example
+ * ```ts
+ * const check = verifyReceipt(result.receipt, {
+ *   keys: { 'agntor-2026': AGNTOR_RECEIPT_KEY },
+ *   expected: { sub: escrowId, amount: 40 },
+ * });
+ * if (!check.valid) throw new Error(check.error);
+ * ```
+ */
+export function verifyReceipt(token: string, options: VerifyReceiptOptions): ReceiptValidationResult {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload !== 'object') {
+    return { valid: false, error: 'Invalid receipt format', errorCode: 'INVALID_FORMAT' };
+  }
+
+  let key: ReceiptKey | undefined;
+  if (isSingleKey(options.keys)) {
+    key = options.keys;
+  } else if (decoded.header.kid !== undefined) {
+    key = Object.hasOwn(options.keys, decoded.header.kid) ? options.keys[decoded.header.kid] : undefined;
+  }
+  if (key === undefined) {
+    return { valid: false, error: `No trusted key for kid "${decoded.header.kid ?? ''}"`, errorCode: 'UNKNOWN_KEY' };
+  }
+
+  let claims: unknown;
+  try {
+    claims = jwt.verify(token, toVerificationKey(key), {
+      algorithms: options.algorithms ?? ASYMMETRIC_ALGORITHMS,
+      ...(options.issuer !== undefined ? { issuer: options.issuer as string | [string, ...string[]] } : {}),
+      ...(options.maxAge !== undefined ? { maxAge: options.maxAge } : {}),
+    });
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return { valid: false, error: 'Receipt is older than maxAge', errorCode: 'EXPIRED' };
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      return { valid: false, error: error.message, errorCode: 'INVALID_SIGNATURE' };
+    }
+    return { valid: false, error: 'Invalid receipt key', errorCode: 'INVALID_FORMAT' };
+  }
+
+  const parsed = SettlementReceiptPayload.safeParse(claims);
+  if (!parsed.success) {
+    return { valid: false, error: 'Receipt is missing settlement claims', errorCode: 'INVALID_FORMAT' };
+  }
+
+  for (const [claim, value] of Object.entries(options.expected ?? {})) {
+    const actual = parsed.data[claim as keyof typeof parsed.data];
+    if (value !== undefined && actual !== value) {
+      return {
+        valid: false,
+        error: `Receipt ${claim} is ${JSON.stringify(actual)}, expected ${JSON.stringify(value)}`,
+        errorCode: 'MISMATCH',
+        payload: parsed.data,
+      };
+    }
+  }
+
+  return { valid: true, payload: parsed.data };
+}
+
+/**
+ * Decode a receipt without verifying it (for debugging).
+ *
+ * WARNING: Do not use this for security-critical paths
+ */
+export function decodeReceipt(token: string): SettlementReceiptPayload | null {
+  const parsed = SettlementReceiptPayload.safeParse(jwt.decode(token));
+  return parsed.success ? parsed.data : null;
+}
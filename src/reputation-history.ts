@@ -0,0 +1,213 @@
+import type { ReputationHistoryEntry } from './types.js';
+import { AgntorError } from './types.js';
+
+/** Default page size for `reputation.listHistory` */
+export const DEFAULT_HISTORY_PAGE_SIZE = 100;
+
+/** Most buckets `aggregateHistory` will produce */
+export const MAX_HISTORY_BUCKETS = 10_000;
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+const INTERVALS: Readonly<Record<HistoryInterval, number>> = {
+  hour: HOUR,
+  day: DAY,
+  week: 7 * DAY,
+};
+
+/**
+ * Filters for `reputation.history` and `reputation.listHistory`. All
+ * filters are combined with AND.
+ */
+export interface ReputationHistoryFilter {
+  /** Only entries of this kind (or any of these kinds) */
+  event?: ReputationHistoryEntry['event'] | ReputationHistoryEntry['event'][];
+  /** At or after this time */
+  after?: string | Date;
+  /** Before this time */
+  before?: string | Date;
+  /** Page size (default: 100) */
+  pageSize?: number;
+}
+
+/**
+ * One page of `reputation.listHistory` results, oldest first.
+ */
+export interface ReputationHistoryPage {
+  entries: ReputationHistoryEntry[];
+  /** Pass to the next request; absent on the last page */
+  nextCursor?: string;
+}
+
+/** Width of the buckets of `aggregateHistory` (UTC; weeks start on Monday) */
+export type HistoryInterval = 'hour' | 'day' | 'week';
+
+/**
+ * Options of `aggregateHistory`.
+ */
+export interface HistoryAggregationOptions {
+  /** Bucket width (default: `day`) */
+  interval?: HistoryInterval;
+  /** Start of the series (default: the first settlement) */
+  from?: string | Date;
+  /** End of the series, exclusive (default: now), so recent quiet buckets show up */
+  to?: string | Date;
+  /** Clock, in ms since epoch (default: `Date.now`) */
+  now?: () => number;
+}
+
+/**
+ * Settlements of one time bucket.
+ */
+export interface HistoryBucket {
+  /** ISO-8601 start of the bucket (inclusive) */
+  start: string;
+  /** ISO-8601 end of the bucket (exclusive) */
+  end: string;
+  settlements: number;
+  released: number;
+  slashed: number;
+  /** Amount settled (released or slashed) */
+  volume: number;
+  /** Share of settlements released; absent for a bucket without settlements */
+  successRate?: number;
+}
+
+function time(value: string | Date): number {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+/**
+ * Entries of `history` matching `filter`, for APIs that return the
+ * whole history regardless of the query.
+ */
+export function filterHistory(
+  history: ReputationHistoryEntry[],
+  filter: ReputationHistoryFilter = {},
+): ReputationHistoryEntry[] {
+  const events = filter.event === undefined ? undefined : [filter.event].flat();
+  const after = filter.after === undefined ? undefined : time(filter.after);
+  const before = filter.before === undefined ? undefined : time(filter.before);
+
+  return history.filter((entry) => {
+    if (events && !events.includes(entry.event)) return false;
+    if (after === undefined && before === undefined) return true;
+    const at = Date.parse(entry.timestamp);
+    return !Number.isNaN(at)
+      && (after === undefined || at >= after)
+      && (before === undefined || at < before);
+  });
+}
+
+/**
+ * Encode a filter and cursor as the `GET /api/v1/reputation/:agentId/history`
+ * query string.
+ */
+export function reputationHistoryQuery(filter: ReputationHistoryFilter, cursor?: string): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | Date | undefined) => {
+    if (value === undefined) return;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  };
+
+  if (filter.event !== undefined) {
+    set('event', Array.isArray(filter.event) ? filter.event.join(',') : filter.event);
+  }
+  set('after', filter.after);
+  set('before', filter.before);
+  set('limit', filter.pageSize ?? DEFAULT_HISTORY_PAGE_SIZE);
+  set('cursor', cursor);
+
+  return params.toString();
+}
+
+/** Start of the bucket containing `at`. */
+function bucketStart(at: number, interval: HistoryInterval): number {
+  const width = INTERVALS[interval];
+  const start = Math.floor(at / width) * width;
+  // The epoch fell on a Thursday; shift week buckets to start on Monday
+  if (interval !== 'week') return start;
+  const monday = start + 4 * DAY;
+  return monday > at ? monday - width : monday;
+}
+
+/**
+ * Settlements of `history` per `interval`: count, outcomes, volume, and
+ * success rate, for charting an agent's trend (e.g. a recent drop in
+ * success rate). Buckets are contiguous from `from` to `to`, including
+ * empty ones; entries outside the range and non-settlement entries are
+ * skipped.
+ *
+ * Accepts an array or the async iterator returned by
+ * `reputation.listHistory`. Throws `INVALID_OPTIONS` for an unknown
+ * interval, an invalid range, or more than `MAX_HISTORY_BUCKETS` buckets.
+ *
+ * @example
+ * ```ts
+ * const daily = await aggregateHistory(await agntor.reputation.history(agentId), { from: lastMonth });
+ * const [prev, last] = daily.slice(-2);
+ * ```
+ */
+export async function aggregateHistory(
+  history: Iterable<ReputationHistoryEntry> | AsyncIterable<ReputationHistoryEntry>,
+  options: HistoryAggregationOptions = {},
+): Promise<HistoryBucket[]> {
+  const interval = options.interval ?? 'day';
+  if (!Object.hasOwn(INTERVALS, interval)) {
+    throw new AgntorError(`Unknown interval "${interval}"`, 'INVALID_OPTIONS');
+  }
+  const from = options.from === undefined ? undefined : time(options.from);
+  const to = options.to === undefined ? (options.now ?? Date.now)() : time(options.to);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    throw new AgntorError('from and to must be valid dates', 'INVALID_OPTIONS');
+  }
+
+  const settlements: { at: number; released: boolean; amount: number }[] = [];
+  for await (const entry of history) {
+    if (entry.event !== 'escrow_released' && entry.event !== 'escrow_slashed') continue;
+    const at = Date.parse(entry.timestamp);
+    if (Number.isNaN(at) || (from !== undefined && at < from) || at >= to) continue;
+    const amount = entry.details?.amount;
+    settlements.push({
+      at,
+      released: entry.event === 'escrow_released',
+      amount: typeof amount === 'number' && amount > 0 ? amount : 0,
+    });
+  }
+
+  const first = from ?? settlements.reduce((min, s) => Math.min(min, s.at), Infinity);
+  if (!Number.isFinite(first) || first >= to) return [];
+
+  const width = INTERVALS[interval];
+  const origin = bucketStart(first, interval);
+  const count = Math.ceil((to - origin) / width);
+  if (count > MAX_HISTORY_BUCKETS) {
+    throw new AgntorError(
+      `${count} ${interval} buckets exceed the limit of ${MAX_HISTORY_BUCKETS}; use a wider interval or a shorter range`,
+      'INVALID_OPTIONS',
+    );
+  }
+
+  const buckets = Array.from({ length: count }, (_, i) => ({
+    start: origin + i * width,
+    settlements: 0,
+    released: 0,
+    slashed: 0,
+    volume: 0,
+  }));
+  for (const settlement of settlements) {
+    const bucket = buckets[Math.floor((settlement.at - origin) / width)];
+    bucket.settlements++;
+    if (settlement.released) bucket.released++;
+    else bucket.slashed++;
+    bucket.volume += settlement.amount;
+  }
+
+  return buckets.map(({ start, ...totals }) => ({
+    start: new Date(start).toISOString(),
+    end: new Date(start + width).toISOString(),
+    ...totals,
+    ...(totals.settlements > 0 ? { successRate: totals.released / totals.settlements } : {}),
+  }));
+}
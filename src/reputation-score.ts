@@ -0,0 +1,189 @@
+import type { ReputationHistoryEntry } from './types.js';
+import { AgntorError } from './types.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Factors combined into a local reputation score:
+ * - `outcomes`: time-decayed share of settlements that were released
+ * - `volume`: time-decayed value settled, on a log scale up to `volumeTarget`
+ * - `slashes`: starts at 1 and loses `slashPenalty` per (decayed) slash
+ * - `diversity`: distinct counterparties, up to `diversityTarget`
+ */
+export type ReputationFactor = 'outcomes' | 'volume' | 'slashes' | 'diversity';
+
+/**
+ * Tuning for `scoreReputation`.
+ */
+export interface ReputationScoringOptions {
+  /** Age at which a settlement counts half as much, in ms (default: 30 days) */
+  halfLife?: number;
+  /** Relative weight of each factor (default: outcomes 0.5, volume 0.2, slashes 0.2, diversity 0.1) */
+  weights?: Partial<Record<ReputationFactor, number>>;
+  /** Decayed volume that earns a full volume score (default: 1000) */
+  volumeTarget?: number;
+  /** Score lost per decayed slash (default: 0.25) */
+  slashPenalty?: number;
+  /** Counterparties that earn a full diversity score (default: 5) */
+  diversityTarget?: number;
+  /** Clock, in ms since epoch (default: `Date.now`) */
+  now?: () => number;
+}
+
+/**
+ * One factor of a `ReputationBreakdown`.
+ */
+export interface ReputationFactorScore {
+  /** Factor score, 0–1 */
+  score: number;
+  /** Normalized weight (weights sum to 1) */
+  weight: number;
+  /** `score * weight`: this factor's share of the total */
+  contribution: number;
+  /** Human-readable explanation */
+  detail: string;
+}
+
+/**
+ * Result of `scoreReputation`.
+ */
+export interface ReputationBreakdown {
+  /** Weighted score, 0–1 (0 = no history); usable as `TransactionMeta.reputationScore` */
+  score: number;
+  factors: Record<ReputationFactor, ReputationFactorScore>;
+  /** Settlements (`escrow_released` / `escrow_slashed` entries) that were scored */
+  settlements: number;
+  /** ISO-8601 time the decay was computed at */
+  computedAt: string;
+}
+
+const DEFAULT_WEIGHTS: Readonly<Record<ReputationFactor, number>> = {
+  outcomes: 0.5,
+  volume: 0.2,
+  slashes: 0.2,
+  diversity: 0.1,
+};
+
+const FACTORS = Object.keys(DEFAULT_WEIGHTS) as ReputationFactor[];
+
+interface Settlement {
+  released: boolean;
+  decay: number;
+  amount: number;
+  counterparty?: string;
+}
+
+function invalid(message: string): AgntorError {
+  return new AgntorError(message, 'INVALID_OPTIONS');
+}
+
+function positive(value: number, name: string): number {
+  if (!(value > 0) || !Number.isFinite(value)) throw invalid(`${name} must be a positive number`);
+  return value;
+}
+
+function normalizeWeights(weights: ReputationScoringOptions['weights'] = {}): Record<ReputationFactor, number> {
+  const merged = { ...DEFAULT_WEIGHTS, ...weights };
+  for (const factor of FACTORS) {
+    if (!(merged[factor] >= 0) || !Number.isFinite(merged[factor])) {
+      throw invalid(`weights.${factor} must be a non-negative number`);
+    }
+  }
+  const total = FACTORS.reduce((sum, f) => sum + merged[f], 0);
+  if (total === 0) throw invalid('At least one weight must be positive');
+  return Object.fromEntries(FACTORS.map((f) => [f, merged[f] / total])) as Record<ReputationFactor, number>;
+}
+
+/** Settlements in `history`, each with its decay factor; other entries are skipped. */
+function settlements(history: ReputationHistoryEntry[], now: number, halfLife: number): Settlement[] {
+  const result: Settlement[] = [];
+  for (const entry of history) {
+    if (entry.event !== 'escrow_released' && entry.event !== 'escrow_slashed') continue;
+    const at = Date.parse(entry.timestamp);
+    if (Number.isNaN(at)) continue;
+
+    const { amount, counterparty } = entry.details ?? {};
+    result.push({
+      released: entry.event === 'escrow_released',
+      // Future timestamps (clock skew) count as brand new
+      decay: 0.5 ** (Math.max(now - at, 0) / halfLife),
+      amount: typeof amount === 'number' && amount > 0 ? amount : 0,
+      counterparty: typeof counterparty === 'string' ? counterparty : undefined,
+    });
+  }
+  return result;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+/**
+ * Score an agent from its `reputation.history`, locally and with your
+ * own risk appetite, instead of relying on the server's `successRate`.
+ *
+ * Each settlement counts less as it ages (halving every `halfLife`).
+ * The factor scores are combined by weight into a 0–1 score; an agent
+ * with no settlements scores 0, like the `reputationScore` convention
+ * of `settlementGuard`. Throws `INVALID_OPTIONS`.
+ *
+ * @example
+ * ```ts
+ * const { score, factors } = scoreReputation(await agntor.reputation.history(agentId), {
+ *   halfLife: 7 * 24 * 3600_000,
+ *   weights: { slashes: 0.4 },
+ * });
+ * await settlementGuard({ ...meta, reputationScore: score });
+ * ```
+ */
+export function scoreReputation(
+  history: ReputationHistoryEntry[],
+  options: ReputationScoringOptions = {},
+): ReputationBreakdown {
+  const halfLife = positive(options.halfLife ?? 30 * DAY, 'halfLife');
+  const volumeTarget = positive(options.volumeTarget ?? 1000, 'volumeTarget');
+  const slashPenalty = positive(options.slashPenalty ?? 0.25, 'slashPenalty');
+  const diversityTarget = positive(options.diversityTarget ?? 5, 'diversityTarget');
+  const weights = normalizeWeights(options.weights);
+  const now = (options.now ?? Date.now)();
+
+  const scored = settlements(history, now, halfLife);
+  const total = scored.reduce((sum, s) => sum + s.decay, 0);
+  const released = scored.reduce((sum, s) => sum + (s.released ? s.decay : 0), 0);
+  const slashes = total - released;
+  const volume = scored.reduce((sum, s) => sum + s.decay * s.amount, 0);
+  const counterparties = new Set(scored.flatMap((s) => (s.counterparty ? [s.counterparty] : []))).size;
+
+  const raw: Record<ReputationFactor, [number, string]> = scored.length === 0
+    ? {
+        outcomes: [0, 'No settlements'],
+        volume: [0, 'No settlements'],
+        slashes: [0, 'No settlements'],
+        diversity: [0, 'No settlements'],
+      }
+    : {
+        outcomes: [released / total, `${round(released)} of ${round(total)} decayed settlements released`],
+        volume: [
+          Math.min(Math.log1p(volume) / Math.log1p(volumeTarget), 1),
+          `Decayed volume ${round(volume)} of target ${volumeTarget}`,
+        ],
+        slashes: [Math.max(1 - slashPenalty * slashes, 0), `${round(slashes)} decayed slashes`],
+        diversity: [
+          Math.min(counterparties / diversityTarget, 1),
+          `${counterparties} distinct counterparties of target ${diversityTarget}`,
+        ],
+      };
+
+  const factors = Object.fromEntries(FACTORS.map((f) => {
+    const [score, detail] = raw[f];
+    return [f, { score: round(score), weight: round(weights[f]), contribution: round(score * weights[f]), detail }];
+  })) as Record<ReputationFactor, ReputationFactorScore>;
+
+  const score = FACTORS.reduce((sum, f) => sum + raw[f][0] * weights[f], 0);
+  return {
+    score: round(Math.min(Math.max(score, 0), 1)),
+    factors,
+    settlements: scored.length,
+    computedAt: new Date(now).toISOString(),
+  };
+}
@@ -0,0 +1,164 @@
+import type { RetryPolicy, CircuitBreakerOptions, HttpMethod } from './types.js';
+import { AgntorError } from './types.js';
+
+const DEFAULT_BASE_DELAY = 200;
+const DEFAULT_MAX_DELAY = 10_000;
+const DEFAULT_MAX_ELAPSED = 60_000;
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30_000;
+
+/** Statuses whose `Retry-After` header is honored */
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/**
+ * A retry policy with every default filled in.
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'circuitBreaker'>> & {
+  circuitBreaker: Required<CircuitBreakerOptions> | false;
+};
+
+/**
+ * Merge a partial `RetryPolicy` with the SDK defaults.
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}, maxRetries = 3): ResolvedRetryPolicy {
+  return {
+    maxRetries: policy.maxRetries ?? maxRetries,
+    baseDelay: policy.baseDelay ?? DEFAULT_BASE_DELAY,
+    maxDelay: policy.maxDelay ?? DEFAULT_MAX_DELAY,
+    maxElapsed: policy.maxElapsed ?? DEFAULT_MAX_ELAPSED,
+    retryStatuses: policy.retryStatuses ?? DEFAULT_RETRY_STATUSES,
+    circuitBreaker: policy.circuitBreaker === false
+      ? false
+      : {
+          failureThreshold: policy.circuitBreaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+          resetTimeout: policy.circuitBreaker?.resetTimeout ?? DEFAULT_RESET_TIMEOUT,
+        },
+  };
+}
+
+/**
+ * Exponential backoff with full jitter: a uniform random delay in
+ * `[0, min(maxDelay, baseDelay * 2^attempt))`.
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: Pick<ResolvedRetryPolicy, 'baseDelay' | 'maxDelay'>,
+  random: () => number = Math.random,
+): number {
+  const cap = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.floor(random() * cap);
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns `undefined` if the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Read the server-requested delay from a response, if its status allows it.
+ */
+export function retryAfterFromResponse(response: Response): number | undefined {
+  if (!RETRY_AFTER_STATUSES.has(response.status)) return undefined;
+  return parseRetryAfter(response.headers.get('retry-after'));
+}
+
+/**
+ * Only reads and idempotent-keyed mutations are safe to send twice.
+ */
+export function isRetryableRequest(method: HttpMethod, headers: Record<string, string>): boolean {
+  return method === 'GET' || Object.keys(headers).some((h) => h.toLowerCase() === 'idempotency-key');
+}
+
+/**
+ * Whether an attempt failure is transient and worth retrying.
+ */
+export function isRetryableError(err: unknown, policy: Pick<ResolvedRetryPolicy, 'retryStatuses'>): boolean {
+  if (err instanceof AgntorError) {
+    if (err.code === 'TIMEOUT') return true;
+    if (err.statusCode !== undefined) return policy.retryStatuses.includes(err.statusCode);
+    return false;
+  }
+  // Network-level failures (DNS, connection reset, ...) surface as plain errors
+  return true;
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt?: number;
+  probing: boolean;
+}
+
+/**
+ * Per-host circuit breaker.
+ *
+ * After `failureThreshold` consecutive transient failures the circuit
+ * opens and calls fail fast with `CIRCUIT_OPEN`. Once `resetTimeout`
+ * has passed a single probe request is let through; its outcome closes
+ * or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private readonly hosts = new Map<string, CircuitState>();
+
+  constructor(
+    private readonly options: Required<CircuitBreakerOptions>,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Throws `CIRCUIT_OPEN` if calls to `host` should fail fast. */
+  check(host: string): void {
+    const state = this.hosts.get(host);
+    if (!state || state.openedAt === undefined) return;
+
+    const elapsed = this.now() - state.openedAt;
+    if (elapsed >= this.options.resetTimeout) {
+      // Let one probe through; restarting the window means a probe that
+      // never reports back cannot wedge the circuit half-open forever.
+      state.openedAt = this.now();
+      state.probing = true;
+      return;
+    }
+
+    const retryIn = Math.max(0, this.options.resetTimeout - elapsed);
+    throw new AgntorError(
+      `Circuit open for ${host} after ${state.failures} consecutive failures; retry in ${retryIn}ms`,
+      'CIRCUIT_OPEN',
+      undefined,
+      { retryAfterMs: retryIn },
+    );
+  }
+
+  recordSuccess(host: string): void {
+    this.hosts.delete(host);
+  }
+
+  recordFailure(host: string): void {
+    const state = this.hosts.get(host) ?? { failures: 0, probing: false };
+    state.failures++;
+    if (state.probing || state.failures >= this.options.failureThreshold) {
+      state.openedAt = this.now();
+    }
+    state.probing = false;
+    this.hosts.set(host, state);
+  }
+
+  /** Current state for `host` (for diagnostics). */
+  state(host: string): 'closed' | 'open' | 'half-open' {
+    const state = this.hosts.get(host);
+    if (!state || state.openedAt === undefined) return 'closed';
+    if (state.probing || this.now() - state.openedAt >= this.options.resetTimeout) return 'half-open';
+    return 'open';
+  }
+}
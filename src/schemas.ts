@@ -1,4 +1,25 @@
 import { z } from 'zod';
+import type {
+  AgentIdentity,
+  VerificationStatus,
+  EscrowRecord,
+  EscrowCurrency,
+  EscrowMilestone,
+  EscrowBalance,
+  EscrowPayee,
+  SettlementResult,
+  PayeeOutcome,
+  ArbitrationOutcome,
+  DisputeEvidence,
+  DisputeRecord,
+  ReputationScore,
+  ReputationHistoryEntry,
+  BatchItemError,
+  BatchLookupResponse,
+} from './types.js';
+import { ESCROW_STATUSES } from './escrow-state.js';
+import type { EscrowPage } from './escrow-query.js';
+import type { ReputationHistoryPage } from './reputation-history.js';
 
 /**
  * Structured output schema for LLM-based guard responses.
@@ -40,6 +61,214 @@ export const SimulationResultSchema = z.object({
 });
 export type SimulationResult = z.infer<typeof SimulationResultSchema>;
 
+// ---------------------------------------------------------------------------
+// API response schemas (validated by the Agntor client modules)
+// ---------------------------------------------------------------------------
+
+export const AgentIdentitySchema = z.object({
+  agentId: z.string(),
+  name: z.string().optional(),
+  organization: z.string().optional(),
+  chain: z.string().optional(),
+  wallet: z.string().optional(),
+  createdAt: z.string().optional(),
+}) satisfies z.ZodType<AgentIdentity>;
+
+export const VerificationStatusSchema = z.object({
+  agentId: z.string(),
+  verified: z.boolean(),
+  auditLevel: z.string().optional(),
+  capabilities: z.array(z.string()).optional(),
+  badge: z.string().optional(),
+}) satisfies z.ZodType<VerificationStatus>;
+
+export const BadgeSchema = z.object({
+  badge: z.string(),
+});
+
+export const EscrowCurrencySchema = z.object({
+  token: z.string(),
+  decimals: z.number().int().min(0),
+}) satisfies z.ZodType<EscrowCurrency>;
+
+export const EscrowMilestoneSchema = z.object({
+  milestoneId: z.string(),
+  amount: z.number(),
+  amountUnits: z.string().regex(/^\d+$/).optional(),
+  condition: z.string(),
+  deadline: z.string(),
+  status: z.enum(['pending', 'released', 'slashed']),
+  settledAt: z.string().optional(),
+}) satisfies z.ZodType<EscrowMilestone>;
+
+export const EscrowBalanceSchema = z.object({
+  released: z.number(),
+  slashed: z.number(),
+  remaining: z.number(),
+}) satisfies z.ZodType<EscrowBalance>;
+
+export const EscrowPayeeSchema = z.object({
+  agentId: z.string(),
+  amount: z.number(),
+  amountUnits: z.string().regex(/^\d+$/).optional(),
+  weight: z.number().optional(),
+  status: z.enum(['pending', 'released', 'slashed']),
+  settledAt: z.string().optional(),
+}) satisfies z.ZodType<EscrowPayee>;
+
+export const EscrowRecordSchema = z.object({
+  escrowId: z.string(),
+  status: z.enum(ESCROW_STATUSES),
+  amount: z.number(),
+  currency: EscrowCurrencySchema.optional(),
+  amountUnits: z.string().regex(/^\d+$/).optional(),
+  counterparty: z.string(),
+  condition: z.string(),
+  timeout: z.number(),
+  createdAt: z.string().optional(),
+  milestones: z.array(EscrowMilestoneSchema).optional(),
+  balance: EscrowBalanceSchema.optional(),
+  payees: z.array(EscrowPayeeSchema).optional(),
+}) satisfies z.ZodType<EscrowRecord>;
+
+export const EscrowPageSchema = z.object({
+  escrows: z.array(EscrowRecordSchema),
+  nextCursor: z.string().optional(),
+}) satisfies z.ZodType<EscrowPage>;
+
+export const PayeeOutcomeSchema = z.object({
+  agentId: z.string(),
+  outcome: z.enum(['released', 'slashed']),
+  amount: z.number(),
+}) satisfies z.ZodType<PayeeOutcome>;
+
+export const SettlementResultSchema = z.object({
+  escrowId: z.string(),
+  outcome: z.string(),
+  milestoneId: z.string().optional(),
+  payee: z.string().optional(),
+  payees: z.array(PayeeOutcomeSchema).optional(),
+  amount: z.number().optional(),
+  proof: z.string().optional(),
+  settledAt: z.string().optional(),
+  receipt: z.string().optional(),
+}) satisfies z.ZodType<SettlementResult>;
+
+export const ArbitrationOutcomeSchema = z.discriminatedUnion('ruling', [
+  z.object({ ruling: z.literal('released'), rationale: z.string().optional() }),
+  z.object({ ruling: z.literal('slashed'), rationale: z.string().optional() }),
+  z.object({ ruling: z.literal('split'), released: z.number(), slashed: z.number(), rationale: z.string().optional() }),
+]) satisfies z.ZodType<ArbitrationOutcome>;
+
+export const DisputeEvidenceSchema = z.object({
+  evidenceId: z.string(),
+  submittedBy: z.string(),
+  evidence: z.string(),
+  submittedAt: z.string(),
+}) satisfies z.ZodType<DisputeEvidence>;
+
+export const DisputeRecordSchema = z.object({
+  disputeId: z.string(),
+  escrowId: z.string(),
+  status: z.enum(['open', 'resolved']),
+  openedBy: z.string(),
+  reason: z.string(),
+  evidence: z.array(DisputeEvidenceSchema),
+  openedAt: z.string(),
+  resolvedAt: z.string().optional(),
+  outcome: ArbitrationOutcomeSchema.optional(),
+}) satisfies z.ZodType<DisputeRecord>;
+
+export const ReputationScoreSchema = z.object({
+  agentId: z.string(),
+  successRate: z.number(),
+  escrowVolume: z.number(),
+  slashes: z.number(),
+  counterpartiesCount: z.number(),
+}) satisfies z.ZodType<ReputationScore>;
+
+export const ReputationHistoryEntrySchema = z.object({
+  timestamp: z.string(),
+  event: z.string(),
+  details: z.record(z.string(), z.unknown()).optional(),
+}) satisfies z.ZodType<ReputationHistoryEntry>;
+
+export const ReputationHistorySchema = z.array(ReputationHistoryEntrySchema);
+
+export const ReputationHistoryPageSchema = z.object({
+  entries: ReputationHistorySchema,
+  nextCursor: z.string().optional(),
+}) satisfies z.ZodType<ReputationHistoryPage>;
+
+export const BatchItemErrorSchema = z.object({
+  status: z.number().int(),
+  message: z.string(),
+}) satisfies z.ZodType<BatchItemError>;
+
+export const ReputationBatchSchema = z.object({
+  results: z.array(z.object({
+    agentId: z.string(),
+    data: ReputationScoreSchema.optional(),
+    error: BatchItemErrorSchema.optional(),
+  })),
+}) satisfies z.ZodType<BatchLookupResponse<ReputationScore>>;
+
+export const VerificationBatchSchema = z.object({
+  results: z.array(z.object({
+    agentId: z.string(),
+    data: VerificationStatusSchema.optional(),
+    error: BatchItemErrorSchema.optional(),
+  })),
+}) satisfies z.ZodType<BatchLookupResponse<VerificationStatus>>;
+
+/**
+ * How strictly API responses are checked.
+ *
+ * - `strict`  — unknown keys are rejected at every level
+ * - `lenient` — unknown keys are kept; required fields and types are still enforced
+ */
+export type ResponseValidationMode = 'strict' | 'lenient';
+
+const modeCache = {
+  strict: new WeakMap<z.ZodTypeAny, z.ZodTypeAny>(),
+  lenient: new WeakMap<z.ZodTypeAny, z.ZodTypeAny>(),
+};
+
+/**
+ * Re-derive `schema` so every nested object, including the members of
+ * unions, uses the given unknown-key policy.
+ */
+export function withValidationMode<T extends z.ZodTypeAny>(schema: T, mode: ResponseValidationMode): T {
+  const cache = modeCache[mode];
+  const cached = cache.get(schema);
+  if (cached) return cached as T;
+
+  let derived: z.ZodTypeAny = schema;
+  if (schema instanceof z.ZodObject) {
+    const shape = Object.fromEntries(
+      Object.entries(schema.shape as z.ZodRawShape).map(([k, v]) => [k, withValidationMode(v, mode)]),
+    );
+    const object = z.object(shape);
+    derived = mode === 'strict' ? object.strict() : object.passthrough();
+  } else if (schema instanceof z.ZodDiscriminatedUnion) {
+    const options = (schema.options as z.ZodDiscriminatedUnionOption<string>[])
+      .map((option) => withValidationMode(option, mode));
+    derived = z.discriminatedUnion(schema.discriminator, options as [z.ZodDiscriminatedUnionOption<string>, ...z.ZodDiscriminatedUnionOption<string>[]]);
+  } else if (schema instanceof z.ZodUnion) {
+    const options = (schema.options as z.ZodTypeAny[]).map((option) => withValidationMode(option, mode));
+    derived = z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  } else if (schema instanceof z.ZodArray) {
+    derived = z.array(withValidationMode(schema.element, mode));
+  } else if (schema instanceof z.ZodOptional) {
+    derived = withValidationMode(schema.unwrap(), mode).optional();
+  } else if (schema instanceof z.ZodNullable) {
+    derived = withValidationMode(schema.unwrap(), mode).nullable();
+  }
+
+  cache.set(schema, derived);
+  return derived as T;
+}
+
 /**
  * Strip markdown code fences that LLMs commonly wrap JSON in.
  *
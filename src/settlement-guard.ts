@@ -4,6 +4,8 @@ import type {
   SettlementGuardResult,
 } from './types.js';
 import { SettlementDecisionSchema } from './schemas.js';
+import type { Money } from './money.js';
+import { TOKEN_DECIMALS, compareMoney, formatMoney, parseMoney, rescale, sameCurrency } from './money.js';
 
 // ---------------------------------------------------------------------------
 // Heuristic rules (no LLM needed)
@@ -19,21 +21,46 @@ const KNOWN_BAD_ADDRESSES = new Set<string>([
 const HEURISTIC_THRESHOLDS = {
   /** Reputation score below this is considered high-risk */
   lowReputation: 0.3,
-  /** Amount (in USD-equivalent) above which extra scrutiny applies */
-  highValueUsd: 500,
+  /** Decimal value above which a USD or stablecoin transaction is high-value */
+  highValue: 500,
 } as const;
 
+/** Amounts above which extra scrutiny applies, per supported token */
+const DEFAULT_HIGH_VALUE_THRESHOLDS: readonly Money[] = ['USD', 'USDC', 'USDT'].map((token) => (
+  rescale({ units: BigInt(HEURISTIC_THRESHOLDS.highValue), token, decimals: 0 }, TOKEN_DECIMALS[token])
+));
+
+/**
+ * Threshold `amount` is checked against: one for its token, else one for
+ * its currency (stablecoins count as USD). `undefined` when there is
+ * none, since a value in another token says nothing about its worth.
+ */
+function highValueThreshold(amount: Money, thresholds: readonly Money[]): Money | undefined {
+  return thresholds.find((t) => t.token.toUpperCase() === amount.token.toUpperCase())
+    ?? thresholds.find((t) => sameCurrency(t, amount));
+}
+
+/** Exact amount of a transaction, or `undefined` if it cannot be read. */
+function transactionAmount(meta: TransactionMeta): Money | undefined {
+  try {
+    return typeof meta.amount === 'string' ? parseMoney(meta.amount, { token: meta.currency }) : meta.amount;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Build the system prompt sent to the LLM for settlement analysis.
  */
 function buildSettlementPrompt(meta: TransactionMeta): string {
+  const amount = transactionAmount(meta);
   const parts = [
     `You are Agntor's Settlement Guard, a financial security analyst specializing in blockchain transaction risk assessment.`,
     ``,
     `Analyze the following payment request and determine if it is likely a scam, overpriced, or otherwise high-risk.`,
     ``,
     `## Transaction Details`,
-    `- **Amount:** ${meta.amount} ${meta.currency}`,
+    `- **Amount:** ${amount ? formatMoney(amount, { grouping: true }) : `${String(meta.amount)} ${meta.currency}`}`,
     `- **Recipient address:** ${meta.recipientAddress}`,
     `- **Service description:** "${meta.serviceDescription}"`,
   ];
@@ -76,7 +103,7 @@ function buildSettlementPrompt(meta: TransactionMeta): string {
 // Heuristic-only analysis (no LLM)
 // ---------------------------------------------------------------------------
 
-function heuristicAnalysis(meta: TransactionMeta): {
+function heuristicAnalysis(meta: TransactionMeta, thresholds: readonly Money[]): {
   riskScore: number;
   riskFactors: string[];
 } {
@@ -96,9 +123,13 @@ function heuristicAnalysis(meta: TransactionMeta): {
   }
 
   // 3. High-value transaction
-  const numericAmount = parseFloat(meta.amount.replace(/[^0-9.]/g, ''));
-  if (!Number.isNaN(numericAmount) && numericAmount > HEURISTIC_THRESHOLDS.highValueUsd) {
-    factors.push(`Transaction amount ($${numericAmount}) exceeds high-value threshold ($${HEURISTIC_THRESHOLDS.highValueUsd})`);
+  const amount = transactionAmount(meta);
+  const threshold = amount && highValueThreshold(amount, thresholds);
+  if (amount && threshold && compareMoney(amount, threshold) > 0) {
+    factors.push(`Transaction amount (${formatMoney(amount, { grouping: true })}) exceeds high-value threshold (${formatMoney(threshold, { grouping: true })})`);
+    score += 0.15;
+  } else if (amount && !threshold) {
+    factors.push(`No high-value threshold for ${amount.token}; the amount (${formatMoney(amount, { grouping: true })}) was not checked`);
     score += 0.15;
   }
 
@@ -114,6 +145,12 @@ function heuristicAnalysis(meta: TransactionMeta): {
     score += 0.5;
   }
 
+  // 6. Unreadable amount
+  if (!amount) {
+    factors.push(`Transaction amount "${String(meta.amount)}" is not a valid ${meta.currency} amount`);
+    score += 0.15;
+  }
+
   return { riskScore: Math.min(score, 1), riskFactors: factors };
 }
 
@@ -143,6 +180,13 @@ export interface SettlementGuardOptions {
    * Use this to log or monitor provider issues.
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Amounts above which a transaction is flagged as high-value, one per
+   * token, checked before the defaults (500 USD, USDC, and USDT). An
+   * amount in a token without a threshold is flagged as unchecked.
+   */
+  highValueThresholds?: Money[];
 }
 
 /**
@@ -177,7 +221,10 @@ export async function settlementGuard(
   options?: SettlementGuardOptions,
 ): Promise<SettlementGuardResult> {
   // ----- Heuristic pass (always runs) -----
-  const { riskScore: heuristicScore, riskFactors } = heuristicAnalysis(meta);
+  const { riskScore: heuristicScore, riskFactors } = heuristicAnalysis(
+    meta,
+    [...(options?.highValueThresholds ?? []), ...DEFAULT_HIGH_VALUE_THRESHOLDS],
+  );
 
   // Fast-path block if heuristics alone are conclusive
   if (heuristicScore >= 0.7) {
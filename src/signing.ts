@@ -0,0 +1,253 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/** Header names used by Agntor request signing */
+export const SIGNATURE_HEADERS = {
+  keyId: 'x-agntor-key-id',
+  timestamp: 'x-agntor-timestamp',
+  nonce: 'x-agntor-nonce',
+  contentSha256: 'x-agntor-content-sha256',
+  signature: 'x-agntor-signature',
+} as const;
+
+/** Request headers covered by the signature, so a signed request can't be redirected to another agent or chain */
+export const SIGNED_HEADERS = ['x-agent-id', 'x-chain'] as const;
+
+const DEFAULT_CLOCK_SKEW = 300; // seconds
+
+/**
+ * Client-side signing settings (`AgntorConfig.signing`).
+ *
+ * When set, the API key is used as the HMAC secret and is no longer
+ * sent in the `x-api-key` header.
+ */
+export interface RequestSigningOptions {
+  /** Public identifier of the API key, sent in `x-agntor-key-id` */
+  keyId: string;
+}
+
+/**
+ * Input for `signRequest`.
+ */
+export interface SignRequestParams {
+  /** HTTP method */
+  method: string;
+  /** Request path including any query string (e.g. "/api/v1/escrow/create") */
+  path: string;
+  /** Raw request body as sent on the wire (empty for none) */
+  body?: string;
+  /** Request headers; those in `SIGNED_HEADERS` are covered by the signature */
+  headers?: Record<string, string>;
+  /** Public key identifier sent alongside the signature */
+  keyId: string;
+  /** Shared HMAC secret — never sent */
+  secret: string;
+  /** Unix time in seconds (default: now) */
+  timestamp?: number;
+  /** Unique per-request value (default: random) */
+  nonce?: string;
+}
+
+/**
+ * Incoming request as seen by `RequestVerifier`.
+ */
+export interface SignedRequest {
+  method: string;
+  /** Path including query string, exactly as received */
+  path: string;
+  /** Request headers (a `Headers` instance or a plain object; names are case-insensitive) */
+  headers: Headers | Record<string, string | string[] | undefined>;
+  /** Raw request body (empty for none) */
+  body?: string;
+}
+
+/**
+ * Store used to reject replayed nonces.
+ */
+export interface NonceStore {
+  /**
+   * Record `nonce` until `expiresAt` (ms since epoch). Returns `false`
+   * if the nonce was already recorded and has not yet expired.
+   */
+  add(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+/**
+ * Configuration for `RequestVerifier`.
+ */
+export interface RequestVerifierConfig {
+  /** Secrets by key ID, or a lookup function (return `undefined` for unknown keys) */
+  keys: Record<string, string> | ((keyId: string) => string | undefined | Promise<string | undefined>);
+  /** Allowed clock difference in seconds (default: 300) */
+  clockSkew?: number;
+  /** Nonce store for replay protection (default: in-memory) */
+  nonceStore?: NonceStore;
+  /** Clock, in ms since epoch (default: `Date.now`) */
+  now?: () => number;
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  keyId?: string;
+  error?: string;
+  errorCode?: 'MISSING_HEADERS' | 'UNKNOWN_KEY' | 'CLOCK_SKEW' | 'BODY_MISMATCH' | 'INVALID_SIGNATURE' | 'REPLAYED_NONCE';
+}
+
+function sha256Hex(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Canonical string covered by the signature, newline-separated: method,
+ * path, query string (sorted by name), timestamp, nonce, each of
+ * `SIGNED_HEADERS` as `name:value`, and body hash.
+ */
+export function canonicalRequest(
+  method: string,
+  path: string,
+  timestamp: string,
+  nonce: string,
+  contentSha256: string,
+  headers: SignedRequest['headers'] = {},
+): string {
+  const [pathname, search = ''] = path.split(/\?(.*)/s);
+  const query = new URLSearchParams(search);
+  query.sort();
+  return [
+    method.toUpperCase(),
+    pathname,
+    query.toString(),
+    timestamp,
+    nonce,
+    ...SIGNED_HEADERS.map((name) => `${name}:${headerValue(headers, name) ?? ''}`),
+    contentSha256,
+  ].join('\n');
+}
+
+/**
+ * Sign a request with HMAC-SHA256.
+ *
+ * Returns the headers to attach. The secret itself is never included —
+ * only the key ID and the signature over the canonical request.
+ */
+export function signRequest(params: SignRequestParams): Record<string, string> {
+  const timestamp = String(params.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = params.nonce ?? randomBytes(16).toString('hex');
+  const contentSha256 = sha256Hex(params.body ?? '');
+
+  const signature = createHmac('sha256', params.secret)
+    .update(canonicalRequest(params.method, params.path, timestamp, nonce, contentSha256, params.headers))
+    .digest('hex');
+
+  return {
+    [SIGNATURE_HEADERS.keyId]: params.keyId,
+    [SIGNATURE_HEADERS.timestamp]: timestamp,
+    [SIGNATURE_HEADERS.nonce]: nonce,
+    [SIGNATURE_HEADERS.contentSha256]: contentSha256,
+    [SIGNATURE_HEADERS.signature]: signature,
+  };
+}
+
+/**
+ * In-memory nonce store. Suitable for a single process; use a shared
+ * store (e.g. Redis `SET NX PX`) when running several instances.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly nonces = new Map<string, number>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  add(nonce: string, expiresAt: number): boolean {
+    const now = this.now();
+    for (const [n, exp] of this.nonces) {
+      if (exp <= now) this.nonces.delete(n);
+    }
+    if (this.nonces.has(nonce)) return false;
+    this.nonces.set(nonce, expiresAt);
+    return true;
+  }
+}
+
+function headerValue(headers: SignedRequest['headers'], name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  for (const [key, value] of Object.entries(headers as Record<string, string | string[] | undefined>)) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Server-side verifier for Agntor-signed requests.
+ *
+ * Checks the body hash, the HMAC signature (constant-time; it covers
+ * the query string and the agent and chain headers), the timestamp
+ * against the allowed clock skew, and rejects nonces that were already
+ * seen within the skew window.
+ *
+ * @example
+ * ```ts
+ * const verifier = new RequestVerifier({ keys: { key_123: process.env.AGNTOR_SECRET! } });
+ * const result = await verifier.verify({ method: req.method, path: req.url, headers: req.headers, body: rawBody });
+ * if (!result.valid) return res.status(401).json({ error: result.error });
+ * ```
+ */
+export class RequestVerifier {
+  private readonly clockSkew: number;
+  private readonly nonceStore: NonceStore;
+  private readonly now: () => number;
+
+  constructor(private readonly config: RequestVerifierConfig) {
+    this.clockSkew = config.clockSkew ?? DEFAULT_CLOCK_SKEW;
+    this.now = config.now ?? Date.now;
+    this.nonceStore = config.nonceStore ?? new MemoryNonceStore(this.now);
+  }
+
+  async verify(request: SignedRequest): Promise<SignatureVerificationResult> {
+    const keyId = headerValue(request.headers, SIGNATURE_HEADERS.keyId);
+    const timestamp = headerValue(request.headers, SIGNATURE_HEADERS.timestamp);
+    const nonce = headerValue(request.headers, SIGNATURE_HEADERS.nonce);
+    const contentSha256 = headerValue(request.headers, SIGNATURE_HEADERS.contentSha256);
+    const signature = headerValue(request.headers, SIGNATURE_HEADERS.signature);
+
+    if (!keyId || !timestamp || !nonce || !contentSha256 || !signature) {
+      return { valid: false, error: 'Missing signature headers', errorCode: 'MISSING_HEADERS' };
+    }
+
+    const secret = typeof this.config.keys === 'function'
+      ? await this.config.keys(keyId)
+      : Object.prototype.hasOwnProperty.call(this.config.keys, keyId) ? this.config.keys[keyId] : undefined;
+    if (!secret) {
+      return { valid: false, keyId, error: `Unknown key ID "${keyId}"`, errorCode: 'UNKNOWN_KEY' };
+    }
+
+    const nowSeconds = Math.floor(this.now() / 1000);
+    const signedAt = Number(timestamp);
+    if (!/^\d+$/.test(timestamp) || Math.abs(nowSeconds - signedAt) > this.clockSkew) {
+      return { valid: false, keyId, error: 'Request timestamp outside allowed clock skew', errorCode: 'CLOCK_SKEW' };
+    }
+
+    if (sha256Hex(request.body ?? '') !== contentSha256) {
+      return { valid: false, keyId, error: 'Body does not match content hash', errorCode: 'BODY_MISMATCH' };
+    }
+
+    const expected = createHmac('sha256', secret)
+      .update(canonicalRequest(request.method, request.path, timestamp, nonce, contentSha256, request.headers))
+      .digest();
+    const provided = Buffer.from(signature, 'hex');
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return { valid: false, keyId, error: 'Signature mismatch', errorCode: 'INVALID_SIGNATURE' };
+    }
+
+    // Only record nonces of otherwise-valid requests, so forged traffic
+    // cannot burn legitimate nonces. Keep them for the full skew window.
+    const accepted = await this.nonceStore.add(nonce, (signedAt + this.clockSkew) * 1000);
+    if (!accepted) {
+      return { valid: false, keyId, error: 'Nonce has already been used', errorCode: 'REPLAYED_NONCE' };
+    }
+
+    return { valid: true, keyId };
+  }
+}
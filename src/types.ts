@@ -1,4 +1,13 @@
 import { z } from 'zod';
+import type { PaymentReceipt, X402Options } from './x402.js';
+import type { ResponseValidationMode } from './schemas.js';
+import type { RequestSigningOptions } from './signing.js';
+import type { EscrowStatus } from './escrow-state.js';
+import type { EscrowConditionInput } from './conditions.js';
+import type { OutboxDeliveredEvent, OutboxFailedEvent, OutboxOptions } from './outbox.js';
+import type { EscrowExpiredEvent, EscrowExpiringEvent, EscrowWatcherOptions } from './escrow-watcher.js';
+import type { Money } from './money.js';
+import type { LookupCacheOptions } from './lookup-cache.js';
 
 // ---------------------------------------------------------------------------
 // Provider types (used by the LLM provider layer in ./providers/)
@@ -55,8 +64,8 @@ export interface ParsedModel {
  * Metadata describing a payment request received during an x402 flow.
  */
 export interface TransactionMeta {
-  /** Amount in human-readable units (e.g. "50 USDC") */
-  amount: string;
+  /** Amount in human-readable units (e.g. "50 USDC", "1,000.50"), or exact `Money` */
+  amount: string | Money;
   /** Token / currency symbol */
   currency: string;
   /** Recipient contract or wallet address */
@@ -110,6 +119,173 @@ export interface AgntorConfig {
 
   /** Maximum automatic retries on transient errors (default: 3) */
   maxRetries?: number;
+
+  /** Backoff, retry eligibility, and circuit-breaker settings */
+  retry?: RetryPolicy;
+
+  /**
+   * Custom `fetch` implementation used for every API call
+   * (default: the global `fetch`). Useful for proxies, tracing, or tests.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Ordered middleware chain applied to every API call made through
+   * `request` and `trustedRequest`.
+   */
+  middleware?: AgntorMiddleware[];
+
+  /** Local replay cache settings for idempotent mutations */
+  idempotency?: IdempotencyOptions;
+
+  /** x402 payment handshake settings for `trustedRequest` */
+  x402?: X402Options;
+
+  /**
+   * Sign every request with an HMAC of the API key instead of sending
+   * the key itself in `x-api-key`.
+   */
+  signing?: RequestSigningOptions;
+
+  /**
+   * Opt-in durable outbox: escrow and settlement mutations that fail
+   * because the API is unreachable are persisted and replayed later.
+   */
+  outbox?: OutboxOptions;
+
+  /**
+   * Opt-in expiry watcher: escrows created through this client are
+   * tracked, with `escrow_expiring` / `escrow_expired` events and a
+   * configurable policy once a deadline passes.
+   */
+  watcher?: EscrowWatcherOptions;
+
+  /**
+   * Opt-in cache for `identity.resolve`, `verify.status`, and
+   * `reputation.get`, invalidated by `verification_changed` and
+   * `reputation_updated` events.
+   */
+  cache?: LookupCacheOptions;
+
+  /**
+   * How module responses are validated (default: "lenient").
+   * `strict` also rejects unknown fields; both modes throw
+   * `INVALID_RESPONSE` on missing or mistyped fields.
+   */
+  responseValidation?: ResponseValidationMode;
+
+  /**
+   * Skip the SSRF guard on API URLs so the client can talk to a local
+   * or in-memory stand-in (see `MockAgntorApi`). Never enable in production.
+   */
+  testMode?: boolean;
+}
+
+/**
+ * Retry behaviour for API calls.
+ *
+ * Only GET requests and mutations carrying an `Idempotency-Key` are
+ * retried. Delays use exponential backoff with full jitter, unless a
+ * 429/503 response supplies `Retry-After`.
+ */
+export interface RetryPolicy {
+  /** Maximum retries per call (default: `AgntorConfig.maxRetries`, else 3) */
+  maxRetries?: number;
+  /** Base backoff delay in ms (default: 200) */
+  baseDelay?: number;
+  /** Upper bound for a single backoff delay in ms (default: 10 000) */
+  maxDelay?: number;
+  /** Give up once this much time has elapsed across all attempts, in ms (default: 60 000) */
+  maxElapsed?: number;
+  /** HTTP statuses treated as transient (default: 408, 429, 500, 502, 503, 504) */
+  retryStatuses?: number[];
+  /** Per-host circuit breaker; `false` disables it */
+  circuitBreaker?: CircuitBreakerOptions | false;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive transient failures before the circuit opens (default: 5) */
+  failureThreshold?: number;
+  /** Time in ms before a probe request is allowed through (default: 30 000) */
+  resetTimeout?: number;
+}
+
+/**
+ * Settings for the local idempotency replay cache.
+ */
+export interface IdempotencyOptions {
+  /** How long a completed result is replayed, in ms (default: 24 h) */
+  ttl?: number;
+  /** Maximum number of cached results (default: 1 000) */
+  maxEntries?: number;
+}
+
+/**
+ * Per-call options accepted by every state-changing module method.
+ */
+export interface MutationOptions {
+  /**
+   * Idempotency key sent as `Idempotency-Key`. Stays the same across
+   * retries; defaults to a random UUID. Re-using a key returns the
+   * original result without sending a second mutation.
+   */
+  idempotencyKey?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Transport middleware
+// ---------------------------------------------------------------------------
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Context passed to `beforeRequest` and `onError` hooks.
+ *
+ * Hooks may mutate `headers` and `body`; the transport reads them back
+ * after the last `beforeRequest` hook has run.
+ */
+export interface AgntorRequestContext {
+  /** API path relative to the base URL (e.g. "/api/v1/escrow/create") */
+  readonly path: string;
+  /** Fully-qualified request URL */
+  readonly url: string;
+  /** HTTP method */
+  readonly method: HttpMethod;
+  /** Zero-based attempt number (incremented on each retry) */
+  readonly attempt: number;
+  /** Outgoing request headers */
+  headers: Record<string, string>;
+  /** Parsed JSON request body, if any */
+  body?: unknown;
+}
+
+/**
+ * Context passed to `afterResponse` hooks.
+ *
+ * Assigning to `data` rewrites the value returned to the caller.
+ */
+export interface AgntorResponseContext extends AgntorRequestContext {
+  /** HTTP status code */
+  readonly status: number;
+  /** Raw fetch response (body already consumed) */
+  readonly response: Response;
+  /** Parsed response body (JSON, or raw text if not JSON) */
+  data: unknown;
+}
+
+/**
+ * A transport middleware. All hooks are optional and run in the order
+ * the middleware appears in `AgntorConfig.middleware`.
+ */
+export interface AgntorMiddleware {
+  /** Optional name, useful for debugging */
+  name?: string;
+  /** Runs before each attempt is sent */
+  beforeRequest?: (ctx: AgntorRequestContext) => void | Promise<void>;
+  /** Runs after each response is received, before status mapping */
+  afterResponse?: (ctx: AgntorResponseContext) => void | Promise<void>;
+  /** Runs when an attempt fails (network error, timeout, or API error) */
+  onError?: (error: Error, ctx: AgntorRequestContext) => void | Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -121,6 +297,8 @@ export type AuditLevel = z.infer<typeof AuditLevel>;
 
 export const AuditConstraints = z.object({
   max_op_value: z.number().positive(),
+  /** Currency of `max_op_value` (default: "USD"; USD stablecoins compare as USD) */
+  max_op_currency: z.string().optional(),
   allowed_mcp_servers: z.array(z.string()),
   kill_switch_active: z.boolean(),
   max_ops_per_hour: z.number().positive().optional(),
@@ -275,32 +453,202 @@ export interface AttestationParams {
 // Escrow module types
 // ---------------------------------------------------------------------------
 
-export interface EscrowCreateParams {
-  counterparty: string;
+/** A plain number, or an exact `Money` amount */
+export type Amount = number | Money;
+
+/**
+ * Token and decimal places of an escrow created with `Money` amounts.
+ */
+export interface EscrowCurrency {
+  token: string;
+  decimals: number;
+}
+
+/**
+ * Params of `escrow.create`. Amounts may be plain numbers or `Money`
+ * (all in one token); `create` sends `Money` as numbers plus exact
+ * `amountUnits` and the escrow `currency`. An escrow pays one
+ * `counterparty`, or is split between `payees`.
+ */
+export type EscrowCreateParams<A extends Amount = Amount> = EscrowCreateFields<A> & (
+  | {
+      /** Agent being paid */
+      counterparty: string;
+      payees?: undefined;
+    }
+  | {
+      /** Defaults to the first payee */
+      counterparty?: string;
+      /** Split the escrow between several agents (not combinable with `milestones`) */
+      payees: PayeeShareParams<A>[];
+    }
+);
+
+/**
+ * Fields of `EscrowCreateParams` shared by single- and multi-party
+ * escrows.
+ */
+export interface EscrowCreateFields<A extends Amount = Amount> {
+  /** Total amount; must equal the sum of `milestones` when they are given */
+  amount: A;
+  /** Free-form text, or machine-checkable conditions (validated and encoded on `create`) */
+  condition: EscrowConditionInput;
+  timeout: number;
+  /** Pay out in stages, each with its own amount, condition, and deadline */
+  milestones?: MilestoneParams<A>[];
+  /** Set from `Money` amounts: amounts are then checked exactly in base units */
+  currency?: EscrowCurrency;
+  /** `amount` in base units of `currency` */
+  amountUnits?: string;
+}
+
+/**
+ * One payee of a multi-party escrow. Give each payee either a fixed
+ * `amount` or a `weight`; what fixed amounts leave over is divided
+ * between weighted payees in proportion to their weights.
+ */
+export interface PayeeShareParams<A extends Amount = Amount> {
+  agentId: string;
+  amount?: A;
+  weight?: number;
+  /** `amount` in base units of the escrow `currency` */
+  amountUnits?: string;
+}
+
+export interface MilestoneParams<A extends Amount = Amount> {
+  /** Caller-chosen ID (default: assigned by the server) */
+  milestoneId?: string;
+  amount: A;
+  /** `amount` in base units of the escrow `currency` */
+  amountUnits?: string;
+  condition: EscrowConditionInput;
+  /** ISO-8601 deadline for this stage */
+  deadline: string;
+}
+
+export type MilestoneStatus = 'pending' | 'released' | 'slashed';
+
+export type PayeeStatus = 'pending' | 'released' | 'slashed';
+
+export interface EscrowPayee {
+  agentId: string;
+  /** This payee's share, with weights already resolved */
+  amount: number;
+  /** Exact share in base units, for escrows with a `currency` */
+  amountUnits?: string;
+  /** The weight the share was derived from, if any */
+  weight?: number;
+  status: PayeeStatus;
+  settledAt?: string;
+}
+
+export interface EscrowMilestone {
+  milestoneId: string;
   amount: number;
+  /** Exact amount in base units, for escrows with a `currency` */
+  amountUnits?: string;
   condition: string;
-  timeout: number;
+  deadline: string;
+  status: MilestoneStatus;
+  settledAt?: string;
+}
+
+/**
+ * How much of an escrow has been paid out, returned, or is still held.
+ */
+export interface EscrowBalance {
+  released: number;
+  slashed: number;
+  remaining: number;
 }
 
 export interface EscrowRecord {
   escrowId: string;
-  status: string;
+  status: EscrowStatus;
   amount: number;
+  /** Token of an escrow created with `Money` amounts (see `escrowMoney`) */
+  currency?: EscrowCurrency;
+  /** Exact amount in base units of `currency` */
+  amountUnits?: string;
   counterparty: string;
   condition: string;
   timeout: number;
   createdAt?: string;
+  /** Stages of a milestone escrow */
+  milestones?: EscrowMilestone[];
+  /** Per-stage or per-payee balances of a milestone or multi-party escrow */
+  balance?: EscrowBalance;
+  /** Payees of a multi-party escrow */
+  payees?: EscrowPayee[];
 }
 
 // ---------------------------------------------------------------------------
 // Settlement module types
 // ---------------------------------------------------------------------------
 
+export interface PayeeOutcome {
+  agentId: string;
+  outcome: 'released' | 'slashed';
+  amount: number;
+}
+
 export interface SettlementResult {
   escrowId: string;
   outcome: string;
+  /** Set when a single milestone was settled */
+  milestoneId?: string;
+  /** Set when a single payee of a multi-party escrow was settled */
+  payee?: string;
+  /** Outcome for each payee settled by this call */
+  payees?: PayeeOutcome[];
+  /** Amount paid out or returned by this settlement */
+  amount?: number;
   proof?: string;
   settledAt?: string;
+  /** Signed settlement receipt (JWS); check it offline with `verifyReceipt` */
+  receipt?: string;
+}
+
+export type DisputeStatus = 'open' | 'resolved';
+
+/**
+ * An arbitrator's ruling: pay the counterparty in full (`released`),
+ * return everything to the payer (`slashed`), or split the held amount.
+ */
+export type ArbitrationOutcome =
+  | { ruling: 'released'; rationale?: string }
+  | { ruling: 'slashed'; rationale?: string }
+  | {
+      ruling: 'split';
+      /** Paid to the counterparty */
+      released: number;
+      /** Returned to the payer */
+      slashed: number;
+      rationale?: string;
+    };
+
+export interface DisputeEvidence {
+  evidenceId: string;
+  /** Agent that submitted it */
+  submittedBy: string;
+  /** Opaque proof or an encoded `EvidenceBundle` */
+  evidence: string;
+  submittedAt: string;
+}
+
+export interface DisputeRecord {
+  disputeId: string;
+  escrowId: string;
+  status: DisputeStatus;
+  /** Agent that opened the dispute */
+  openedBy: string;
+  reason: string;
+  /** Evidence from both parties, oldest first */
+  evidence: DisputeEvidence[];
+  openedAt: string;
+  resolvedAt?: string;
+  /** Set once resolved */
+  outcome?: ArbitrationOutcome;
 }
 
 // ---------------------------------------------------------------------------
@@ -315,38 +663,131 @@ export interface ReputationScore {
   counterpartiesCount: number;
 }
 
+/**
+ * Kinds of reputation history entries. Settlements carry `escrowId`,
+ * `amount`, `counterparty` (the payer), and `milestoneId` in `details`.
+ */
+export type ReputationEventKind = 'escrow_released' | 'escrow_slashed';
+
 export interface ReputationHistoryEntry {
   timestamp: string;
-  event: string;
+  /** What happened; kinds added by newer API versions are kept as-is */
+  event: ReputationEventKind | (string & {});
   details?: Record<string, unknown>;
 }
 
+// ---------------------------------------------------------------------------
+// Batch lookups
+// ---------------------------------------------------------------------------
+
+/**
+ * Why one agent of a batch request failed.
+ */
+export interface BatchItemError {
+  /** HTTP status the single-agent request would have returned */
+  status: number;
+  message: string;
+}
+
+/**
+ * Response of a batch lookup endpoint: one entry per requested agent,
+ * carrying either `data` or an `error`.
+ */
+export interface BatchLookupResponse<T> {
+  results: Array<{ agentId: string; data?: T; error?: BatchItemError }>;
+}
+
 // ---------------------------------------------------------------------------
 // Events
 // ---------------------------------------------------------------------------
 
-export type AgntorEvent =
-  | 'escrow_created'
-  | 'escrow_funded'
-  | 'escrow_settled'
-  | 'escrow_cancelled'
-  | 'verification_changed'
-  | 'reputation_updated';
+/**
+ * Payload type of each SDK event.
+ */
+export interface AgntorEventMap {
+  escrow_created: EscrowRecord;
+  escrow_funded: EscrowRecord;
+  escrow_settled: SettlementResult;
+  escrow_cancelled: EscrowRecord;
+  /** A watched escrow is nearing its deadline */
+  escrow_expiring: EscrowExpiringEvent;
+  /** A watched escrow passed its deadline and the expiry policy ran */
+  escrow_expired: EscrowExpiredEvent;
+  /** A party contested an escrow; it is now `disputed` */
+  dispute_opened: DisputeRecord;
+  /** Arbitration ruled on a dispute */
+  dispute_resolved: DisputeRecord;
+  verification_changed: VerificationStatus;
+  reputation_updated: ReputationScore;
+  /** A queued outbox operation reached the API */
+  outbox_delivered: OutboxDeliveredEvent;
+  /** A queued outbox operation failed permanently and was dropped */
+  outbox_failed: OutboxFailedEvent;
+}
+
+export type AgntorEvent = keyof AgntorEventMap;
+
+/**
+ * Payload of the `error` event: a listener threw or rejected.
+ */
+export interface ListenerErrorEvent {
+  /** Event whose listener failed */
+  event: AgntorEvent;
+  /** Payload that was being delivered */
+  data: unknown;
+  /** What the listener threw (or rejected with) */
+  error: unknown;
+}
+
+/**
+ * Every event `on` / `once` / `off` accept, including `error`.
+ */
+export interface AgntorEmitterEventMap extends AgntorEventMap {
+  error: ListenerErrorEvent;
+}
 
-export type AgntorEventCallback = (data: unknown) => void;
+export type AgntorEventCallback<E extends keyof AgntorEmitterEventMap = AgntorEvent> =
+  (data: AgntorEmitterEventMap[E]) => void | Promise<void>;
+
+/**
+ * Options for `Agntor.events`.
+ */
+export interface EventIteratorOptions {
+  /** Ends the iteration when aborted */
+  signal?: AbortSignal;
+}
 
 // ---------------------------------------------------------------------------
 // SDK Error
 // ---------------------------------------------------------------------------
 
+export interface AgntorErrorOptions {
+  /** Server- or client-suggested delay before retrying, in ms */
+  retryAfterMs?: number;
+  /** Schema issues for `INVALID_RESPONSE` errors */
+  issues?: z.ZodIssue[];
+  /** Outbox entry ID for `OPERATION_QUEUED` errors */
+  outboxId?: string;
+  /** x402 payment already made when the paid request failed, to reconcile, retry, or dispute */
+  receipt?: PaymentReceipt;
+}
+
 export class AgntorError extends Error {
   public readonly code: string;
   public readonly statusCode?: number;
+  public readonly retryAfterMs?: number;
+  public readonly issues?: z.ZodIssue[];
+  public readonly outboxId?: string;
+  public readonly receipt?: PaymentReceipt;
 
-  constructor(message: string, code: string, statusCode?: number) {
+  constructor(message: string, code: string, statusCode?: number, options: AgntorErrorOptions = {}) {
     super(message);
     this.name = 'AgntorError';
     this.code = code;
     this.statusCode = statusCode;
+    this.retryAfterMs = options.retryAfterMs;
+    this.issues = options.issues;
+    this.outboxId = options.outboxId;
+    this.receipt = options.receipt;
   }
 }
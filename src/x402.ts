@@ -0,0 +1,231 @@
+import { z } from 'zod';
+import type { SettlementGuardOptions } from './settlement-guard.js';
+import type { SettlementGuardResult, TransactionMeta } from './types.js';
+import { AgntorError } from './types.js';
+import type { Money } from './money.js';
+import { compareMoney, formatMoney, formatUnits, toMoney } from './money.js';
+
+/**
+ * One acceptable way to pay, as advertised in a 402 response body.
+ */
+export const PaymentRequirementSchema = z.object({
+  scheme: z.string(),
+  network: z.string(),
+  /** Price in the asset's atomic units (e.g. "50000" for 0.05 USDC) */
+  maxAmountRequired: z.string().regex(/^\d+$/, 'must be an integer amount in atomic units'),
+  resource: z.string(),
+  description: z.string().default(''),
+  mimeType: z.string().optional(),
+  payTo: z.string(),
+  asset: z.string(),
+  maxTimeoutSeconds: z.number().optional(),
+  extra: z.record(z.string(), z.unknown()).optional(),
+});
+export type PaymentRequirement = z.infer<typeof PaymentRequirementSchema>;
+
+/**
+ * Body of an x402 `402 Payment Required` response.
+ */
+export const PaymentRequiredSchema = z.object({
+  x402Version: z.number(),
+  accepts: z.array(PaymentRequirementSchema).min(1),
+  error: z.string().optional(),
+});
+export type PaymentRequired = z.infer<typeof PaymentRequiredSchema>;
+
+/**
+ * Proof of payment returned by a `PaymentHandler`.
+ */
+export interface PaymentProof {
+  /** Value sent in the `X-AGNTOR-Proof` header on the paid retry */
+  token: string;
+  /** On-chain transaction hash, if the payment settled on-chain */
+  txHash?: string;
+  /** Paying address */
+  fromAddress?: string;
+}
+
+/**
+ * Wallet integration that pays an x402 requirement.
+ *
+ * Called only after the requirement has passed the configured limits
+ * and `settlementGuard`.
+ */
+export interface PaymentHandler {
+  pay(requirement: PaymentRequirement, context: { path: string; offer: PaymentRequired }): Promise<PaymentProof>;
+}
+
+/**
+ * x402 handshake settings for `trustedRequest`.
+ */
+export interface X402Options {
+  /** Wallet used to pay 402 responses. Without it, the 402 body is returned to the caller. */
+  paymentHandler?: PaymentHandler;
+  /**
+   * Maximum price per request: a number in human-readable units of the
+   * payment asset, or `Money` (requirements in another currency are rejected)
+   */
+  maxPrice?: number | Money;
+  /** Recipient addresses that may be paid (case-insensitive). Unset means any. */
+  allowedRecipients?: string[];
+  /** Options forwarded to `settlementGuard` before paying */
+  guard?: SettlementGuardOptions;
+  /** Counterparty reputation (0–1) passed to `settlementGuard` */
+  reputationScore?: number;
+}
+
+/**
+ * Record of a completed x402 payment.
+ */
+export interface PaymentReceipt {
+  /** API path that required payment */
+  path: string;
+  /** The requirement that was paid */
+  requirement: PaymentRequirement;
+  /** Human-readable amount paid */
+  amount: string;
+  /** Currency symbol or asset address */
+  currency: string;
+  /** Recipient address */
+  recipient: string;
+  /** Proof returned by the payment handler */
+  proof: PaymentProof;
+  /** Settlement guard verdict that allowed the payment */
+  guard: SettlementGuardResult;
+  /** Raw `X-PAYMENT-RESPONSE` header from the paid response, if any */
+  paymentResponse?: string;
+  /** ISO-8601 timestamp of the payment */
+  paidAt: string;
+}
+
+/**
+ * Result of `trustedRequestWithReceipt`.
+ */
+export interface TrustedResponse<T> {
+  data: T;
+  /** Present when the call required (and made) an x402 payment */
+  receipt?: PaymentReceipt;
+}
+
+/**
+ * Parse a 402 response body into typed payment requirements.
+ * Throws `INVALID_PAYMENT_REQUIREMENTS` if the body is not a valid x402 offer.
+ */
+export function parsePaymentRequired(body: unknown): PaymentRequired {
+  const result = PaymentRequiredSchema.safeParse(body);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join('.')}: ${i.message}`)
+      .join('; ');
+    throw new AgntorError(
+      `Invalid x402 payment requirements: ${issues}`,
+      'INVALID_PAYMENT_REQUIREMENTS',
+      402,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Convert an atomic-unit integer string to a decimal string.
+ *
+ * @example formatAtomicAmount('1500000', 6) // "1.5"
+ */
+export function formatAtomicAmount(atomic: string, decimals: number): string {
+  return formatUnits(atomic, decimals);
+}
+
+/** Whether a requirement costs more than `maxPrice`; prices that cannot be compared count as too high. */
+function exceedsMaxPrice(amount: string, currency: string, maxPrice: number | Money): boolean {
+  try {
+    return compareMoney(toMoney(amount, { token: currency }), toMoney(maxPrice, { token: currency })) > 0;
+  } catch (err) {
+    if (err instanceof AgntorError) return true;
+    throw err;
+  }
+}
+
+/**
+ * Human-readable amount and currency for a requirement.
+ *
+ * Uses `extra.decimals` and `extra.name`/`extra.symbol` when the server
+ * provides them; otherwise the atomic amount and asset address are used.
+ */
+export function describeRequirement(requirement: PaymentRequirement): { amount: string; currency: string } {
+  const decimals = requirement.extra?.decimals;
+  const symbol = requirement.extra?.symbol ?? requirement.extra?.name;
+  return {
+    amount: typeof decimals === 'number'
+      ? formatAtomicAmount(requirement.maxAmountRequired, decimals)
+      : requirement.maxAmountRequired,
+    currency: typeof symbol === 'string' ? symbol : requirement.asset,
+  };
+}
+
+/**
+ * Derive the `TransactionMeta` analysed by `settlementGuard`.
+ */
+export function toTransactionMeta(
+  requirement: PaymentRequirement,
+  reputationScore?: number,
+): TransactionMeta & { amount: string } {
+  const { amount, currency } = describeRequirement(requirement);
+  const chainId = Number(requirement.network);
+  return {
+    amount,
+    currency,
+    recipientAddress: requirement.payTo,
+    serviceDescription: requirement.description || requirement.resource,
+    reputationScore,
+    chainId: Number.isInteger(chainId) ? chainId : undefined,
+    additionalContext: `x402 ${requirement.scheme} payment for ${requirement.resource}`,
+  };
+}
+
+/**
+ * Pick the requirement to pay from an x402 offer.
+ *
+ * Requirements on `preferredNetwork` are tried first; the first one that
+ * satisfies the configured price and recipient limits wins. Throws
+ * `PAYMENT_LIMIT_EXCEEDED` or `RECIPIENT_NOT_ALLOWED` if none qualifies.
+ */
+export function selectRequirement(
+  offer: PaymentRequired,
+  limits: Pick<X402Options, 'maxPrice' | 'allowedRecipients'>,
+  preferredNetwork?: string,
+): PaymentRequirement {
+  const ordered = [...offer.accepts].sort(
+    (a, b) => Number(b.network === preferredNetwork) - Number(a.network === preferredNetwork),
+  );
+
+  const allowed = limits.allowedRecipients?.map((r) => r.toLowerCase());
+  let rejection: AgntorError | undefined;
+
+  for (const requirement of ordered) {
+    if (allowed && !allowed.includes(requirement.payTo.toLowerCase())) {
+      rejection ??= new AgntorError(
+        `x402 recipient ${requirement.payTo} is not in the allowed list`,
+        'RECIPIENT_NOT_ALLOWED',
+        402,
+      );
+      continue;
+    }
+
+    if (limits.maxPrice !== undefined) {
+      const { amount, currency } = describeRequirement(requirement);
+      if (exceedsMaxPrice(amount, currency, limits.maxPrice)) {
+        const maxPrice = typeof limits.maxPrice === 'number' ? limits.maxPrice : formatMoney(limits.maxPrice);
+        rejection = new AgntorError(
+          `x402 price ${amount} ${currency} exceeds maxPrice ${maxPrice}`,
+          'PAYMENT_LIMIT_EXCEEDED',
+          402,
+        );
+        continue;
+      }
+    }
+
+    return requirement;
+  }
+
+  throw rejection ?? new AgntorError('No acceptable x402 payment requirement', 'PAYMENT_LIMIT_EXCEEDED', 402);
+}
@@ -0,0 +1,553 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { AgntorError } from '../dist/types.js';
+
+// Documentation-range IP literal: passes the SSRF guard without DNS,
+// and is never contacted because `fetch` is injected.
+const BASE_URL = 'https://203.0.113.10';
+
+const ESCROW = {
+  escrowId: 'e1',
+  status: 'created',
+  amount: 5,
+  counterparty: 'agent://w',
+  condition: 'done',
+  timeout: 60,
+};
+
+const SETTLEMENT = { escrowId: 'e1', outcome: 'released' };
+
+const REPUTATION = {
+  agentId: 'agent://x',
+  successRate: 1,
+  escrowVolume: 10,
+  slashes: 0,
+  counterpartiesCount: 2,
+};
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createClient(fetchImpl, extra = {}) {
+  return new Agntor({
+    apiKey: 'agntor_test_key',
+    agentId: 'agent://tester',
+    chain: 'base',
+    baseUrl: BASE_URL,
+    maxRetries: 0,
+    fetch: fetchImpl,
+    ...extra,
+  });
+}
+
+describe('Agntor transport', () => {
+  describe('custom fetch', () => {
+    it('routes requests through the injected fetch', async () => {
+      const calls = [];
+      const client = createClient(async (url, init) => {
+        calls.push({ url, init });
+        return jsonResponse({ agentId: 'agent://other' });
+      });
+
+      const identity = await client.identity.resolve('agent://other');
+      assert.equal(identity.agentId, 'agent://other');
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].url, `${BASE_URL}/api/v1/identity/agent%3A%2F%2Fother`);
+      assert.equal(calls[0].init.method, 'GET');
+      assert.equal(calls[0].init.headers['x-agent-id'], 'agent://tester');
+    });
+
+    it('maps non-2xx responses to API_ERROR', async () => {
+      const client = createClient(async () => new Response('nope', { status: 404, statusText: 'Not Found' }));
+      await assert.rejects(
+        () => client.identity.me(),
+        (err) => err instanceof AgntorError && err.code === 'API_ERROR' && err.statusCode === 404,
+      );
+    });
+  });
+
+  describe('middleware', () => {
+    it('runs beforeRequest hooks in order and sends mutated headers and body', async () => {
+      const order = [];
+      let sent;
+      const client = createClient(async (_url, init) => {
+        sent = init;
+        return jsonResponse(ESCROW);
+      }, {
+        middleware: [
+          { beforeRequest: (ctx) => { order.push('a'); ctx.headers['x-trace'] = 't-1'; } },
+          { beforeRequest: (ctx) => { order.push('b'); ctx.body = { ...ctx.body, tag: 'x' }; } },
+        ],
+      });
+
+      await client.escrow.create({ counterparty: 'agent://w', amount: 5, condition: 'done', timeout: 60 });
+      assert.deepEqual(order, ['a', 'b']);
+      assert.equal(sent.headers['x-trace'], 't-1');
+      assert.equal(JSON.parse(sent.body).tag, 'x');
+    });
+
+    it('exposes path, method, attempt, and parsed body to hooks', async () => {
+      const seen = [];
+      const client = createClient(async () => jsonResponse({ ...ESCROW, status: 'funded' }), {
+        middleware: [{
+          beforeRequest: (ctx) => seen.push({ path: ctx.path, method: ctx.method, attempt: ctx.attempt }),
+          afterResponse: (ctx) => seen.push({ status: ctx.status, data: ctx.data }),
+        }],
+      });
+
+      await client.escrow.fund('e1');
+      assert.deepEqual(seen[0], { path: '/api/v1/escrow/e1/fund', method: 'POST', attempt: 0 });
+      assert.equal(seen[1].status, 200);
+      assert.deepEqual(seen[1].data, { ...ESCROW, status: 'funded' });
+    });
+
+    it('lets afterResponse rewrite the returned data', async () => {
+      const client = createClient(async () => jsonResponse({ agentId: 'agent://a' }), {
+        middleware: [{ afterResponse: (ctx) => { ctx.data = { ...ctx.data, name: 'rewritten' }; } }],
+      });
+
+      const identity = await client.identity.me();
+      assert.equal(identity.name, 'rewritten');
+    });
+
+    it('reports each failed attempt to onError', async () => {
+      const errors = [];
+      const client = createClient(async () => new Response('boom', { status: 500 }), {
+        maxRetries: 1,
+        middleware: [{ onError: (err, ctx) => errors.push({ code: err.code, attempt: ctx.attempt }) }],
+      });
+
+      await assert.rejects(() => client.reputation.get('agent://x'));
+      assert.deepEqual(errors, [
+        { code: 'API_ERROR', attempt: 0 },
+        { code: 'API_ERROR', attempt: 1 },
+      ]);
+    });
+
+    it('applies to trustedRequest', async () => {
+      const paths = [];
+      const client = createClient(async () => jsonResponse({ price: '1' }, 402), {
+        middleware: [{ beforeRequest: (ctx) => paths.push(ctx.path) }],
+      });
+
+      const body = await client.trustedRequest('/api/v1/paid');
+      assert.deepEqual(body, { price: '1' });
+      assert.deepEqual(paths, ['/api/v1/paid']);
+    });
+  });
+
+  describe('idempotency', () => {
+    it('sends the same Idempotency-Key on every retry', async () => {
+      const keys = [];
+      let n = 0;
+      const client = createClient(async (_url, init) => {
+        keys.push(init.headers['Idempotency-Key']);
+        return ++n < 2 ? new Response('unavailable', { status: 503 }) : jsonResponse(SETTLEMENT);
+      }, { maxRetries: 2 });
+
+      await client.settle.release('e1');
+      assert.equal(keys.length, 2);
+      assert.ok(keys[0]);
+      assert.equal(keys[0], keys[1]);
+    });
+
+    it('uses a caller-supplied key', async () => {
+      let key;
+      const client = createClient(async (_url, init) => {
+        key = init.headers['Idempotency-Key'];
+        return jsonResponse({ ...ESCROW, status: 'cancelled' });
+      });
+
+      await client.escrow.cancel('e1', { idempotencyKey: 'cancel-e1' });
+      assert.equal(key, 'cancel-e1');
+    });
+
+    it('replays a repeated key without a second request or event', async () => {
+      let calls = 0;
+      const events = [];
+      const client = createClient(async () => {
+        calls++;
+        return jsonResponse(ESCROW);
+      });
+      client.on('escrow_created', (data) => events.push(data));
+
+      const params = { counterparty: 'agent://w', amount: 5, condition: 'done', timeout: 60 };
+      const first = await client.escrow.create(params, { idempotencyKey: 'create-1' });
+      const second = await client.escrow.create(params, { idempotencyKey: 'create-1' });
+      assert.equal(calls, 1);
+      assert.equal(events.length, 1);
+      assert.deepEqual(second, first);
+    });
+
+    it('rejects a repeated key with a different body before sending it', async () => {
+      let calls = 0;
+      const client = createClient(async () => {
+        calls++;
+        return jsonResponse(ESCROW);
+      });
+
+      const params = { counterparty: 'agent://w', amount: 5, condition: 'done', timeout: 60 };
+      await client.escrow.create(params, { idempotencyKey: 'create-1' });
+      await assert.rejects(
+        () => client.escrow.create({ ...params, amount: 50 }, { idempotencyKey: 'create-1' }),
+        { code: 'IDEMPOTENCY_KEY_REUSED' },
+      );
+      assert.equal(calls, 1);
+    });
+  });
+
+  describe('retry policy', () => {
+    const fastRetry = { baseDelay: 1, maxDelay: 5 };
+
+    it('retries 429 and honors Retry-After', async () => {
+      const times = [];
+      const client = createClient(async () => {
+        times.push(Date.now());
+        return times.length === 1
+          ? new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } })
+          : jsonResponse(REPUTATION);
+      }, { retry: { ...fastRetry, maxRetries: 2 } });
+
+      const score = await client.reputation.get('agent://x');
+      assert.equal(score.successRate, 1);
+      assert.equal(times.length, 2);
+    });
+
+    it('gives up when Retry-After exceeds the elapsed budget', async () => {
+      let calls = 0;
+      const client = createClient(async () => {
+        calls++;
+        return new Response('busy', { status: 503, headers: { 'Retry-After': '120' } });
+      }, { retry: { ...fastRetry, maxRetries: 3, maxElapsed: 1000 } });
+
+      await assert.rejects(
+        () => client.identity.me(),
+        (err) => err.code === 'API_ERROR' && err.retryAfterMs === 120_000,
+      );
+      assert.equal(calls, 1);
+    });
+
+    it('does not retry POSTs without an idempotency key', async () => {
+      let calls = 0;
+      const client = createClient(async () => {
+        calls++;
+        return new Response('boom', { status: 500 });
+      }, { retry: { ...fastRetry, maxRetries: 3 } });
+
+      await assert.rejects(() => client.queryAgents({ q: 'x' }));
+      assert.equal(calls, 1);
+    });
+
+    it('retries network failures on GET', async () => {
+      let calls = 0;
+      const client = createClient(async () => {
+        if (++calls < 3) throw new TypeError('fetch failed');
+        return jsonResponse({ agentId: 'agent://me' });
+      }, { retry: { ...fastRetry, maxRetries: 3 } });
+
+      const me = await client.identity.me();
+      assert.equal(me.agentId, 'agent://me');
+      assert.equal(calls, 3);
+    });
+
+    it('fails fast with CIRCUIT_OPEN once the host circuit opens', async () => {
+      let calls = 0;
+      const client = createClient(async () => {
+        calls++;
+        return new Response('down', { status: 502 });
+      }, { retry: { ...fastRetry, maxRetries: 0, circuitBreaker: { failureThreshold: 2, resetTimeout: 60_000 } } });
+
+      await assert.rejects(() => client.identity.me());
+      await assert.rejects(() => client.identity.me());
+      await assert.rejects(() => client.identity.me(), (err) => err.code === 'CIRCUIT_OPEN');
+      assert.equal(calls, 2);
+    });
+  });
+
+  describe('x402 handshake', () => {
+    const offer = {
+      x402Version: 1,
+      accepts: [{
+        scheme: 'exact',
+        network: 'base',
+        maxAmountRequired: '50000',
+        resource: '/api/v1/paid',
+        description: 'Premium market data feed',
+        payTo: '0x1234567890abcdef1234567890abcdef12345678',
+        asset: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+        extra: { name: 'USDC', decimals: 6 },
+      }],
+    };
+
+    function paywall() {
+      const proofs = [];
+      const fetchImpl = async (_url, init) => {
+        const proof = init.headers['X-AGNTOR-Proof'];
+        proofs.push(proof);
+        if (proof === 'tx-proof') return jsonResponse({ report: 'ok' });
+        return jsonResponse(offer, 402);
+      };
+      return { proofs, fetchImpl };
+    }
+
+    it('pays through the handler and retries with the proof', async () => {
+      const { proofs, fetchImpl } = paywall();
+      const paid = [];
+      const client = createClient(fetchImpl, {
+        x402: {
+          paymentHandler: {
+            pay: async (requirement) => {
+              paid.push(requirement);
+              return { token: 'tx-proof', txHash: '0xtx' };
+            },
+          },
+        },
+      });
+
+      const { data, receipt } = await client.trustedRequestWithReceipt('/api/v1/paid');
+      assert.deepEqual(data, { report: 'ok' });
+      assert.deepEqual(proofs, [undefined, 'tx-proof']);
+      assert.equal(paid.length, 1);
+      assert.equal(receipt.amount, '0.05');
+      assert.equal(receipt.currency, 'USDC');
+      assert.equal(receipt.proof.txHash, '0xtx');
+      assert.equal(receipt.guard.classification, 'pass');
+    });
+
+    it('returns the 402 body when no handler is configured', async () => {
+      const { fetchImpl } = paywall();
+      const client = createClient(fetchImpl);
+      const body = await client.trustedRequest('/api/v1/paid');
+      assert.deepEqual(body, offer);
+    });
+
+    it('refuses to pay above maxPrice', async () => {
+      const { fetchImpl } = paywall();
+      let paid = false;
+      const client = createClient(fetchImpl, {
+        x402: { maxPrice: 0.01, paymentHandler: { pay: async () => { paid = true; return { token: 'tx-proof' }; } } },
+      });
+
+      await assert.rejects(() => client.trustedRequest('/api/v1/paid'), (err) => err.code === 'PAYMENT_LIMIT_EXCEEDED');
+      assert.equal(paid, false);
+    });
+
+    it('refuses to pay when the settlement guard blocks', async () => {
+      const { fetchImpl } = paywall();
+      let paid = false;
+      const client = createClient(fetchImpl, {
+        x402: {
+          reputationScore: 0.1,
+          guard: { deepScan: true, provider: { classify: async () => ({ classification: 'block', reasoning: 'scam' }) } },
+          paymentHandler: { pay: async () => { paid = true; return { token: 'tx-proof' }; } },
+        },
+      });
+
+      await assert.rejects(() => client.trustedRequest('/api/v1/paid'), (err) => err.code === 'PAYMENT_BLOCKED');
+      assert.equal(paid, false);
+    });
+
+    it('throws PAYMENT_REJECTED when the proof is refused', async () => {
+      const client = createClient(async () => jsonResponse(offer, 402), {
+        x402: { paymentHandler: { pay: async () => ({ token: 'bad' }) } },
+      });
+      await assert.rejects(
+        () => client.trustedRequest('/api/v1/paid'),
+        (err) => err.code === 'PAYMENT_REJECTED' && err.receipt.proof.token === 'bad',
+      );
+    });
+
+    it('keeps the proof when the paid retry fails', async () => {
+      const fetchImpl = async (_url, init) => {
+        if (init.headers['X-AGNTOR-Proof']) return jsonResponse({ error: 'upstream down' }, 503);
+        return jsonResponse(offer, 402);
+      };
+      const client = createClient(fetchImpl, {
+        x402: { paymentHandler: { pay: async () => ({ token: 'tx-proof', txHash: '0xtx' }) } },
+      });
+
+      await assert.rejects(
+        () => client.trustedRequestWithReceipt('/api/v1/paid'),
+        (err) => err.code === 'API_ERROR'
+          && err.statusCode === 503
+          && err.receipt.proof.txHash === '0xtx'
+          && err.receipt.requirement.payTo === offer.accepts[0].payTo
+          && err.receipt.amount === '0.05',
+      );
+
+      const offline = createClient(async (_url, init) => {
+        if (init.headers['X-AGNTOR-Proof']) throw new TypeError('fetch failed');
+        return jsonResponse(offer, 402);
+      }, { x402: { paymentHandler: { pay: async () => ({ token: 'tx-proof' }) } } });
+      await assert.rejects(
+        () => offline.trustedRequest('/api/v1/paid'),
+        (err) => err.code === 'NETWORK_ERROR' && err.receipt.proof.token === 'tx-proof',
+      );
+    });
+  });
+
+  describe('response validation', () => {
+    it('throws INVALID_RESPONSE with zod issues on a mismatched body', async () => {
+      const client = createClient(async () => jsonResponse({ escrowId: 'e1', amount: 'lots' }));
+      await assert.rejects(
+        () => client.escrow.status('e1'),
+        (err) => err instanceof AgntorError
+          && err.code === 'INVALID_RESPONSE'
+          && err.issues.some((i) => i.path[0] === 'amount'),
+      );
+    });
+
+    it('rejects non-JSON bodies such as proxy HTML pages', async () => {
+      const client = createClient(async () => new Response('<html>gateway</html>', { status: 200 }));
+      await assert.rejects(() => client.reputation.get('agent://x'), (err) => err.code === 'INVALID_RESPONSE');
+    });
+
+    it('keeps unknown fields in lenient mode (default)', async () => {
+      const client = createClient(async () => jsonResponse({ ...REPUTATION, tier: 'gold' }));
+      const score = await client.reputation.get('agent://x');
+      assert.equal(score.tier, 'gold');
+    });
+
+    it('rejects unknown fields in strict mode', async () => {
+      const client = createClient(async () => jsonResponse({ ...REPUTATION, tier: 'gold' }), { responseValidation: 'strict' });
+      await assert.rejects(() => client.reputation.get('agent://x'), (err) => err.code === 'INVALID_RESPONSE');
+    });
+
+    it('validates array responses', async () => {
+      const client = createClient(async () => jsonResponse([{ timestamp: '2026-01-01T00:00:00Z', event: 'escrow_released' }, { event: 1 }]));
+      await assert.rejects(
+        () => client.reputation.history('agent://x'),
+        (err) => err.code === 'INVALID_RESPONSE' && err.issues[0].path[0] === 1,
+      );
+    });
+
+    it('does not emit events for invalid mutation responses', async () => {
+      const events = [];
+      const client = createClient(async () => jsonResponse({ ok: true }));
+      client.on('escrow_created', (d) => events.push(d));
+      await assert.rejects(() => client.escrow.create({ counterparty: 'agent://w', amount: 5, condition: 'done', timeout: 60 }));
+      assert.equal(events.length, 0);
+    });
+  });
+});
+
+describe('Agntor events', () => {
+  const PARAMS = { counterparty: 'agent://w', amount: 5, condition: 'done', timeout: 60 };
+
+  function eventClient() {
+    let n = 0;
+    return createClient(async () => jsonResponse({ ...ESCROW, escrowId: `e${++n}` }));
+  }
+
+  it('delivers typed payloads to on() listeners', async () => {
+    const client = eventClient();
+    const seen = [];
+    client.on('escrow_created', (escrow) => seen.push(escrow.escrowId));
+    await client.escrow.create(PARAMS);
+    assert.deepEqual(seen, ['e1']);
+  });
+
+  it('once() fires a single time', async () => {
+    const client = eventClient();
+    let calls = 0;
+    client.once('escrow_created', () => calls++);
+    await client.escrow.create(PARAMS);
+    await client.escrow.create(PARAMS);
+    assert.equal(calls, 1);
+  });
+
+  it('off() removes a once() listener before it fires', async () => {
+    const client = eventClient();
+    let calls = 0;
+    const listener = () => calls++;
+    client.once('escrow_created', listener);
+    client.off('escrow_created', listener);
+    await client.escrow.create(PARAMS);
+    assert.equal(calls, 0);
+  });
+
+  it('a throwing listener does not fail the call and is reported as an error event', async () => {
+    const client = eventClient();
+    const errors = [];
+    const after = [];
+    client.on('error', (e) => errors.push(e));
+    client.on('escrow_created', () => { throw new Error('boom'); });
+    client.on('escrow_created', (escrow) => after.push(escrow.escrowId));
+
+    const escrow = await client.escrow.create(PARAMS);
+    assert.equal(escrow.escrowId, 'e1');
+    assert.deepEqual(after, ['e1']);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].event, 'escrow_created');
+    assert.equal(errors[0].data.escrowId, 'e1');
+    assert.equal(errors[0].error.message, 'boom');
+  });
+
+  it('routes async listener rejections to the error event', async () => {
+    const client = eventClient();
+    const failure = new Promise((resolve) => client.on('error', resolve));
+    client.on('escrow_created', async () => { throw new Error('async boom'); });
+
+    await client.escrow.create(PARAMS);
+    const { event, error } = await failure;
+    assert.equal(event, 'escrow_created');
+    assert.equal(error.message, 'async boom');
+  });
+
+  it('warns instead of throwing when nothing listens for errors', async () => {
+    const client = eventClient();
+    const warning = new Promise((resolve) => process.once('warning', resolve));
+    client.on('escrow_created', () => { throw new Error('unheard'); });
+
+    await client.escrow.create(PARAMS);
+    const w = await warning;
+    assert.equal(w.name, 'AgntorListenerWarning');
+    assert.match(w.message, /unheard/);
+  });
+
+  it('iterates events with for await until the signal aborts', async () => {
+    const client = eventClient();
+    const controller = new AbortController();
+    const ids = [];
+
+    const loop = (async () => {
+      for await (const escrow of client.events('escrow_created', { signal: controller.signal })) {
+        ids.push(escrow.escrowId);
+        if (ids.length === 2) controller.abort();
+      }
+    })();
+
+    await client.escrow.create(PARAMS);
+    await client.escrow.create(PARAMS);
+    await client.escrow.create(PARAMS);
+    await loop;
+    assert.deepEqual(ids, ['e1', 'e2']);
+  });
+
+  it('stops listening when the loop exits early', async () => {
+    const client = eventClient();
+    const ids = [];
+    const loop = (async () => {
+      for await (const escrow of client.events('escrow_created')) {
+        ids.push(escrow.escrowId);
+        break;
+      }
+    })();
+
+    await client.escrow.create(PARAMS);
+    await loop;
+    await client.escrow.create(PARAMS);
+    assert.deepEqual(ids, ['e1']);
+  });
+
+  it('ends immediately for an already-aborted signal', async () => {
+    const client = eventClient();
+    const iterator = client.events('escrow_created', { signal: AbortSignal.abort() });
+    assert.deepEqual(await iterator.next(), { value: undefined, done: true });
+  });
+});
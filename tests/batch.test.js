@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { rankAgents } from '../dist/batch.js';
+import { createClient } from './helpers.js';
+
+/** Two registered candidates with different track records */
+async function marketplace() {
+  const mock = new MockAgntorApi();
+  const client = createClient(mock);
+  for (const [agentId, outcomes] of [['agent://a', ['release', 'slash']], ['agent://b', ['release', 'release']]]) {
+    await createClient(mock, { agentId }).identity.register();
+    for (const settle of outcomes) {
+      const escrow = await client.escrow.create({ counterparty: agentId, amount: 10, condition: 'done', timeout: 60 });
+      await client.escrow.fund(escrow.escrowId);
+      await client.settle[settle](escrow.escrowId);
+    }
+  }
+  mock.requests.length = 0;
+  return { mock, client };
+}
+
+const calls = (mock, method, prefix) => mock.requests.filter((r) => r.method === method && r.path.startsWith(prefix)).length;
+
+describe('reputation.getMany() / verify.statusMany()', () => {
+  it('use the batch endpoint and keep the input order', async () => {
+    const { mock, client } = await marketplace();
+    const results = await client.reputation.getMany(['agent://b', 'agent://a', 'agent://b']);
+
+    assert.deepEqual(results.map((r) => [r.agentId, r.ok, r.value.successRate]), [
+      ['agent://b', true, 1],
+      ['agent://a', true, 0.5],
+      ['agent://b', true, 1],
+    ]);
+    assert.equal(calls(mock, 'POST', '/api/v1/reputation/batch'), 1);
+    assert.equal(calls(mock, 'GET', '/api/v1/reputation/'), 0);
+  });
+
+  it('return per-agent errors without failing the batch', async () => {
+    const { client } = await marketplace();
+    const [known, unknown] = await client.verify.statusMany(['agent://a', 'agent://nobody']);
+
+    assert.equal(known.ok, true);
+    assert.equal(unknown.ok, false);
+    assert.equal(unknown.error.code, 'API_ERROR');
+    assert.equal(unknown.error.statusCode, 404);
+  });
+
+  it('fall back to bounded fan-out when the API has no batch endpoint', async () => {
+    const { mock, client } = await marketplace();
+    mock.injectFault({ method: 'POST', path: '/api/v1/verify/batch', status: 404, times: Infinity });
+    let active = 0;
+    let peak = 0;
+    mock.route('GET', '/api/v1/verify/:agentId', async (_req, p) => {
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+      if (p.agentId === 'agent://nobody') return { status: 404, body: { error: 'Agent not found' } };
+      return { body: { agentId: p.agentId, verified: true } };
+    });
+
+    const ids = ['agent://a', 'agent://b', 'agent://c', 'agent://nobody'];
+    const results = await client.verify.statusMany(ids, { concurrency: 2 });
+    assert.deepEqual(results.map((r) => r.ok), [true, true, true, false]);
+    assert.equal(peak, 2);
+
+    await client.verify.statusMany(ids);
+    assert.equal(calls(mock, 'POST', '/api/v1/verify/batch'), 1, 'missing batch endpoint is remembered');
+  });
+
+  it('serve cached agents from the cache and cache the rest', async () => {
+    const { mock } = await marketplace();
+    const client = createClient(mock, { cache: {} });
+    await client.reputation.get('agent://a');
+
+    await client.reputation.getMany(['agent://a', 'agent://b']);
+    await client.reputation.getMany(['agent://a', 'agent://b']);
+    assert.equal(calls(mock, 'GET', '/api/v1/reputation/'), 2);
+    assert.equal(calls(mock, 'POST', '/api/v1/reputation/batch'), 0, 'a single miss is looked up alone');
+  });
+
+  it('cancel the batch request when the signal aborts', async () => {
+    const { mock, client } = await marketplace();
+    mock.injectFault({ method: 'POST', path: '/api/v1/reputation/batch', latency: 1000, times: 1 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const started = Date.now();
+    const results = await client.reputation.getMany(['agent://a', 'agent://b'], { signal: controller.signal });
+    assert.ok(Date.now() - started < 500);
+    assert.deepEqual(results.map((r) => [r.ok, r.error.code]), [[false, 'ABORTED'], [false, 'ABORTED']]);
+    assert.equal(calls(mock, 'GET', '/api/v1/reputation/'), 0, 'no one-by-one fallback');
+  });
+});
+
+describe('rankAgents()', () => {
+  it('sorts successes by score, best first', async () => {
+    const { client } = await marketplace();
+    const results = await client.reputation.getMany(['agent://a', 'agent://b', 'agent://a']);
+    const ranked = rankAgents(results, (r) => r.successRate);
+
+    assert.deepEqual(ranked.map((r) => [r.rank, r.agentId, r.score]), [[1, 'agent://b', 1], [2, 'agent://a', 0.5]]);
+  });
+
+  it('skips failures and puts non-finite scores last', () => {
+    const ranked = rankAgents([
+      { agentId: 'x', ok: true, value: NaN },
+      { agentId: 'y', ok: false, error: new Error('down') },
+      { agentId: 'z', ok: true, value: 2 },
+    ], (v) => v);
+    assert.deepEqual(ranked.map((r) => r.agentId), ['z', 'x']);
+  });
+});
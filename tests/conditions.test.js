@@ -0,0 +1,214 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import {
+  CONDITION_PREFIX,
+  encodeCondition,
+  parseCondition,
+  evaluateConditions,
+  selectJsonPath,
+  verifyEvidence,
+  decodeEvidence,
+} from '../dist/conditions.js';
+import { checkJsonSchema, validateJsonSchema } from '../dist/json-schema.js';
+import { createClient } from './helpers.js';
+
+const API_KEY = 'agntor_test_key';
+const ARTIFACT = 'model weights v1';
+const ARTIFACT_SHA256 = createHash('sha256').update(ARTIFACT).digest('hex');
+
+/** `fetch` stand-in answering every request with `status` and `body` */
+function fakeFetch(status, body) {
+  const calls = [];
+  const impl = async (url, init) => {
+    calls.push({ url, init });
+    return new Response(body === undefined ? null : JSON.stringify(body), { status });
+  };
+  return Object.assign(impl, { calls });
+}
+
+describe('condition encoding', () => {
+  it('round-trips structured conditions', () => {
+    const conditions = [
+      { type: 'http', url: 'https://api.example.com/health', json: [{ path: '$.status', equals: 'ok' }] },
+      { type: 'artifact_hash', sha256: ARTIFACT_SHA256 },
+    ];
+    const encoded = encodeCondition(conditions);
+    assert.ok(encoded.startsWith(CONDITION_PREFIX));
+    assert.deepEqual(parseCondition(encoded), conditions);
+  });
+
+  it('treats other strings as free-form', () => {
+    assert.equal(parseCondition('api_returns_200'), undefined);
+  });
+
+  it('rejects malformed conditions', () => {
+    const cases = [
+      [],
+      { type: 'http', url: 'ftp://example.com' },
+      { type: 'http', url: 'https://example.com', status: 99 },
+      { type: 'http', url: 'https://example.com', method: 'HEAD', json: [{ path: '$.a' }] },
+      { type: 'http', url: 'https://example.com', json: [{ path: 'a.b' }] },
+      { type: 'deadline', before: 'tomorrow' },
+      { type: 'artifact_hash', sha256: 'abc' },
+      { type: 'output_schema', schema: { type: 'object', oneOf: [] } },
+      { type: 'telepathy' },
+    ];
+    for (const condition of cases) {
+      assert.throws(() => encodeCondition(condition), { code: 'INVALID_CONDITION' });
+    }
+  });
+});
+
+describe('JSON paths and schemas', () => {
+  it('selects dotted, bracketed, and indexed paths', () => {
+    const value = { data: { items: [{ 'file name': 'a.txt' }] } };
+    assert.deepEqual(selectJsonPath(value, "$.data.items[0]['file name']"), { found: true, value: 'a.txt' });
+    assert.deepEqual(selectJsonPath(value, '$.data.items[3]'), { found: false });
+    assert.deepEqual(selectJsonPath(value, '$.data.items.length'), { found: false });
+    assert.deepEqual(selectJsonPath(value, '$'), { found: true, value });
+  });
+
+  it('validates values against the supported subset', () => {
+    const schema = {
+      type: 'object',
+      required: ['score', 'labels'],
+      additionalProperties: false,
+      properties: {
+        score: { type: 'number', minimum: 0, maximum: 1 },
+        labels: { type: 'array', minItems: 1, items: { type: 'string', pattern: '^[a-z]+$' } },
+      },
+    };
+    assert.deepEqual(checkJsonSchema(schema), []);
+    assert.deepEqual(validateJsonSchema({ score: 0.5, labels: ['cat'] }, schema), []);
+    assert.deepEqual(validateJsonSchema({ score: 2, labels: ['Cat'], extra: 1 }, schema), [
+      '/score: greater than 1',
+      '/labels/0: does not match ^[a-z]+$',
+      '/: unexpected property "extra"',
+    ]);
+  });
+
+  it('flags unsupported keywords instead of ignoring them', () => {
+    assert.deepEqual(checkJsonSchema({ type: 'string', format: 'email' }), ['#/format: unsupported keyword']);
+  });
+});
+
+describe('evaluateConditions()', () => {
+  it('checks status and JSON content over HTTP', async () => {
+    const fetch = fakeFetch(200, { status: 'ok', build: { passed: 42 } });
+    const evaluation = await evaluateConditions({
+      type: 'http',
+      url: 'https://ci.example.com/runs/1',
+      json: [{ path: '$.status', equals: 'ok' }, { path: '$.build.passed' }, { path: '$.error', exists: false }],
+    }, { fetch, allowPrivateNetwork: true });
+
+    assert.equal(evaluation.passed, true);
+    assert.deepEqual(evaluation.results[0].observed, { status: 200, values: { '$.status': 'ok', '$.build.passed': 42 } });
+    assert.equal(fetch.calls[0].init.redirect, 'manual');
+  });
+
+  it('reports a failing assertion', async () => {
+    const evaluation = await evaluateConditions(
+      { type: 'http', url: 'https://ci.example.com/runs/1', json: [{ path: '$.status', equals: 'ok' }] },
+      { fetch: fakeFetch(200, { status: 'failed' }), allowPrivateNetwork: true },
+    );
+    assert.equal(evaluation.passed, false);
+    assert.equal(evaluation.results[0].detail, '$.status is "failed", expected "ok"');
+  });
+
+  it('refuses private network URLs', async () => {
+    const fetch = fakeFetch(200, {});
+    const evaluation = await evaluateConditions({ type: 'http', url: 'http://127.0.0.1:8080/health' }, { fetch });
+    assert.equal(evaluation.passed, false);
+    assert.match(evaluation.results[0].detail, /Invalid URL/);
+    assert.equal(fetch.calls.length, 0);
+  });
+
+  it('checks deadlines, artifacts, and output schemas together', async () => {
+    const now = Date.parse('2026-06-01T00:00:00Z');
+    const conditions = [
+      { type: 'deadline', before: '2026-07-01T00:00:00Z' },
+      { type: 'artifact_hash', sha256: ARTIFACT_SHA256 },
+      { type: 'output_schema', schema: { type: 'object', required: ['summary'] } },
+    ];
+
+    const ok = await evaluateConditions(conditions, { now: () => now, artifact: ARTIFACT, output: { summary: 'done' } });
+    assert.equal(ok.passed, true);
+    assert.equal(ok.evaluatedAt, '2026-06-01T00:00:00.000Z');
+
+    const late = await evaluateConditions(conditions, { now: () => Date.parse('2026-08-01T00:00:00Z'), artifact: 'tampered', output: {} });
+    assert.deepEqual(late.results.map((r) => r.passed), [false, false, false]);
+  });
+
+  it('refuses free-form conditions', async () => {
+    await assert.rejects(() => evaluateConditions('api_returns_200'), { code: 'UNSUPPORTED_CONDITION' });
+  });
+});
+
+describe('escrow conditions', () => {
+  const CONDITION = [
+    { type: 'http', url: 'https://api.example.com/health' },
+    { type: 'artifact_hash', sha256: ARTIFACT_SHA256 },
+  ];
+
+  it('validates and encodes conditions on create', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock, { apiKey: API_KEY });
+
+    await assert.rejects(
+      () => client.escrow.create({ counterparty: 'agent://w', amount: 10, condition: { type: 'deadline', before: 'soon' }, timeout: 60 }),
+      (err) => err.code === 'INVALID_CONDITION' && /Escrow condition/.test(err.message),
+    );
+    assert.equal(mock.requests.length, 0);
+
+    const escrow = await client.escrow.create({ counterparty: 'agent://w', amount: 10, condition: CONDITION, timeout: 60 });
+    assert.deepEqual(parseCondition(escrow.condition), CONDITION);
+  });
+
+  it('evaluates an escrow and resolves it with signed evidence', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock, { apiKey: API_KEY });
+    const escrow = await client.escrow.create({ counterparty: 'agent://w', amount: 10, condition: CONDITION, timeout: 60 });
+    await client.escrow.fund(escrow.escrowId);
+
+    const evidence = await client.escrow.evaluate(escrow.escrowId, {
+      fetch: fakeFetch(200),
+      allowPrivateNetwork: true,
+      artifact: ARTIFACT,
+    });
+    assert.equal(evidence.passed, true);
+    assert.equal(evidence.signer, 'agent://payer');
+    assert.equal(evidence.artifactSha256, ARTIFACT_SHA256);
+    assert.equal(verifyEvidence(evidence, API_KEY), true);
+    assert.equal(verifyEvidence({ ...evidence, passed: false }, API_KEY), false);
+    assert.equal(verifyEvidence(evidence, 'other_key'), false);
+
+    const result = await client.settle.resolve(escrow.escrowId, evidence);
+    assert.equal(result.outcome, 'released');
+    const sent = mock.requests.at(-1).body.proof;
+    assert.deepEqual(decodeEvidence(sent), evidence);
+  });
+
+  it('evaluates milestone conditions', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock, { apiKey: API_KEY });
+    const escrow = await client.escrow.create({
+      counterparty: 'agent://w',
+      amount: 10,
+      condition: 'all stages delivered',
+      timeout: 60,
+      milestones: [
+        { milestoneId: 'draft', amount: 4, condition: { type: 'output_schema', schema: { type: 'string' } }, deadline: '2026-12-31T00:00:00Z' },
+        { milestoneId: 'final', amount: 6, condition: 'client approves', deadline: '2026-12-31T00:00:00Z' },
+      ],
+    });
+
+    const evidence = await client.escrow.evaluate(escrow.escrowId, { milestoneId: 'draft', output: 'chapter one' });
+    assert.equal(evidence.passed, true);
+    assert.equal(evidence.milestoneId, 'draft');
+
+    await assert.rejects(() => client.escrow.evaluate(escrow.escrowId), { code: 'UNSUPPORTED_CONDITION' });
+    await assert.rejects(() => client.escrow.evaluate(escrow.escrowId, { milestoneId: 'final' }), { code: 'UNSUPPORTED_CONDITION' });
+  });
+});
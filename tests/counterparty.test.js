@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { counterpartyThresholds } from '../dist/counterparty.js';
+import { createClient } from './helpers.js';
+
+const META = {
+  amount: '50',
+  currency: 'USDC',
+  recipientAddress: '0x1111111111111111111111111111111111111111',
+  serviceDescription: 'Weekly market data analysis',
+};
+
+/** A seller with one escrow settled per entry of `outcomes` */
+async function seller(outcomes, init = { verified: true, auditLevel: 'Gold' }) {
+  const mock = new MockAgntorApi();
+  const client = createClient(mock);
+  mock.seedAgent('agent://seller', init);
+  for (const settle of outcomes) {
+    const escrow = await client.escrow.create({ counterparty: 'agent://seller', amount: 10, condition: 'done', timeout: 60 });
+    await client.escrow.fund(escrow.escrowId);
+    await client.settle[settle](escrow.escrowId);
+  }
+  return { mock, client };
+}
+
+describe('assessCounterparty()', () => {
+  it('allows a verified agent with a good record and a clean transaction', async () => {
+    const { client } = await seller(['release', 'release']);
+    const report = await client.assessCounterparty('agent://seller', META);
+
+    assert.equal(report.decision, 'allow');
+    assert.deepEqual(report.reasons, []);
+    assert.equal(report.identityFound, true);
+    assert.equal(report.verified, true);
+    assert.equal(report.auditLevel, 'Gold');
+    assert.equal(report.reputationScore, 1);
+    assert.equal(report.guard.classification, 'pass');
+    assert.deepEqual(Object.values(report.checks).map((c) => c.status), ['ok', 'ok', 'ok', 'ok']);
+  });
+
+  it('denies an agent without an identity', async () => {
+    const mock = new MockAgntorApi();
+    const report = await createClient(mock).assessCounterparty('agent://ghost');
+
+    assert.equal(report.decision, 'deny');
+    assert.equal(report.identityFound, false);
+    assert.equal(report.reasons[0], 'Identity not found');
+    assert.equal(report.checks.guard.status, 'skipped');
+  });
+
+  it('merges LLM findings into the guard result', async () => {
+    const { client } = await seller(['release']);
+    const provider = { classify: async () => ({ classification: 'block', reasoning: 'Price is far above market' }) };
+    const report = await client.assessCounterparty('agent://seller', META, { guard: { deepScan: true, provider } });
+
+    assert.equal(report.decision, 'review');
+    assert.deepEqual(report.guard.riskFactors, ['LLM flagged as high-risk']);
+    assert.deepEqual(report.reasons, ['Transaction risk score 0.4 is above 0.3']);
+  });
+
+  it('denies a transaction the guard blocks', async () => {
+    const { client } = await seller(['release']);
+    const report = await client.assessCounterparty('agent://seller', {
+      ...META,
+      recipientAddress: '0x0000000000000000000000000000000000000000',
+    });
+
+    assert.equal(report.decision, 'deny');
+    assert.match(report.reasons[0], /^Settlement guard blocked the transaction: .*zero address/);
+  });
+
+  it('reports a check that times out, cancels its request, and asks for review', async () => {
+    const { mock } = await seller(['release']);
+    const aborted = [];
+    const config = mock.clientConfig();
+    const client = new Agntor({
+      apiKey: 'agntor_test_key',
+      agentId: 'agent://buyer',
+      chain: 'base',
+      maxRetries: 0,
+      ...config,
+      fetch: (url, init) => {
+        init.signal?.addEventListener('abort', () => aborted.push(new URL(url).pathname));
+        return config.fetch(url, init);
+      },
+    });
+    mock.injectFault({ method: 'GET', path: /^\/api\/v1\/verify\//, latency: 1000 });
+    const report = await client.assessCounterparty('agent://seller', META, { timeout: 250 });
+
+    assert.equal(report.decision, 'review');
+    assert.equal(report.checks.verification.status, 'timeout');
+    assert.equal(report.checks.identity.status, 'ok');
+    assert.deepEqual(report.reasons, ['verification check timed out']);
+    assert.deepEqual(aborted, ['/api/v1/verify/agent%3A%2F%2Fseller']);
+  });
+
+  it('applies thresholds for the agent\'s audit level', async () => {
+    const { client } = await seller(['release', 'slash']);
+    const thresholds = { default: { minReputation: 0.4 }, Gold: { minReputation: 0.8 } };
+    const report = await client.assessCounterparty('agent://seller', undefined, { thresholds });
+
+    assert.equal(report.decision, 'review');
+    assert.equal(report.thresholds.minReputation, 0.8);
+    assert.deepEqual(report.reasons, ['Reputation 0.5 is below 0.8']);
+
+    const lenient = await client.assessCounterparty('agent://seller', undefined, { thresholds: { Gold: { minReputation: 0.4 } } });
+    assert.equal(lenient.decision, 'allow');
+  });
+
+  it('merges per-level thresholds over the defaults', () => {
+    assert.equal(counterpartyThresholds().requireVerified, true);
+    assert.equal(counterpartyThresholds({ default: { requireVerified: false } }, 'Bronze').requireVerified, false);
+    assert.equal(counterpartyThresholds({ Bronze: { maxRiskScore: 0.5 } }, 'toString').maxRiskScore, 0.3);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { applyArbitration, validateArbitrationOutcome } from '../dist/disputes.js';
+import { decodeEvidence } from '../dist/conditions.js';
+import { createClient } from './helpers.js';
+
+const ESCROW_PARAMS = { counterparty: 'agent://worker', amount: 100, condition: 'report delivered', timeout: 3600 };
+
+async function fundedEscrow(mock) {
+  const payer = createClient(mock);
+  const worker = createClient(mock, { agentId: 'agent://worker' });
+  const escrow = await payer.escrow.create(ESCROW_PARAMS);
+  await payer.escrow.fund(escrow.escrowId);
+  return { payer, worker, escrowId: escrow.escrowId };
+}
+
+describe('arbitration outcomes', () => {
+  const record = { escrowId: 'e1', status: 'disputed', amount: 100, counterparty: 'w', condition: 'c', timeout: 1 };
+
+  it('splits the held amount between the parties', () => {
+    const settled = applyArbitration(record, { ruling: 'split', released: 60, slashed: 40 });
+    assert.equal(settled.status, 'released');
+    assert.deepEqual(settled.balance, { released: 60, slashed: 40, remaining: 0 });
+    assert.equal(applyArbitration(record, { ruling: 'split', released: 0, slashed: 100 }).status, 'slashed');
+    assert.equal(applyArbitration(record, { ruling: 'slashed' }).status, 'slashed');
+  });
+
+  it('rejects splits that do not add up to the held amount', () => {
+    assert.doesNotThrow(() => validateArbitrationOutcome(record, { ruling: 'split', released: 30, slashed: 70 }));
+    assert.throws(() => validateArbitrationOutcome(record, { ruling: 'split', released: 30, slashed: 30 }), { code: 'INVALID_OUTCOME' });
+    assert.throws(() => validateArbitrationOutcome(record, { ruling: 'split', released: 130, slashed: -30 }), { code: 'INVALID_OUTCOME' });
+  });
+});
+
+describe('settle.dispute()', () => {
+  it('opens a dispute and marks the escrow disputed', async () => {
+    const mock = new MockAgntorApi();
+    const { payer, escrowId } = await fundedEscrow(mock);
+    const opened = [];
+    payer.on('dispute_opened', (d) => opened.push(d.reason));
+
+    const dispute = await payer.settle.dispute(escrowId, 'report is incomplete', 'missing section 3');
+    assert.equal(dispute.status, 'open');
+    assert.equal(dispute.openedBy, 'agent://payer');
+    assert.deepEqual(dispute.evidence.map((e) => e.evidence), ['missing section 3']);
+    assert.deepEqual(opened, ['report is incomplete']);
+
+    assert.equal(mock.escrows.get(escrowId).status, 'disputed');
+    assert.deepEqual(payer.escrow.allowedActions(escrowId), ['resolve']);
+    await assert.rejects(() => payer.settle.release(escrowId), { code: 'INVALID_TRANSITION' });
+  });
+
+  it('rejects disputing an unfunded escrow locally', async () => {
+    const mock = new MockAgntorApi();
+    const payer = createClient(mock);
+    const escrow = await payer.escrow.create(ESCROW_PARAMS);
+    const sent = mock.requests.length;
+    await assert.rejects(() => payer.settle.dispute(escrow.escrowId, 'changed my mind'), { code: 'INVALID_TRANSITION' });
+    assert.equal(mock.requests.length, sent);
+  });
+
+  it('only lets the parties take part', async () => {
+    const mock = new MockAgntorApi();
+    const { escrowId } = await fundedEscrow(mock);
+    const stranger = createClient(mock, { agentId: 'agent://stranger' });
+    await assert.rejects(() => stranger.settle.dispute(escrowId, 'meddling'), { statusCode: 403 });
+  });
+});
+
+describe('dispute evidence and arbitration', () => {
+  it('collects evidence from both parties', async () => {
+    const mock = new MockAgntorApi();
+    const { payer, worker, escrowId } = await fundedEscrow(mock);
+    await payer.settle.dispute(escrowId, 'late delivery');
+
+    await worker.settle.submitEvidence(escrowId, 'delivered at 09:58, deadline 10:00');
+    const status = await payer.settle.disputeStatus(escrowId);
+    assert.deepEqual(status.evidence.map((e) => [e.submittedBy, e.evidence]), [
+      ['agent://worker', 'delivered at 09:58, deadline 10:00'],
+    ]);
+  });
+
+  it('accepts signed evidence bundles', async () => {
+    const mock = new MockAgntorApi();
+    const payer = createClient(mock);
+    const worker = createClient(mock, { agentId: 'agent://worker' });
+    const escrow = await payer.escrow.create({
+      ...ESCROW_PARAMS,
+      condition: { type: 'output_schema', schema: { type: 'object', required: ['pages'] } },
+    });
+    await payer.escrow.fund(escrow.escrowId);
+    await payer.settle.dispute(escrow.escrowId, 'wrong format');
+
+    const bundle = await worker.escrow.evaluate(escrow.escrowId, { output: { pages: 12 } });
+    const dispute = await worker.settle.submitEvidence(escrow.escrowId, bundle);
+    assert.deepEqual(decodeEvidence(dispute.evidence[0].evidence), bundle);
+  });
+
+  it('rejects evidence once the dispute is resolved', async () => {
+    const mock = new MockAgntorApi();
+    const { payer, worker, escrowId } = await fundedEscrow(mock);
+    await payer.settle.dispute(escrowId, 'late delivery');
+    mock.resolveDispute(escrowId, { ruling: 'released' });
+    await assert.rejects(() => worker.settle.submitEvidence(escrowId, 'too late'), { statusCode: 409 });
+  });
+
+  it('delivers split rulings to subscribed clients', async () => {
+    const mock = new MockAgntorApi();
+    const { payer, escrowId } = await fundedEscrow(mock);
+    await payer.settle.dispute(escrowId, 'half the work was done');
+
+    const resolved = [];
+    payer.on('dispute_resolved', (d) => resolved.push(d.outcome));
+    const sub = payer.subscribe({ reconnectDelay: 1 });
+    try {
+      const waiting = payer.escrow.waitFor(escrowId, ['released', 'slashed'], { timeout: 2000 });
+      await new Promise((r) => setTimeout(r, 20));
+      mock.resolveDispute(escrowId, { ruling: 'split', released: 50, slashed: 50, rationale: 'partial delivery' });
+
+      const record = await waiting;
+      assert.equal(record.status, 'released');
+      assert.deepEqual(record.balance, { released: 50, slashed: 50, remaining: 0 });
+      assert.deepEqual(resolved, [{ ruling: 'split', released: 50, slashed: 50, rationale: 'partial delivery' }]);
+    } finally {
+      sub.close();
+    }
+
+    const dispute = await payer.settle.disputeStatus(escrowId);
+    assert.equal(dispute.status, 'resolved');
+    const reputation = await payer.reputation.get('agent://worker');
+    assert.equal(reputation.escrowVolume, 50);
+    assert.equal(reputation.successRate, 1);
+  });
+});
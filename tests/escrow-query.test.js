@@ -0,0 +1,196 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { escrowListQuery, lockedAmount, summarizeEscrows, UNSPECIFIED_CURRENCY } from '../dist/escrow-query.js';
+import { createClient } from './helpers.js';
+
+const DAY = 86_400;
+
+/** A mock whose clock can be moved, so escrows get distinct creation times */
+function clockedMock() {
+  let now = Date.parse('2026-01-01T00:00:00Z');
+  const mock = new MockAgntorApi({ now: () => new Date(now) });
+  return { mock, advance: (days) => { now += days * DAY * 1000; } };
+}
+
+async function collect(iterable) {
+  const items = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('escrowListQuery()', () => {
+  it('encodes filters, dates, status lists, and the cursor', () => {
+    const query = new URLSearchParams(escrowListQuery({
+      status: ['funded', 'disputed'],
+      counterparty: 'agent://w',
+      minAmount: 10,
+      createdAfter: new Date('2026-01-01T00:00:00Z'),
+      role: 'payer',
+      pageSize: 5,
+    }, 'abc'));
+    assert.equal(query.get('status'), 'funded,disputed');
+    assert.equal(query.get('counterparty'), 'agent://w');
+    assert.equal(query.get('minAmount'), '10');
+    assert.equal(query.get('createdAfter'), '2026-01-01T00:00:00.000Z');
+    assert.equal(query.get('role'), 'payer');
+    assert.equal(query.get('limit'), '5');
+    assert.equal(query.get('cursor'), 'abc');
+    assert.equal(query.has('maxAmount'), false);
+  });
+});
+
+describe('summarizeEscrows()', () => {
+  const base = { counterparty: 'agent://a', condition: 'c', timeout: 60 };
+
+  it('counts only held value as locked', () => {
+    assert.equal(lockedAmount({ ...base, escrowId: '1', status: 'created', amount: 10 }), 0);
+    assert.equal(lockedAmount({ ...base, escrowId: '2', status: 'funded', amount: 10 }), 10);
+    assert.equal(lockedAmount({ ...base, escrowId: '3', status: 'disputed', amount: 10 }), 10);
+    assert.equal(lockedAmount({ ...base, escrowId: '4', status: 'released', amount: 10 }), 0);
+    assert.equal(lockedAmount({
+      ...base, escrowId: '5', status: 'funded', amount: 10, balance: { released: 4, slashed: 0, remaining: 6 },
+    }), 6);
+  });
+
+  it('totals per status and per counterparty', async () => {
+    const summary = await summarizeEscrows([
+      { ...base, escrowId: '1', status: 'funded', amount: 10 },
+      { ...base, escrowId: '2', status: 'funded', amount: 5, counterparty: 'agent://b' },
+      { ...base, escrowId: '3', status: 'released', amount: 7 },
+      { ...base, escrowId: '4', status: 'created', amount: 3 },
+    ]);
+    assert.equal(summary.count, 4);
+    assert.deepEqual(Object.keys(summary.byCurrency), [UNSPECIFIED_CURRENCY]);
+    const totals = summary.byCurrency[UNSPECIFIED_CURRENCY];
+    assert.equal(totals.totalLocked, 15);
+    assert.deepEqual(totals.byStatus, {
+      funded: { count: 2, amount: 15, locked: 15 },
+      released: { count: 1, amount: 7, locked: 0 },
+      created: { count: 1, amount: 3, locked: 0 },
+    });
+    assert.deepEqual(totals.byCounterparty, {
+      'agent://a': { count: 3, locked: 10 },
+      'agent://b': { count: 1, locked: 5 },
+    });
+  });
+
+  it('keeps currencies apart', async () => {
+    const usdc = { token: 'USDC', decimals: 6 };
+    const summary = await summarizeEscrows([
+      { ...base, escrowId: '1', status: 'funded', amount: 10, currency: usdc },
+      { ...base, escrowId: '2', status: 'funded', amount: 2, currency: { token: 'ETH', decimals: 18 } },
+      { ...base, escrowId: '3', status: 'funded', amount: 4, currency: usdc },
+    ]);
+    assert.equal(summary.count, 3);
+    assert.equal(summary.byCurrency.USDC.totalLocked, 14);
+    assert.equal(summary.byCurrency.ETH.totalLocked, 2);
+    assert.deepEqual(summary.byCurrency.ETH.byCounterparty, { 'agent://a': { count: 1, locked: 2 } });
+  });
+
+  it('splits multi-party escrows by payee share', async () => {
+    const summary = await summarizeEscrows([{
+      ...base,
+      escrowId: '1',
+      status: 'funded',
+      amount: 10,
+      balance: { released: 6, slashed: 0, remaining: 4 },
+      payees: [
+        { agentId: 'agent://a', amount: 6, status: 'released' },
+        { agentId: 'agent://b', amount: 4, status: 'pending' },
+      ],
+    }]);
+    const totals = summary.byCurrency[UNSPECIFIED_CURRENCY];
+    assert.equal(totals.totalLocked, 4);
+    assert.deepEqual(totals.byCounterparty, {
+      'agent://a': { count: 1, locked: 0 },
+      'agent://b': { count: 1, locked: 4 },
+    });
+  });
+});
+
+describe('escrow.list()', () => {
+  async function seed() {
+    const { mock, advance } = clockedMock();
+    const payer = createClient(mock);
+    const worker = createClient(mock, { agentId: 'agent://worker' });
+
+    const a = await payer.escrow.create({ counterparty: 'agent://worker', amount: 10, condition: 'c', timeout: DAY });
+    advance(1);
+    const b = await payer.escrow.create({ counterparty: 'agent://other', amount: 50, condition: 'c', timeout: 30 * DAY });
+    advance(1);
+    const c = await worker.escrow.create({ counterparty: 'agent://payer', amount: 25, condition: 'c', timeout: 2 * DAY });
+    await payer.escrow.fund(a.escrowId);
+    await worker.escrow.fund(c.escrowId);
+    return { mock, payer, worker, ids: { a: a.escrowId, b: b.escrowId, c: c.escrowId } };
+  }
+
+  it('lists escrows the agent is party to, on either side by default', async () => {
+    const { payer, worker, ids } = await seed();
+    assert.deepEqual((await collect(payer.escrow.list())).map((e) => e.escrowId), [ids.a, ids.b, ids.c]);
+    assert.deepEqual((await collect(worker.escrow.list())).map((e) => e.escrowId), [ids.a, ids.c]);
+  });
+
+  it('filters by role, status, counterparty, and amount', async () => {
+    const { payer, ids } = await seed();
+    const listIds = async (filter) => (await collect(payer.escrow.list(filter))).map((e) => e.escrowId);
+
+    assert.deepEqual(await listIds({ role: 'payer' }), [ids.a, ids.b]);
+    assert.deepEqual(await listIds({ role: 'payee' }), [ids.c]);
+    assert.deepEqual(await listIds({ status: 'funded' }), [ids.a, ids.c]);
+    assert.deepEqual(await listIds({ status: ['created', 'cancelled'] }), [ids.b]);
+    assert.deepEqual(await listIds({ counterparty: 'agent://other' }), [ids.b]);
+    assert.deepEqual(await listIds({ minAmount: 20, maxAmount: 30 }), [ids.c]);
+  });
+
+  it('filters by creation and expiry windows', async () => {
+    const { payer, ids } = await seed();
+    const listIds = async (filter) => (await collect(payer.escrow.list(filter))).map((e) => e.escrowId);
+
+    assert.deepEqual(await listIds({ createdAfter: '2026-01-02T00:00:00Z' }), [ids.b, ids.c]);
+    assert.deepEqual(await listIds({ createdBefore: new Date('2026-01-02T00:00:00Z') }), [ids.a]);
+    // a expires Jan 2, c expires Jan 5, b expires Jan 31
+    assert.deepEqual(await listIds({ expiresBefore: '2026-01-10T00:00:00Z' }), [ids.a, ids.c]);
+    assert.deepEqual(await listIds({ expiresAfter: '2026-01-03T00:00:00Z', expiresBefore: '2026-01-10T00:00:00Z' }), [ids.c]);
+  });
+
+  it('follows cursors across pages lazily', async () => {
+    const { mock, payer, ids } = await seed();
+    const before = mock.requests.length;
+
+    const iterator = payer.escrow.list({ pageSize: 2 });
+    assert.equal((await iterator.next()).value.escrowId, ids.a);
+    assert.equal(mock.requests.length, before + 1);
+
+    const rest = await collect(iterator);
+    assert.deepEqual(rest.map((e) => e.escrowId), [ids.b, ids.c]);
+    assert.equal(mock.requests.length, before + 2);
+  });
+
+  it('exposes single pages with listPage', async () => {
+    const { payer, ids } = await seed();
+    const first = await payer.escrow.listPage({ pageSize: 2 });
+    assert.deepEqual(first.escrows.map((e) => e.escrowId), [ids.a, ids.b]);
+    assert.ok(first.nextCursor);
+
+    const second = await payer.escrow.listPage({ pageSize: 2 }, first.nextCursor);
+    assert.deepEqual(second.escrows.map((e) => e.escrowId), [ids.c]);
+    assert.equal(second.nextCursor, undefined);
+  });
+
+  it('summarizes matching escrows', async () => {
+    const { payer } = await seed();
+    const { byCurrency } = await payer.escrow.summary();
+    const totals = byCurrency[UNSPECIFIED_CURRENCY];
+    assert.equal(totals.totalLocked, 35);
+    assert.deepEqual(totals.byCounterparty['agent://worker'], { count: 1, locked: 10 });
+    assert.deepEqual(totals.byStatus.created, { count: 1, amount: 50, locked: 0 });
+  });
+
+  it('teaches the client the state of listed escrows', async () => {
+    const { payer, worker, ids } = await seed();
+    await worker.settle.release(ids.c);
+    await collect(payer.escrow.list());
+    assert.deepEqual(payer.escrow.allowedActions(ids.c), []);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import {
+  ESCROW_STATUSES,
+  ESCROW_TRANSITIONS,
+  allowedEscrowActions,
+  assertEscrowTransition,
+  canTransition,
+  isTerminalStatus,
+} from '../dist/escrow-state.js';
+import { createClient } from './helpers.js';
+
+const ESCROW_PARAMS = { counterparty: 'agent://worker', amount: 40, condition: 'task_complete', timeout: 3600 };
+
+describe('escrow transition table', () => {
+  it('covers every status and only targets known statuses', () => {
+    assert.deepEqual(Object.keys(ESCROW_TRANSITIONS).sort(), [...ESCROW_STATUSES].sort());
+    for (const actions of Object.values(ESCROW_TRANSITIONS)) {
+      for (const targets of Object.values(actions)) {
+        for (const target of targets) assert.ok(ESCROW_STATUSES.includes(target), target);
+      }
+    }
+  });
+
+  it('treats settled, cancelled, and expired escrows as terminal', () => {
+    for (const status of ['released', 'slashed', 'cancelled', 'expired']) {
+      assert.equal(isTerminalStatus(status), true, status);
+    }
+    for (const status of ['created', 'funded', 'disputed']) {
+      assert.equal(isTerminalStatus(status), false, status);
+    }
+  });
+
+  it('reports legal actions per status', () => {
+    assert.deepEqual(allowedEscrowActions({ status: 'created' }), ['fund', 'cancel', 'expire']);
+    assert.deepEqual(allowedEscrowActions({ status: 'disputed' }), ['resolve']);
+    assert.deepEqual(allowedEscrowActions({ status: 'released' }), []);
+    assert.equal(canTransition('funded', 'release'), true);
+    assert.equal(canTransition('created', 'release'), false);
+  });
+
+  it('assertEscrowTransition throws INVALID_TRANSITION with the legal actions', () => {
+    assert.throws(() => assertEscrowTransition({ escrowId: 'e1', status: 'created' }, 'release'), (err) => {
+      assert.equal(err.code, 'INVALID_TRANSITION');
+      assert.match(err.message, /allowed: fund, cancel, expire/);
+      return true;
+    });
+    assert.throws(() => assertEscrowTransition({ escrowId: 'e1', status: 'cancelled' }, 'fund'), /terminal/);
+    assert.doesNotThrow(() => assertEscrowTransition({ escrowId: 'e1', status: 'funded' }, 'slash'));
+  });
+});
+
+describe('EscrowModule local transition checks', () => {
+  it('rejects fund on a cancelled escrow without calling the API', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    await client.escrow.cancel(escrow.escrowId);
+
+    const sent = mock.requests.length;
+    await assert.rejects(() => client.escrow.fund(escrow.escrowId), { code: 'INVALID_TRANSITION' });
+    assert.equal(mock.requests.length, sent);
+  });
+
+  it('rejects release on an unfunded escrow', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    await assert.rejects(() => client.settle.release(escrow.escrowId), { code: 'INVALID_TRANSITION' });
+  });
+
+  it('tracks settlement outcomes', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    await client.escrow.fund(escrow.escrowId);
+    assert.deepEqual(client.escrow.allowedActions(escrow.escrowId), ['release', 'slash', 'resolve', 'dispute', 'cancel', 'expire']);
+
+    await client.settle.slash(escrow.escrowId);
+    assert.deepEqual(client.escrow.allowedActions(escrow.escrowId), []);
+    await assert.rejects(() => client.settle.release(escrow.escrowId), { code: 'INVALID_TRANSITION' });
+  });
+
+  it('learns state from status() and leaves unknown escrows to the server', async () => {
+    const mock = new MockAgntorApi();
+    const payer = createClient(mock);
+    const other = createClient(mock);
+    const escrow = await payer.escrow.create(ESCROW_PARAMS);
+
+    assert.equal(other.escrow.allowedActions(escrow.escrowId), undefined);
+    mock.expireEscrow(escrow.escrowId);
+
+    // Unknown to `other`: the server answers with 409
+    await assert.rejects(() => other.escrow.fund(escrow.escrowId), (err) => err.code === 'API_ERROR' && err.statusCode === 409);
+
+    // Stale for `payer` until it refreshes
+    await payer.escrow.status(escrow.escrowId);
+    assert.deepEqual(payer.escrow.allowedActions(escrow.escrowId), []);
+    await assert.rejects(() => payer.escrow.fund(escrow.escrowId), { code: 'INVALID_TRANSITION' });
+  });
+
+  it('rejects responses with an unknown status', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    mock.route('GET', '/api/v1/escrow/:escrowId', (_req, p) => ({
+      body: { escrowId: p.escrowId, status: 'pending', ...ESCROW_PARAMS },
+    }));
+    await assert.rejects(() => client.escrow.status('e1'), { code: 'INVALID_RESPONSE' });
+  });
+});
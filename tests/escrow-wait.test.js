@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { createClient } from './helpers.js';
+
+const ESCROW_PARAMS = { counterparty: 'agent://worker', amount: 10, condition: 'done', timeout: 3600 };
+
+function statusRequests(mock, escrowId) {
+  return mock.requests.filter((r) => r.method === 'GET' && r.path === `/api/v1/escrow/${escrowId}`).length;
+}
+
+describe('escrow.waitFor()', () => {
+  it('resolves immediately when the escrow already matches', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    const record = await client.escrow.waitFor(escrow.escrowId, 'created');
+    assert.equal(record.status, 'created');
+  });
+
+  it('polls until a remote change matches and emits the event', async () => {
+    const mock = new MockAgntorApi();
+    const payer = createClient(mock);
+    const watcher = createClient(mock, { agentId: 'agent://watcher' });
+    const escrow = await payer.escrow.create(ESCROW_PARAMS);
+
+    const funded = [];
+    watcher.on('escrow_funded', (r) => funded.push(r.status));
+    const waiting = watcher.escrow.waitFor(escrow.escrowId, ['funded', 'released'], { interval: 5 });
+    setTimeout(() => payer.escrow.fund(escrow.escrowId), 20);
+
+    const record = await waiting;
+    assert.equal(record.status, 'funded');
+    assert.deepEqual(funded, ['funded']);
+    assert.ok(statusRequests(mock, escrow.escrowId) >= 2);
+  });
+
+  it('accepts a predicate', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    setTimeout(() => client.escrow.fund(escrow.escrowId), 10);
+    const record = await client.escrow.waitFor(escrow.escrowId, (r) => r.status !== 'created', { interval: 5 });
+    assert.equal(record.status, 'funded');
+  });
+
+  it('does not emit events this client already delivered', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    let funded = 0;
+    client.on('escrow_funded', () => funded++);
+    await client.escrow.fund(escrow.escrowId);
+    await client.escrow.waitFor(escrow.escrowId, 'funded');
+    assert.equal(funded, 1);
+  });
+
+  it('emits the settlement of a remotely settled escrow from its record', async () => {
+    const mock = new MockAgntorApi();
+    const payer = createClient(mock);
+    const watcher = createClient(mock, { agentId: 'agent://watcher' });
+    const escrow = await payer.escrow.create(ESCROW_PARAMS);
+    await payer.escrow.fund(escrow.escrowId);
+    await payer.settle.release(escrow.escrowId);
+
+    const settled = [];
+    watcher.on('escrow_settled', (result) => settled.push(result));
+    await watcher.escrow.waitFor(escrow.escrowId, 'released');
+    assert.deepEqual(settled, [{ escrowId: escrow.escrowId, outcome: 'released', amount: 10 }]);
+  });
+
+  it('fails fast when the escrow ends in another terminal status', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    await client.escrow.cancel(escrow.escrowId);
+    await assert.rejects(() => client.escrow.waitFor(escrow.escrowId, 'funded'), { code: 'ESCROW_TERMINAL' });
+  });
+
+  it('times out', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    await assert.rejects(
+      () => client.escrow.waitFor(escrow.escrowId, 'funded', { timeout: 30, interval: 5 }),
+      { code: 'WAIT_TIMEOUT' },
+    );
+  });
+
+  it('stops when the signal aborts', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(
+      () => client.escrow.waitFor(escrow.escrowId, 'funded', { signal: controller.signal, interval: 5 }),
+      { code: 'ABORTED' },
+    );
+  });
+
+  it('backs off while nothing changes', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    await assert.rejects(
+      () => client.escrow.waitFor(escrow.escrowId, 'funded', { timeout: 150, interval: 10, maxInterval: 1000 }),
+      { code: 'WAIT_TIMEOUT' },
+    );
+    // 10 + 20 + 40 + 80 ms: at most five fetches, not fifteen
+    assert.ok(statusRequests(mock, escrow.escrowId) <= 5);
+  });
+
+  it('prefers pushed events over polling while subscribed', async () => {
+    const mock = new MockAgntorApi();
+    const payer = createClient(mock);
+    const watcher = createClient(mock, { agentId: 'agent://watcher' });
+    const escrow = await payer.escrow.create(ESCROW_PARAMS);
+    await payer.escrow.fund(escrow.escrowId);
+
+    const sub = watcher.subscribe({ reconnectDelay: 1 });
+    try {
+      const waiting = watcher.escrow.waitFor(escrow.escrowId, 'released', { interval: 1, timeout: 2000 });
+      await new Promise((r) => setTimeout(r, 30));
+      await payer.settle.release(escrow.escrowId);
+
+      const record = await waiting;
+      assert.equal(record.status, 'released');
+      // Only the initial fetch: the release arrived over the stream
+      assert.equal(statusRequests(mock, escrow.escrowId), 1);
+    } finally {
+      sub.close();
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { MemoryEscrowWatchStore, expiryAction } from '../dist/escrow-watcher.js';
+import { MemoryOutboxStore } from '../dist/outbox.js';
+import { createClient } from './helpers.js';
+
+const START = Date.parse('2026-03-01T12:00:00Z');
+const ESCROW_PARAMS = { counterparty: 'agent://worker', amount: 40, condition: 'task_complete', timeout: 3600 };
+
+/** Mock API and watcher sharing one clock that tests move by hand */
+function setup({ policy, store = new MemoryEscrowWatchStore() } = {}) {
+  const clock = { now: START };
+  const mock = new MockAgntorApi({ now: () => new Date(clock.now) });
+  const client = watchingClient(mock, clock, { policy, store });
+  const events = [];
+  client.on('escrow_expiring', (e) => events.push(['expiring', e.escrowId, e.remaining]));
+  client.on('escrow_expired', (e) => events.push(['expired', e.escrowId, e.action, e.record?.status ?? e.error.statusCode]));
+  return { clock, mock, client, events };
+}
+
+function watchingClient(mock, clock, watcher) {
+  return createClient(mock, {
+    retry: { circuitBreaker: false },
+    watcher: { interval: 0, warnBefore: 10 * 60_000, now: () => clock.now, ...watcher },
+  });
+}
+
+describe('expiryAction()', () => {
+  it('maps policies to the actions legal for a status', () => {
+    assert.equal(expiryAction('notify', 'funded'), undefined);
+    assert.equal(expiryAction('slash', 'funded'), 'slash');
+    assert.equal(expiryAction('slash', 'created'), 'cancel');
+    assert.equal(expiryAction('cancel', 'funded'), 'cancel');
+    assert.equal(expiryAction('cancel', 'disputed'), undefined);
+  });
+});
+
+describe('EscrowWatcher', () => {
+  it('is not created unless configured', () => {
+    const mock = new MockAgntorApi();
+    const client = new Agntor({ apiKey: 'k', agentId: 'agent://a', chain: 'base', ...mock.clientConfig() });
+    assert.equal(client.watcher, undefined);
+  });
+
+  it('tracks escrows created through the client', async () => {
+    const { client } = setup();
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    assert.deepEqual(await client.watcher.list(), [
+      { escrowId: escrow.escrowId, expiresAt: '2026-03-01T13:00:00.000Z', warned: false },
+    ]);
+  });
+
+  it('warns once ahead of the deadline, then notifies on expiry', async () => {
+    const { clock, client, events } = setup();
+    const { escrowId } = await client.escrow.create(ESCROW_PARAMS);
+
+    await client.watcher.check();
+    assert.deepEqual(events, []);
+
+    clock.now = START + 55 * 60_000;
+    await client.watcher.check();
+    await client.watcher.check();
+    assert.deepEqual(events, [['expiring', escrowId, 5 * 60_000]]);
+
+    clock.now = START + 61 * 60_000;
+    const { expired } = await client.watcher.check();
+    assert.equal(expired[0].policy, 'notify');
+    assert.deepEqual(events.at(-1), ['expired', escrowId, 'none', 'created']);
+    assert.deepEqual(await client.watcher.list(), []);
+  });
+
+  it('cancels expired escrows under the cancel policy', async () => {
+    const { clock, mock, client, events } = setup({ policy: 'cancel' });
+    const { escrowId } = await client.escrow.create(ESCROW_PARAMS);
+    await client.escrow.fund(escrowId);
+
+    clock.now = START + 2 * 3600_000;
+    await client.watcher.check();
+    assert.deepEqual(events.at(-1), ['expired', escrowId, 'cancel', 'cancelled']);
+    assert.equal(mock.escrows.get(escrowId).status, 'cancelled');
+  });
+
+  it('slashes funded escrows and cancels unfunded ones under the slash policy', async () => {
+    const { clock, client, events } = setup({ policy: 'slash' });
+    const funded = await client.escrow.create(ESCROW_PARAMS);
+    await client.escrow.fund(funded.escrowId);
+    const unfunded = await client.escrow.create(ESCROW_PARAMS);
+
+    clock.now = START + 2 * 3600_000;
+    await client.watcher.check();
+    assert.deepEqual(events.filter((e) => e[0] === 'expired'), [
+      ['expired', funded.escrowId, 'slash', 'slashed'],
+      ['expired', unfunded.escrowId, 'cancel', 'cancelled'],
+    ]);
+  });
+
+  it('drops escrows settled before their deadline', async () => {
+    const { clock, client, events } = setup({ policy: 'slash' });
+    const { escrowId } = await client.escrow.create(ESCROW_PARAMS);
+    await client.escrow.fund(escrowId);
+    await client.settle.release(escrowId);
+
+    clock.now = START + 2 * 3600_000;
+    await client.watcher.check();
+    assert.deepEqual(events, []);
+    assert.deepEqual(await client.watcher.list(), []);
+  });
+
+  it('retries on the next check when the API is unreachable', async () => {
+    const { clock, mock, client, events } = setup({ policy: 'cancel' });
+    const { escrowId } = await client.escrow.create(ESCROW_PARAMS);
+
+    clock.now = START + 2 * 3600_000;
+    mock.injectFault({ status: 503, times: 1 });
+    await client.watcher.check();
+    assert.deepEqual(events, []);
+    assert.equal((await client.watcher.list()).length, 1);
+
+    await client.watcher.check();
+    assert.deepEqual(events, [['expired', escrowId, 'cancel', 'cancelled']]);
+  });
+
+  it('stops watching escrows the API no longer finds', async () => {
+    const { clock, mock, client, events } = setup({ policy: 'cancel' });
+    const { escrowId } = await client.escrow.create(ESCROW_PARAMS);
+
+    clock.now = START + 55 * 60_000;
+    mock.injectFault({ method: 'GET', path: `/api/v1/escrow/${escrowId}`, status: 404, times: 1 });
+    const { expired } = await client.watcher.check();
+    assert.equal(expired[0].error.code, 'API_ERROR');
+    assert.deepEqual(events, [['expired', escrowId, 'none', 404]]);
+    assert.deepEqual(await client.watcher.list(), []);
+  });
+
+  it('does not hold the store while a check waits on the API', async () => {
+    const { clock, mock, client, events } = setup({ policy: 'cancel' });
+    const first = await client.escrow.create(ESCROW_PARAMS);
+
+    clock.now = START + 2 * 3600_000;
+    mock.injectFault({ method: 'GET', path: `/api/v1/escrow/${first.escrowId}`, latency: 200, times: 1 });
+    const order = [];
+    const checking = client.watcher.check().then(() => order.push('check'));
+    await new Promise((r) => setTimeout(r, 20));
+    const second = await client.escrow.create(ESCROW_PARAMS);
+    order.push('track');
+    await checking;
+
+    assert.deepEqual(order, ['track', 'check']);
+    assert.deepEqual(events, [['expired', first.escrowId, 'cancel', 'cancelled']]);
+    assert.deepEqual((await client.watcher.list()).map((e) => e.escrowId), [second.escrowId]);
+  });
+
+  it('keeps watching while the expiry action waits in the outbox', async () => {
+    const clock = { now: START };
+    const mock = new MockAgntorApi({ now: () => new Date(clock.now) });
+    const client = createClient(mock, {
+      retry: { circuitBreaker: false },
+      outbox: { store: new MemoryOutboxStore(), flushInterval: 0 },
+      watcher: { interval: 0, policy: 'cancel', store: new MemoryEscrowWatchStore(), now: () => clock.now },
+    });
+    const expired = [];
+    client.on('escrow_expired', (e) => expired.push(e));
+    const { escrowId } = await client.escrow.create(ESCROW_PARAMS);
+
+    clock.now = START + 2 * 3600_000;
+    mock.injectFault({ method: 'POST', path: /\/cancel$/, status: 503, times: 1 });
+    await client.watcher.check();
+    assert.deepEqual(expired, []);
+    assert.equal((await client.watcher.list()).length, 1);
+    assert.equal((await client.outbox.list()).length, 1);
+
+    await client.outbox.flush();
+    await client.watcher.check();
+    assert.equal(mock.escrows.get(escrowId).status, 'cancelled');
+    assert.deepEqual(await client.watcher.list(), []);
+  });
+
+  it('keeps watching across restarts through its store', async () => {
+    const store = new MemoryEscrowWatchStore();
+    const { clock, mock, client } = setup({ policy: 'cancel', store });
+    const { escrowId } = await client.escrow.create(ESCROW_PARAMS);
+
+    const restarted = watchingClient(mock, clock, { policy: 'cancel', store });
+    const expired = [];
+    restarted.on('escrow_expired', (e) => expired.push(e.escrowId));
+    clock.now = START + 2 * 3600_000;
+    await restarted.watcher.check();
+    assert.deepEqual(expired, [escrowId]);
+  });
+});
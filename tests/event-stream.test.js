@@ -0,0 +1,259 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { EventDeduplicator, eventKey, parseServerSentEvents } from '../dist/event-stream.js';
+
+const BASE_URL = 'https://203.0.113.10';
+
+const ESCROW = {
+  escrowId: 'e1',
+  status: 'funded',
+  amount: 5,
+  counterparty: 'agent://w',
+  condition: 'done',
+  timeout: 60,
+};
+
+const reputation = (fields) => JSON.stringify({
+  agentId: 'agent://x', successRate: 1, escrowVolume: 0, slashes: 0, counterpartiesCount: 0, ...fields,
+});
+
+function streamOf(chunks, { keepOpen = false } = {}) {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      if (!keepOpen) controller.close();
+    },
+  });
+}
+
+async function collect(stream) {
+  const out = [];
+  for await (const message of parseServerSentEvents(stream)) out.push(message);
+  return out;
+}
+
+/**
+ * Local SSE stand-in: serves one scripted connection per fetch and
+ * records the request headers of each connection.
+ */
+function sseServer(connections) {
+  const requests = [];
+  const fetchImpl = async (url, init) => {
+    requests.push({ url, headers: init.headers });
+    const next = connections.shift();
+    if (!next) return new Response(streamOf([], { keepOpen: true }), { status: 200 });
+    if (typeof next === 'number') return new Response('err', { status: next });
+    return new Response(streamOf(next), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  };
+  return { requests, fetchImpl };
+}
+
+function createClient(fetchImpl) {
+  return new Agntor({
+    apiKey: 'agntor_test_key',
+    agentId: 'agent://tester',
+    chain: 'base',
+    baseUrl: BASE_URL,
+    maxRetries: 0,
+    fetch: fetchImpl,
+  });
+}
+
+function waitFor(predicate, timeout = 1000) {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (predicate()) return resolve();
+      if (Date.now() - started > timeout) return reject(new Error('waitFor timed out'));
+      setTimeout(tick, 2);
+    };
+    tick();
+  });
+}
+
+describe('parseServerSentEvents()', () => {
+  it('parses id, event, and data fields', async () => {
+    const messages = await collect(streamOf(['id: 1\nevent: escrow_funded\ndata: {"a":1}\n\n']));
+    assert.deepEqual(messages, [{ id: '1', event: 'escrow_funded', data: '{"a":1}', retry: undefined }]);
+  });
+
+  it('joins multi-line data and handles split chunks', async () => {
+    const messages = await collect(streamOf(['data: line1\nda', 'ta: line2\r\n\r\n']));
+    assert.equal(messages[0].data, 'line1\nline2');
+    assert.equal(messages[0].event, 'message');
+  });
+
+  it('ignores comments and reads retry', async () => {
+    const messages = await collect(streamOf([': keep-alive\n\nretry: 2500\ndata: x\n\n']));
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].retry, 2500);
+  });
+});
+
+describe('EventDeduplicator', () => {
+  it('reports repeated keys within the window', () => {
+    const dedup = new EventDeduplicator();
+    assert.equal(dedup.mark('a'), true);
+    assert.equal(dedup.mark('a'), false);
+    assert.equal(dedup.mark(undefined), true);
+    assert.equal(dedup.mark(undefined), true);
+  });
+
+  it('keys escrow events by id and state', () => {
+    assert.equal(eventKey('escrow_funded', ESCROW), 'escrow_funded:e1:funded');
+    assert.equal(eventKey('reputation_updated', { agentId: 'a' }), undefined);
+  });
+});
+
+describe('Agntor.subscribe()', () => {
+  it('feeds remote events into the emitter', async () => {
+    const { fetchImpl, requests } = sseServer([[
+      `id: 1\nevent: reputation_updated\ndata: ${reputation({ successRate: 0.9 })}\n\n`,
+      `id: 2\nevent: verification_changed\ndata: {"agentId":"agent://x","verified":true}\n\n`,
+    ]]);
+    const client = createClient(fetchImpl);
+    const received = [];
+    client.on('reputation_updated', (d) => received.push(['reputation_updated', d]));
+    client.on('verification_changed', (d) => received.push(['verification_changed', d]));
+
+    const sub = client.subscribe({ reconnectDelay: 1 });
+    await waitFor(() => received.length === 2);
+    sub.close();
+
+    assert.equal(received[0][1].successRate, 0.9);
+    assert.equal(received[1][1].verified, true);
+    assert.equal(requests[0].url, `${BASE_URL}/api/v1/events/stream`);
+    assert.equal(requests[0].headers.Accept, 'text/event-stream');
+    assert.equal(sub.lastEventId, '2');
+    assert.equal(sub.closed, true);
+  });
+
+  it('reconnects with Last-Event-ID and skips replayed events', async () => {
+    const event = (id) => `id: ${id}\nevent: reputation_updated\ndata: ${reputation({ n: id })}\n\n`;
+    const { fetchImpl, requests } = sseServer([[event(1)], 503, [event(1), event(2)]]);
+    const client = createClient(fetchImpl);
+    const received = [];
+    const errors = [];
+    client.on('reputation_updated', (d) => received.push(d.n));
+
+    const sub = client.subscribe({ reconnectDelay: 1, onError: (e) => errors.push(e) });
+    await waitFor(() => received.length === 2);
+    sub.close();
+
+    assert.deepEqual(received, [1, 2]);
+    assert.equal(requests[1].headers['Last-Event-ID'], '1');
+    assert.equal(requests[2].headers['Last-Event-ID'], '1');
+    assert.equal(errors[0].code, 'STREAM_ERROR');
+  });
+
+  it('does not redeliver an escrow change already emitted locally', async () => {
+    let streamed = false;
+    const fetchImpl = async (url) => {
+      if (url.endsWith('/fund')) return new Response(JSON.stringify(ESCROW), { status: 200 });
+      if (streamed) return new Response(streamOf([], { keepOpen: true }), { status: 200 });
+      streamed = true;
+      return new Response(streamOf([`id: 9\nevent: escrow_funded\ndata: ${JSON.stringify(ESCROW)}\n\n`]), { status: 200 });
+    };
+    const client = createClient(fetchImpl);
+    const received = [];
+    client.on('escrow_funded', (d) => received.push(d));
+
+    await client.escrow.fund('e1');
+    const sub = client.subscribe({ reconnectDelay: 1 });
+    await waitFor(() => sub.lastEventId === '9');
+    sub.close();
+
+    assert.equal(received.length, 1);
+  });
+
+  it('stops reconnecting on auth errors', async () => {
+    const { fetchImpl, requests } = sseServer([401]);
+    const client = createClient(fetchImpl);
+    const errors = [];
+    client.subscribe({ reconnectDelay: 1, onError: (e) => errors.push(e) });
+
+    await waitFor(() => errors.length === 1);
+    await new Promise((r) => setTimeout(r, 20));
+    assert.equal(requests.length, 1);
+    assert.equal(errors[0].statusCode, 401);
+  });
+
+  it('only delivers requested events', async () => {
+    const { fetchImpl, requests } = sseServer([[
+      `event: verification_changed\ndata: {"agentId":"a","verified":true}\n\n`,
+      `id: 3\nevent: reputation_updated\ndata: ${reputation()}\n\n`,
+    ]]);
+    const client = createClient(fetchImpl);
+    const received = [];
+    client.on('verification_changed', () => received.push('verification_changed'));
+    client.on('reputation_updated', () => received.push('reputation_updated'));
+
+    const sub = client.subscribe({ events: ['reputation_updated'], reconnectDelay: 1 });
+    await waitFor(() => sub.lastEventId === '3');
+    sub.close();
+
+    assert.deepEqual(received, ['reputation_updated']);
+    assert.match(requests[0].url, /\?events=reputation_updated$/);
+  });
+
+  it('skips payloads that do not match the event schema', async () => {
+    const { fetchImpl } = sseServer([[
+      `id: 1\nevent: reputation_updated\ndata: {"agentId":"agent://x","successRate":"high"}\n\n`,
+      `id: 2\nevent: escrow_funded\ndata: not json\n\n`,
+      `id: 3\nevent: reputation_updated\ndata: ${reputation()}\n\n`,
+    ]]);
+    const client = createClient(fetchImpl);
+    const received = [];
+    const errors = [];
+    client.on('reputation_updated', (d) => received.push(d));
+    client.on('escrow_funded', (d) => received.push(d));
+
+    const sub = client.subscribe({ reconnectDelay: 1, onError: (e) => errors.push(e) });
+    await waitFor(() => sub.lastEventId === '3');
+    sub.close();
+
+    assert.equal(received.length, 1);
+    assert.deepEqual(errors.map((e) => e.code), ['INVALID_EVENT', 'INVALID_EVENT']);
+    assert.ok(errors[0].issues.some((i) => i.path[0] === 'successRate'));
+  });
+
+  it('keeps streaming when onError throws', async () => {
+    const { fetchImpl, requests } = sseServer([503, [`id: 1\nevent: reputation_updated\ndata: ${reputation()}\n\n`]]);
+    const client = createClient(fetchImpl);
+    const warnings = [];
+    const onWarning = (w) => warnings.push(w.name);
+    process.on('warning', onWarning);
+    const received = [];
+    client.on('reputation_updated', (d) => received.push(d));
+
+    const sub = client.subscribe({ reconnectDelay: 1, onError: () => { throw new Error('boom'); } });
+    await waitFor(() => received.length === 1);
+    sub.close();
+    await new Promise((r) => setImmediate(r));
+    process.off('warning', onWarning);
+
+    assert.equal(requests.length, 2);
+    assert.deepEqual(warnings, ['AgntorListenerWarning']);
+  });
+
+  it('stops reconnecting when the SSRF guard rejects the URL', async () => {
+    const { fetchImpl, requests } = sseServer([]);
+    const client = new Agntor({
+      apiKey: 'agntor_test_key',
+      agentId: 'agent://tester',
+      chain: 'base',
+      baseUrl: 'http://10.0.0.1',
+      fetch: fetchImpl,
+    });
+    const errors = [];
+    client.subscribe({ reconnectDelay: 1, onError: (e) => errors.push(e) });
+
+    await waitFor(() => errors.length === 1);
+    await new Promise((r) => setTimeout(r, 20));
+    assert.equal(requests.length, 0);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].code, 'INVALID_URL');
+  });
+});
@@ -0,0 +1,16 @@
+import { Agntor } from '../dist/agntor.js';
+
+/**
+ * Client for `agent://payer` pointed at a `MockAgntorApi`, without
+ * retries. `config` overrides any of the defaults.
+ */
+export function createClient(mock, config = {}) {
+  return new Agntor({
+    apiKey: 'agntor_test_key',
+    agentId: 'agent://payer',
+    chain: 'base',
+    maxRetries: 0,
+    ...config,
+    ...mock.clientConfig(),
+  });
+}
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IdempotencyCache, createIdempotencyKey } from '../dist/idempotency.js';
+
+describe('createIdempotencyKey()', () => {
+  it('returns unique UUIDs', () => {
+    const a = createIdempotencyKey();
+    const b = createIdempotencyKey();
+    assert.match(a, /^[0-9a-f-]{36}$/);
+    assert.notEqual(a, b);
+  });
+});
+
+describe('IdempotencyCache', () => {
+  it('runs the operation once per key and replays the result', async () => {
+    const cache = new IdempotencyCache();
+    let calls = 0;
+    const fn = async () => ({ escrowId: 'e1', n: ++calls });
+
+    const first = await cache.run('k1', { method: 'POST', path: '/create' }, fn);
+    const second = await cache.run('k1', { method: 'POST', path: '/create' }, fn);
+    assert.equal(calls, 1);
+    assert.deepEqual(second, first);
+  });
+
+  it('coalesces concurrent calls with the same key', async () => {
+    const cache = new IdempotencyCache();
+    let calls = 0;
+    const fn = async () => {
+      calls++;
+      await new Promise((r) => setTimeout(r, 5));
+      return { ok: true };
+    };
+
+    await Promise.all([cache.run('k', { method: 'POST', path: '/a' }, fn), cache.run('k', { method: 'POST', path: '/a' }, fn)]);
+    assert.equal(calls, 1);
+  });
+
+  it('returns isolated copies so callers cannot corrupt replays', async () => {
+    const cache = new IdempotencyCache();
+    const first = await cache.run('k', { method: 'POST', path: '/a' }, async () => ({ status: 'created' }));
+    first.status = 'tampered';
+    const replay = await cache.run('k', { method: 'POST', path: '/a' }, async () => ({ status: 'other' }));
+    assert.equal(replay.status, 'created');
+  });
+
+  it('evicts failed operations so the key can be retried', async () => {
+    const cache = new IdempotencyCache();
+    await assert.rejects(() => cache.run('k', { method: 'POST', path: '/a' }, async () => { throw new Error('down'); }));
+    assert.equal(cache.has('k'), false);
+    const result = await cache.run('k', { method: 'POST', path: '/a' }, async () => 'ok');
+    assert.equal(result, 'ok');
+  });
+
+  it('rejects a key reused for a different operation', async () => {
+    const cache = new IdempotencyCache();
+    await cache.run('k', { method: 'POST', path: '/a' }, async () => 1);
+    await assert.rejects(
+      () => cache.run('k', { method: 'POST', path: '/b' }, async () => 2),
+      (err) => err.code === 'IDEMPOTENCY_KEY_REUSED',
+    );
+  });
+
+  it('rejects a key reused with another method or body', async () => {
+    const cache = new IdempotencyCache();
+    await cache.run('k', { method: 'POST', path: '/a', body: { amount: 5, to: 'w' } }, async () => 1);
+    assert.equal(await cache.run('k', { method: 'post', path: '/a', body: { to: 'w', amount: 5 } }, async () => 2), 1);
+    await assert.rejects(
+      () => cache.run('k', { method: 'PUT', path: '/a', body: { amount: 5, to: 'w' } }, async () => 2),
+      { code: 'IDEMPOTENCY_KEY_REUSED', message: /already used for POST \/a$/ },
+    );
+    await assert.rejects(
+      () => cache.run('k', { method: 'POST', path: '/a', body: { amount: 50, to: 'w' } }, async () => 2),
+      { code: 'IDEMPOTENCY_KEY_REUSED', message: /with a different body/ },
+    );
+  });
+
+  it('expires entries after the ttl', async () => {
+    const cache = new IdempotencyCache(1);
+    await cache.run('k', { method: 'POST', path: '/a' }, async () => 1);
+    await new Promise((r) => setTimeout(r, 5));
+    assert.equal(cache.has('k'), false);
+  });
+
+  it('evicts the oldest entry beyond maxEntries', async () => {
+    const cache = new IdempotencyCache(60_000, 2);
+    await cache.run('a', { method: 'POST', path: '/x' }, async () => 1);
+    await cache.run('b', { method: 'POST', path: '/x' }, async () => 2);
+    await cache.run('c', { method: 'POST', path: '/x' }, async () => 3);
+    assert.equal(cache.has('a'), false);
+    assert.equal(cache.has('c'), true);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
 import { TicketIssuer } from '../dist/issuer.js';
+import { parseMoney } from '../dist/money.js';
 
 const TEST_CONFIG = {
   signingKey: 'test-secret-key-for-testing-only',
@@ -177,6 +178,23 @@ describe('TicketIssuer', () => {
       assert.equal(result.valid, false);
       assert.ok(result.error.includes('payment proof'));
     });
+
+    it('compares stablecoin amounts exactly against the USD limit', async () => {
+      const issuer = new TicketIssuer(TEST_CONFIG);
+      const ticket = issuer.generateTicket({ ...VALID_OPTIONS, constraints: { ...VALID_OPTIONS.constraints, requires_x402_payment: false } });
+      assert.equal((await issuer.validateTransaction(ticket, parseMoney('100 USDC'))).valid, true);
+      const over = await issuer.validateTransaction(ticket, parseMoney('100.000001 USDC'));
+      assert.equal(over.errorCode, 'CONSTRAINT_VIOLATION');
+      assert.equal(over.error, 'Transaction value 100.000001 USDC exceeds limit 100 USD');
+    });
+
+    it('refuses amounts in another currency', async () => {
+      const issuer = new TicketIssuer(TEST_CONFIG);
+      const ticket = issuer.generateTicket({ ...VALID_OPTIONS, constraints: { ...VALID_OPTIONS.constraints, requires_x402_payment: false } });
+      const result = await issuer.validateTransaction(ticket, parseMoney('0.01 ETH'));
+      assert.equal(result.valid, false);
+      assert.equal(result.errorCode, 'CONSTRAINT_VIOLATION');
+    });
   });
 
   describe('decodeTicket()', () => {
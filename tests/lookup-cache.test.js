@@ -0,0 +1,143 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { LookupCache } from '../dist/lookup-cache.js';
+import { createClient } from './helpers.js';
+
+const ESCROW_PARAMS = { counterparty: 'agent://worker', amount: 40, condition: 'done', timeout: 60 };
+
+function hits(mock, path) {
+  return mock.requests.filter((r) => r.method === 'GET' && r.path === path).length;
+}
+
+async function waitFor(condition) {
+  const started = Date.now();
+  while (!condition() && Date.now() - started < 1000) {
+    await new Promise((r) => setTimeout(r, 2));
+  }
+}
+
+describe('LookupCache', () => {
+  it('serves fresh results without fetching and refetches once expired', async () => {
+    const clock = { now: 0 };
+    const cache = new LookupCache({ ttl: { reputation: 100 }, now: () => clock.now });
+    let calls = 0;
+    const fetch = async () => ({ n: ++calls });
+
+    assert.deepEqual(await cache.get('reputation', 'a', fetch), { n: 1 });
+    clock.now = 99;
+    assert.deepEqual(await cache.get('reputation', 'a', fetch), { n: 1 });
+    clock.now = 100;
+    assert.deepEqual(await cache.get('reputation', 'a', fetch), { n: 2 });
+    assert.deepEqual(await cache.get('reputation', 'a', fetch, { refresh: true }), { n: 3 });
+  });
+
+  it('serves stale results while revalidating in the background', async () => {
+    const clock = { now: 0 };
+    const cache = new LookupCache({ ttl: { identity: 100 }, staleWhileRevalidate: 50, now: () => clock.now });
+    let calls = 0;
+    const fetch = async () => ({ n: ++calls });
+
+    await cache.get('identity', 'a', fetch);
+    clock.now = 120;
+    assert.deepEqual(await cache.get('identity', 'a', fetch), { n: 1 });
+    await waitFor(() => calls === 2);
+    assert.deepEqual(await cache.get('identity', 'a', fetch), { n: 2 });
+
+    clock.now = 300;
+    assert.deepEqual(await cache.get('identity', 'a', fetch), { n: 3 });
+  });
+
+  it('does not store a fetch that was overtaken by an invalidation', async () => {
+    const cache = new LookupCache();
+    let release;
+    const slow = cache.get('verification', 'a', () => new Promise((r) => { release = r; }));
+    await waitFor(() => release);
+    await cache.invalidate('verification', 'a');
+    release({ verified: false });
+    await slow;
+
+    assert.deepEqual(await cache.get('verification', 'a', async () => ({ verified: true })), { verified: true });
+  });
+
+  it('treats store failures as misses', async () => {
+    const broken = {
+      get: async () => { throw new Error('down'); },
+      set: async () => { throw new Error('down'); },
+      delete: async () => {},
+      clear: async () => {},
+    };
+    const warnings = [];
+    const onWarning = (w) => warnings.push(w.name);
+    process.on('warning', onWarning);
+    const cache = new LookupCache({ store: broken });
+    assert.deepEqual(await cache.get('identity', 'a', async () => ({ ok: true })), { ok: true });
+    await new Promise((r) => setImmediate(r));
+    process.off('warning', onWarning);
+    assert.ok(warnings.includes('AgntorCacheWarning'));
+  });
+});
+
+describe('cached lookups', () => {
+  it('are not cached unless configured', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    await client.reputation.get('agent://worker');
+    await client.reputation.get('agent://worker');
+    assert.equal(client.cache, undefined);
+    assert.equal(hits(mock, '/api/v1/reputation/agent%3A%2F%2Fworker'), 2);
+  });
+
+  it('coalesce concurrent lookups into one request', async () => {
+    const mock = new MockAgntorApi({ latency: 5 });
+    await createClient(mock, { agentId: 'agent://worker' }).identity.register();
+    const client = createClient(mock, { cache: {} });
+    const results = await Promise.all([1, 2, 3].map(() => client.identity.resolve('agent://worker')));
+
+    assert.equal(hits(mock, '/api/v1/identity/agent%3A%2F%2Fworker'), 1);
+    assert.notEqual(results[0], results[1]);
+    assert.deepEqual(results[0], results[1]);
+
+    await client.verify.status('agent://worker');
+    await client.verify.status('agent://worker');
+    await client.verify.status('agent://worker', { refresh: true });
+    assert.equal(hits(mock, '/api/v1/verify/agent%3A%2F%2Fworker'), 2);
+  });
+
+  it('abort with their signal without cancelling shared lookups', async () => {
+    const mock = new MockAgntorApi({ latency: 50 });
+    await createClient(mock, { agentId: 'agent://worker' }).identity.register();
+    const client = createClient(mock, { cache: {} });
+    const controller = new AbortController();
+
+    const shared = client.identity.resolve('agent://worker');
+    const own = client.identity.resolve('agent://worker', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await assert.rejects(own, { code: 'ABORTED' });
+    assert.equal((await shared).agentId, 'agent://worker');
+    assert.equal(hits(mock, '/api/v1/identity/agent%3A%2F%2Fworker'), 2);
+  });
+
+  it('are invalidated by reputation_updated events', async () => {
+    const mock = new MockAgntorApi();
+    const payer = createClient(mock);
+    const watcher = createClient(mock, { cache: {}, agentId: 'agent://watcher' });
+    const before = await watcher.reputation.get('agent://worker');
+
+    const updates = [];
+    watcher.on('reputation_updated', async (score) => {
+      if (score.agentId === 'agent://worker') updates.push(await watcher.reputation.get('agent://worker'));
+    });
+    const sub = watcher.subscribe({ reconnectDelay: 1 });
+    const escrow = await payer.escrow.create(ESCROW_PARAMS);
+    await payer.escrow.fund(escrow.escrowId);
+    await payer.settle.release(escrow.escrowId);
+    await waitFor(() => updates.length === 1);
+    sub.close();
+
+    assert.equal(before.escrowVolume, 0);
+    assert.equal(updates[0].escrowVolume, 40);
+    assert.equal(hits(mock, '/api/v1/reputation/agent%3A%2F%2Fworker'), 2);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { validateMilestones, milestoneBalance, applyMilestoneSettlement } from '../dist/milestones.js';
+import { createClient } from './helpers.js';
+
+const DEADLINE = '2026-12-31T00:00:00.000Z';
+
+const PARAMS = {
+  counterparty: 'agent://worker',
+  amount: 100,
+  condition: 'all_stages_done',
+  timeout: 86400,
+  milestones: [
+    { milestoneId: 'design', amount: 30, condition: 'design_approved', deadline: DEADLINE },
+    { milestoneId: 'build', amount: 50, condition: 'tests_pass', deadline: DEADLINE },
+    { milestoneId: 'launch', amount: 20, condition: 'deployed', deadline: DEADLINE },
+  ],
+};
+
+describe('validateMilestones()', () => {
+  it('accepts escrows without milestones', () => {
+    assert.doesNotThrow(() => validateMilestones({ ...PARAMS, milestones: undefined }));
+  });
+
+  it('accepts amounts that add up, within float tolerance', () => {
+    assert.doesNotThrow(() => validateMilestones(PARAMS));
+    assert.doesNotThrow(() => validateMilestones({
+      ...PARAMS,
+      amount: 0.3,
+      milestones: [
+        { amount: 0.1, condition: 'a', deadline: DEADLINE },
+        { amount: 0.2, condition: 'b', deadline: DEADLINE },
+      ],
+    }));
+  });
+
+  it('rejects amounts that do not add up to the total', () => {
+    assert.throws(() => validateMilestones({ ...PARAMS, amount: 90 }), (err) => {
+      assert.equal(err.code, 'INVALID_MILESTONES');
+      assert.match(err.message, /add up to 100.*is 90/);
+      return true;
+    });
+  });
+
+  it('rejects empty lists, bad amounts, bad deadlines, and duplicate IDs', () => {
+    const cases = [
+      { ...PARAMS, milestones: [] },
+      { ...PARAMS, milestones: [{ ...PARAMS.milestones[0], amount: -30 }, ...PARAMS.milestones.slice(1)] },
+      { ...PARAMS, milestones: [{ ...PARAMS.milestones[0], deadline: 'soon' }, ...PARAMS.milestones.slice(1)] },
+      { ...PARAMS, milestones: [{ ...PARAMS.milestones[0], condition: '' }, ...PARAMS.milestones.slice(1)] },
+      { ...PARAMS, milestones: [PARAMS.milestones[0], { ...PARAMS.milestones[1], milestoneId: 'design' }, PARAMS.milestones[2]] },
+    ];
+    for (const params of cases) {
+      assert.throws(() => validateMilestones(params), { code: 'INVALID_MILESTONES' });
+    }
+  });
+});
+
+describe('milestone balances', () => {
+  it('splits amounts by milestone status', () => {
+    const milestones = [
+      { milestoneId: 'a', amount: 30, condition: 'c', deadline: DEADLINE, status: 'released' },
+      { milestoneId: 'b', amount: 50, condition: 'c', deadline: DEADLINE, status: 'slashed' },
+      { milestoneId: 'c', amount: 20, condition: 'c', deadline: DEADLINE, status: 'pending' },
+    ];
+    assert.deepEqual(milestoneBalance(milestones), { released: 30, slashed: 50, remaining: 20 });
+  });
+
+  it('settles the escrow once every milestone is settled', () => {
+    const record = {
+      escrowId: 'e1', status: 'funded', amount: 50, counterparty: 'w', condition: 'c', timeout: 1,
+      milestones: [
+        { milestoneId: 'a', amount: 30, condition: 'c', deadline: DEADLINE, status: 'pending' },
+        { milestoneId: 'b', amount: 20, condition: 'c', deadline: DEADLINE, status: 'pending' },
+      ],
+    };
+    const partial = applyMilestoneSettlement(record, 'slashed', 'a');
+    assert.equal(partial.status, 'funded');
+    assert.deepEqual(partial.balance, { released: 0, slashed: 30, remaining: 20 });
+    assert.equal(applyMilestoneSettlement(partial, 'released', 'b').status, 'released');
+    assert.equal(applyMilestoneSettlement(record, 'slashed').status, 'slashed');
+  });
+});
+
+describe('milestone escrows', () => {
+  it('checks amounts locally before submitting', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    await assert.rejects(() => client.escrow.create({ ...PARAMS, amount: 99 }), { code: 'INVALID_MILESTONES' });
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('releases and slashes milestones one at a time', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(PARAMS);
+    assert.deepEqual(escrow.milestones.map((m) => [m.milestoneId, m.status]), [
+      ['design', 'pending'], ['build', 'pending'], ['launch', 'pending'],
+    ]);
+    assert.deepEqual(escrow.balance, { released: 0, slashed: 0, remaining: 100 });
+    await client.escrow.fund(escrow.escrowId);
+
+    const settled = [];
+    client.on('escrow_settled', (r) => settled.push([r.milestoneId, r.outcome]));
+
+    const design = await client.settle.releaseMilestone(escrow.escrowId, 'design');
+    assert.equal(design.amount, 30);
+    await client.settle.slashMilestone(escrow.escrowId, 'build');
+
+    let status = await client.escrow.status(escrow.escrowId);
+    assert.equal(status.status, 'funded');
+    assert.deepEqual(status.balance, { released: 30, slashed: 50, remaining: 20 });
+
+    await client.settle.resolveMilestone(escrow.escrowId, 'launch', 'deploy-proof');
+    status = await client.escrow.status(escrow.escrowId);
+    assert.equal(status.status, 'released');
+    assert.deepEqual(status.balance, { released: 50, slashed: 50, remaining: 0 });
+    assert.deepEqual(settled, [['design', 'released'], ['build', 'slashed'], ['launch', 'released']]);
+
+    const reputation = await client.reputation.get('agent://worker');
+    assert.equal(reputation.escrowVolume, 100);
+    assert.equal(reputation.slashes, 1);
+  });
+
+  it('rejects settling a milestone twice without calling the API', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(PARAMS);
+    await client.escrow.fund(escrow.escrowId);
+    await client.settle.releaseMilestone(escrow.escrowId, 'design');
+
+    const sent = mock.requests.length;
+    await assert.rejects(() => client.settle.slashMilestone(escrow.escrowId, 'design'), { code: 'INVALID_TRANSITION' });
+    await assert.rejects(() => client.settle.releaseMilestone(escrow.escrowId, 'nope'), { code: 'INVALID_TRANSITION' });
+    assert.equal(mock.requests.length, sent);
+  });
+
+  it('rejects milestone settlement before funding', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(PARAMS);
+    await assert.rejects(() => client.settle.releaseMilestone(escrow.escrowId, 'design'), { code: 'INVALID_TRANSITION' });
+  });
+
+  it('settles the remaining milestones with a whole-escrow release', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create(PARAMS);
+    await client.escrow.fund(escrow.escrowId);
+    await client.settle.slashMilestone(escrow.escrowId, 'design');
+
+    const result = await client.settle.release(escrow.escrowId);
+    assert.equal(result.amount, 70);
+    const status = await client.escrow.status(escrow.escrowId);
+    assert.equal(status.status, 'released');
+    assert.deepEqual(status.balance, { released: 70, slashed: 30, remaining: 0 });
+  });
+});
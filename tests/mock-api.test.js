@@ -0,0 +1,219 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { MockAgntorApi, MOCK_BASE_URL } from '../dist/mock-api.js';
+import { createClient } from './helpers.js';
+
+/** Retries quickly, so injected faults are retried without slowing the tests */
+function retryingClient(mock, config = {}) {
+  return createClient(mock, { retry: { maxRetries: 3, baseDelay: 1, maxDelay: 2 }, ...config });
+}
+
+const ESCROW_PARAMS = { counterparty: 'agent://worker', amount: 40, condition: 'task_complete', timeout: 3600 };
+
+describe('MockAgntorApi', () => {
+  describe('SSRF exemption', () => {
+    it('is blocked by the SSRF guard without testMode', async () => {
+      const mock = new MockAgntorApi();
+      const client = new Agntor({
+        apiKey: 'k', agentId: 'agent://a', chain: 'base', baseUrl: MOCK_BASE_URL, fetch: mock.fetch, maxRetries: 0,
+      });
+      await assert.rejects(() => client.identity.register(), /Invalid URL/);
+      assert.equal(mock.requests.length, 0);
+    });
+  });
+
+  describe('identity → escrow → settle → reputation', () => {
+    it('runs the full release flow', async () => {
+      const mock = new MockAgntorApi();
+      const payer = retryingClient(mock);
+      const worker = retryingClient(mock, { agentId: 'agent://worker' });
+
+      await payer.identity.register();
+      await worker.identity.register();
+      assert.equal((await payer.identity.me()).agentId, 'agent://payer');
+      assert.equal((await payer.identity.resolve('agent://worker')).agentId, 'agent://worker');
+
+      const escrow = await payer.escrow.create(ESCROW_PARAMS);
+      assert.equal(escrow.status, 'created');
+      assert.equal((await payer.escrow.fund(escrow.escrowId)).status, 'funded');
+
+      const settlement = await payer.settle.release(escrow.escrowId);
+      assert.equal(settlement.outcome, 'released');
+      assert.equal((await payer.escrow.status(escrow.escrowId)).status, 'released');
+
+      const score = await payer.reputation.get('agent://worker');
+      assert.deepEqual(score, {
+        agentId: 'agent://worker',
+        successRate: 1,
+        escrowVolume: 40,
+        slashes: 0,
+        counterpartiesCount: 1,
+      });
+
+      const history = await payer.reputation.history('agent://worker');
+      assert.equal(history.length, 1);
+      assert.equal(history[0].event, 'escrow_released');
+    });
+
+    it('records slashes against the counterparty', async () => {
+      const mock = new MockAgntorApi();
+      const payer = retryingClient(mock);
+      const escrow = await payer.escrow.create(ESCROW_PARAMS);
+      await payer.escrow.fund(escrow.escrowId);
+      await payer.settle.slash(escrow.escrowId);
+
+      const score = await payer.reputation.get('agent://worker');
+      assert.equal(score.slashes, 1);
+      assert.equal(score.successRate, 0);
+    });
+
+    it('rejects illegal escrow transitions with 409', async () => {
+      const mock = new MockAgntorApi();
+      const payer = retryingClient(mock);
+      const escrow = await payer.escrow.create(ESCROW_PARAMS);
+
+      await assert.rejects(() => payer.settle.release(escrow.escrowId), (err) => err.statusCode === 409);
+      await payer.escrow.cancel(escrow.escrowId);
+      await assert.rejects(() => payer.escrow.fund(escrow.escrowId), (err) => err.statusCode === 409);
+    });
+
+    it('updates verification on attestation', async () => {
+      const mock = new MockAgntorApi();
+      const client = retryingClient(mock);
+      await client.identity.register();
+      assert.equal((await client.verify.status('agent://payer')).verified, false);
+
+      await client.verify.attest({ capability: 'http', proof: 'sig' });
+      const status = await client.verify.status('agent://payer');
+      assert.equal(status.verified, true);
+      assert.deepEqual(status.capabilities, ['http']);
+      assert.equal((await client.verify.badge()).badge, 'verified');
+    });
+  });
+
+  describe('legacy MCP routes', () => {
+    it('serves getAgent, getScore, queryAgents, kill switch, and legacy escrow/verify', async () => {
+      const mock = new MockAgntorApi();
+      const client = retryingClient(mock);
+      mock.seedAgent('agent://payer', { name: 'payer-bot', verified: true });
+
+      assert.equal((await client.getAgent('payer-bot')).id, 'agent://payer');
+      assert.equal(await client.getScore('payer-bot'), 0);
+      assert.equal((await client.queryAgents({})).agents.length, 1);
+      assert.equal((await client.activateKillSwitch('agent://payer', 'test')).success, true);
+      assert.equal((await client.getAgent('payer-bot')).killSwitch, true);
+
+      const legacy = await client.createEscrowLegacy({ target: 'agent://worker', amount: 3, task: 'job' });
+      assert.equal(legacy.escrow.status, 'created');
+      assert.equal((await client.verifyLegacy()).verified, true);
+    });
+  });
+
+  describe('idempotency', () => {
+    it('replays fund and release with the same key instead of rejecting the transition', async () => {
+      const mock = new MockAgntorApi();
+      const client = retryingClient(mock);
+      const escrow = await client.escrow.create(ESCROW_PARAMS);
+
+      const funded = await client.escrow.fund(escrow.escrowId, { idempotencyKey: 'fund-1' });
+      assert.deepEqual(await client.escrow.fund(escrow.escrowId, { idempotencyKey: 'fund-1' }), funded);
+      const released = await client.settle.release(escrow.escrowId, { idempotencyKey: 'release-1' });
+      assert.deepEqual(await client.settle.release(escrow.escrowId, { idempotencyKey: 'release-1' }), released);
+
+      await assert.rejects(() => client.settle.release(escrow.escrowId), { code: 'INVALID_TRANSITION' });
+      assert.equal(mock.requests.filter((r) => r.method === 'POST').length, 3);
+    });
+
+    it('replays mutations with the same Idempotency-Key server-side', async () => {
+      const mock = new MockAgntorApi();
+      // Separate clients, so the local replay cache is not involved
+      const a = retryingClient(mock);
+      const b = retryingClient(mock);
+      const first = await a.escrow.create(ESCROW_PARAMS, { idempotencyKey: 'k1' });
+      const second = await b.escrow.create(ESCROW_PARAMS, { idempotencyKey: 'k1' });
+      assert.equal(second.escrowId, first.escrowId);
+      assert.equal(mock.escrows.size, 1);
+    });
+
+    it('rejects a reused Idempotency-Key with a different body', async () => {
+      const mock = new MockAgntorApi();
+      await retryingClient(mock).escrow.create(ESCROW_PARAMS, { idempotencyKey: 'k1' });
+      await assert.rejects(
+        () => retryingClient(mock).escrow.create({ ...ESCROW_PARAMS, amount: ESCROW_PARAMS.amount + 1 }, { idempotencyKey: 'k1' }),
+        { statusCode: 422 },
+      );
+      assert.equal(mock.escrows.size, 1);
+    });
+  });
+
+  describe('fault injection', () => {
+    it('injects 5xx responses that the client retries through', async () => {
+      const mock = new MockAgntorApi();
+      const client = retryingClient(mock);
+      await client.identity.register();
+      mock.injectFault({ path: '/api/v1/identity/me', status: 503, times: 2 });
+
+      const me = await client.identity.me();
+      assert.equal(me.agentId, 'agent://payer');
+      assert.equal(mock.requests.filter((r) => r.path === '/api/v1/identity/me').length, 3);
+    });
+
+    it('injects latency that trips the client timeout', async () => {
+      const mock = new MockAgntorApi();
+      const client = retryingClient(mock, { timeout: 10, retry: { maxRetries: 0 } });
+      mock.injectFault({ latency: 50 });
+      await assert.rejects(() => client.reputation.get('agent://x'), (err) => err.code === 'TIMEOUT');
+    });
+
+    it('injects a 402 paywall for x402 flows', async () => {
+      const mock = new MockAgntorApi();
+      const offer = {
+        x402Version: 1,
+        accepts: [{
+          scheme: 'exact',
+          network: 'base',
+          maxAmountRequired: '10000',
+          resource: '/api/v1/data',
+          description: 'Premium analytics dataset',
+          payTo: '0x1234567890abcdef1234567890abcdef12345678',
+          asset: '0xusdc',
+          extra: { name: 'USDC', decimals: 6 },
+        }],
+      };
+      mock.route('GET', '/api/v1/data', () => ({ body: { rows: 3 } }));
+      mock.injectFault({ path: '/api/v1/data', status: 402, body: offer, acceptProof: 'paid', times: Infinity });
+
+      const client = retryingClient(mock, {
+        x402: { paymentHandler: { pay: async () => ({ token: 'paid' }) } },
+      });
+      const { data, receipt } = await client.trustedRequestWithReceipt('/api/v1/data');
+      assert.deepEqual(data, { rows: 3 });
+      assert.equal(receipt.amount, '0.01');
+    });
+  });
+
+  describe('event stream', () => {
+    it('pushes remote changes to subscribed clients', async () => {
+      const mock = new MockAgntorApi();
+      const payer = retryingClient(mock);
+      const watcher = retryingClient(mock, { agentId: 'agent://watcher' });
+      const seen = [];
+      watcher.on('escrow_funded', (d) => seen.push(['escrow_funded', d.status]));
+      watcher.on('reputation_updated', (d) => seen.push(['reputation_updated', d.successRate]));
+
+      const sub = watcher.subscribe({ reconnectDelay: 1 });
+      const escrow = await payer.escrow.create(ESCROW_PARAMS);
+      await payer.escrow.fund(escrow.escrowId);
+      await payer.settle.release(escrow.escrowId);
+
+      const started = Date.now();
+      while (seen.length < 2 && Date.now() - started < 1000) {
+        await new Promise((r) => setTimeout(r, 2));
+      }
+      sub.close();
+
+      assert.deepEqual(seen, [['escrow_funded', 'funded'], ['reputation_updated', 1]]);
+    });
+  });
+});
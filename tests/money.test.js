@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import {
+  parseMoney,
+  toMoney,
+  formatMoney,
+  compareMoney,
+  addMoney,
+  moneyFromUnits,
+  escrowMoney,
+} from '../dist/money.js';
+import { createClient } from './helpers.js';
+
+const usdc = (text) => parseMoney(text, { token: 'USDC' });
+
+describe('parseMoney()', () => {
+  it('reads grouped amounts, symbols, and named tokens exactly', () => {
+    assert.deepEqual(parseMoney('1,000.50 USDC'), { units: 1_000_500_000n, token: 'USDC', decimals: 6 });
+    assert.deepEqual(parseMoney('$12'), { units: 1200n, token: 'USD', decimals: 2 });
+    assert.deepEqual(parseMoney('ETH 0.000000000000000001'), { units: 1n, token: 'ETH', decimals: 18 });
+    assert.deepEqual(parseMoney('-2.5', { token: 'EUR' }), { units: -250n, token: 'EUR', decimals: 2 });
+  });
+
+  it('rejects malformed grouping and lost precision', () => {
+    assert.throws(() => usdc('1,00.5'), { code: 'INVALID_AMOUNT' });
+    assert.throws(() => usdc('12abc'), { code: 'INVALID_AMOUNT' });
+    assert.throws(() => parseMoney('0.001', { token: 'USD', decimals: 2 }), { code: 'INVALID_AMOUNT' });
+    assert.throws(() => parseMoney('12'), { code: 'INVALID_AMOUNT' });
+    assert.throws(() => parseMoney('5 ETH', { token: 'USDC' }), { code: 'CURRENCY_MISMATCH' });
+  });
+
+  it('reads numbers at their decimal value, not their binary one', () => {
+    assert.equal(toMoney(0.1, { token: 'USDC' }).units, 100_000n);
+    assert.equal(addMoney(toMoney(0.1, { token: 'USDC' }), toMoney(0.2, { token: 'USDC' })).units, 300_000n);
+  });
+});
+
+describe('formatMoney()', () => {
+  it('prints the shortest exact form, optionally grouped', () => {
+    assert.equal(formatMoney(usdc('1000.500')), '1000.5 USDC');
+    assert.equal(formatMoney(usdc('1234567.89'), { grouping: true }), '1,234,567.89 USDC');
+    assert.equal(formatMoney(moneyFromUnits('-5', 'ETH', 18)), '-0.000000000000000005 ETH');
+  });
+});
+
+describe('compareMoney()', () => {
+  it('compares across decimals, counting stablecoins as USD', () => {
+    assert.equal(compareMoney(usdc('500.000001'), parseMoney('$500')), 1);
+    assert.equal(compareMoney(parseMoney('500 DAI'), parseMoney('$500')), 0);
+    assert.throws(() => compareMoney(parseMoney('1 ETH'), parseMoney('$1')), { code: 'CURRENCY_MISMATCH' });
+  });
+});
+
+describe('escrows with Money amounts', () => {
+  it('send exact base units and check milestones without rounding', async () => {
+    const client = createClient(new MockAgntorApi());
+    const escrow = await client.escrow.create({
+      counterparty: 'agent://worker',
+      amount: usdc('0.3'),
+      condition: 'done',
+      timeout: 60,
+      milestones: [
+        { amount: usdc('0.1'), condition: 'draft', deadline: '2026-04-01T00:00:00Z' },
+        { amount: usdc('0.2'), condition: 'final', deadline: '2026-05-01T00:00:00Z' },
+      ],
+    });
+
+    assert.deepEqual(escrow.currency, { token: 'USDC', decimals: 6 });
+    assert.equal(escrow.amountUnits, '300000');
+    assert.deepEqual(escrowMoney(escrow, escrow.milestones[1]), usdc('0.2'));
+
+    await assert.rejects(
+      client.escrow.create({
+        counterparty: 'agent://worker',
+        amount: usdc('0.3'),
+        condition: 'done',
+        timeout: 60,
+        milestones: [{ amount: usdc('0.299999'), condition: 'all', deadline: '2026-04-01T00:00:00Z' }],
+      }),
+      { code: 'INVALID_MILESTONES' },
+    );
+  });
+
+  it('split weighted payee shares to the last base unit', async () => {
+    const client = createClient(new MockAgntorApi());
+    const escrow = await client.escrow.create({
+      amount: usdc('100'),
+      condition: 'done',
+      timeout: 60,
+      payees: [1, 1, 1].map((weight, i) => ({ agentId: `agent://p${i}`, weight })),
+    });
+
+    const units = escrow.payees.map((p) => p.amountUnits);
+    assert.deepEqual(units, ['33333333', '33333333', '33333334']);
+  });
+
+  it('reject amounts in more than one token', async () => {
+    const client = createClient(new MockAgntorApi());
+    await assert.rejects(
+      client.escrow.create({
+        amount: usdc('10'),
+        condition: 'done',
+        timeout: 60,
+        payees: [{ agentId: 'agent://a', amount: parseMoney('10 USDT') }],
+      }),
+      { code: 'CURRENCY_MISMATCH' },
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Agntor } from '../dist/agntor.js';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { FileOutboxStore, MemoryOutboxStore } from '../dist/outbox.js';
+import { createClient } from './helpers.js';
+
+const ESCROW_PARAMS = { counterparty: 'agent://worker', amount: 40, condition: 'task_complete', timeout: 3600 };
+
+function outboxClient(mock, store = new MemoryOutboxStore()) {
+  return createClient(mock, { retry: { circuitBreaker: false }, outbox: { store, flushInterval: 0 } });
+}
+
+function goOffline(mock) {
+  mock.injectFault({ status: 503, times: Infinity });
+}
+
+describe('FileOutboxStore', () => {
+  let dir;
+  after(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns an empty queue when the file does not exist', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'agntor-outbox-'));
+    const store = new FileOutboxStore(join(dir, 'missing.json'));
+    assert.deepEqual(await store.load(), []);
+  });
+
+  it('persists entries across instances, creating parent directories', async () => {
+    dir ??= await mkdtemp(join(tmpdir(), 'agntor-outbox-'));
+    const path = join(dir, 'nested', 'outbox.json');
+    const entry = { id: 'o1', path: '/p', body: {}, idempotencyKey: 'k', event: 'escrow_created', enqueuedAt: 'now', attempts: 1 };
+    await new FileOutboxStore(path).save([entry]);
+    assert.deepEqual(await new FileOutboxStore(path).load(), [entry]);
+    assert.equal(JSON.parse(await readFile(path, 'utf8')).length, 1);
+  });
+});
+
+describe('Outbox', () => {
+  it('is not created unless configured', () => {
+    const mock = new MockAgntorApi();
+    const client = new Agntor({ apiKey: 'k', agentId: 'agent://a', chain: 'base', ...mock.clientConfig() });
+    assert.equal(client.outbox, undefined);
+  });
+
+  it('queues a mutation the API could not receive and rejects with OPERATION_QUEUED', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+    goOffline(mock);
+
+    await assert.rejects(() => client.escrow.create(ESCROW_PARAMS, { idempotencyKey: 'create-1' }), (err) => {
+      assert.equal(err.code, 'OPERATION_QUEUED');
+      assert.ok(err.outboxId);
+      return true;
+    });
+
+    const [entry] = await client.outbox.list();
+    assert.equal(entry.path, '/api/v1/escrow/create');
+    assert.equal(entry.idempotencyKey, 'create-1');
+    assert.equal(entry.event, 'escrow_created');
+    assert.deepEqual(entry.body, ESCROW_PARAMS);
+    assert.match(entry.lastError, /503/);
+  });
+
+  it('does not queue permanent failures', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+    await assert.rejects(() => client.escrow.fund('missing'), (err) => err.code === 'API_ERROR' && err.statusCode === 404);
+    assert.deepEqual(await client.outbox.list(), []);
+  });
+
+  it('replays queued operations in order once connectivity returns', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+
+    goOffline(mock);
+    await assert.rejects(() => client.escrow.fund(escrow.escrowId), { code: 'OPERATION_QUEUED' });
+    await assert.rejects(() => client.settle.release(escrow.escrowId), { code: 'OPERATION_QUEUED' });
+
+    const seen = [];
+    client.on('escrow_funded', (e) => seen.push(['escrow_funded', e.status]));
+    client.on('escrow_settled', (r) => seen.push(['escrow_settled', r.outcome]));
+    client.on('outbox_delivered', ({ entry }) => seen.push(['outbox_delivered', entry.event]));
+
+    mock.clearFaults();
+    const result = await client.outbox.flush();
+    assert.equal(result.delivered.length, 2);
+    assert.equal(result.pending.length, 0);
+    assert.deepEqual(seen, [
+      ['escrow_funded', 'funded'],
+      ['outbox_delivered', 'escrow_funded'],
+      ['escrow_settled', 'released'],
+      ['outbox_delivered', 'escrow_settled'],
+    ]);
+    assert.equal(mock.escrows.get(escrow.escrowId).status, 'released');
+  });
+
+  it('keeps later calls behind queued ones', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+
+    mock.injectFault({ status: 503, times: 1 });
+    await assert.rejects(() => client.escrow.fund(escrow.escrowId), { code: 'OPERATION_QUEUED' });
+
+    // Connectivity is back: the release is queued behind the fund and both replay in the background
+    const delivered = [];
+    const drained = new Promise((resolve) => client.on('outbox_delivered', ({ entry }) => {
+      delivered.push(entry.event);
+      if (delivered.length === 2) resolve();
+    }));
+    await assert.rejects(() => client.settle.release(escrow.escrowId), { code: 'OPERATION_QUEUED' });
+    await drained;
+    assert.deepEqual(delivered, ['escrow_funded', 'escrow_settled']);
+    assert.equal(mock.escrows.get(escrow.escrowId).status, 'released');
+    assert.deepEqual(await client.outbox.list(), []);
+  });
+
+  it('does not touch the store while the queue is empty', async () => {
+    const mock = new MockAgntorApi();
+    const store = new MemoryOutboxStore();
+    let loads = 0;
+    const load = store.load.bind(store);
+    store.load = () => (loads++, load());
+    const client = outboxClient(mock, store);
+
+    const escrow = await client.escrow.create(ESCROW_PARAMS);
+    await client.escrow.fund(escrow.escrowId);
+    await client.settle.release(escrow.escrowId);
+    assert.equal(loads, 1);
+  });
+
+  it('queues new calls while the queue cannot drain', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+    goOffline(mock);
+    await assert.rejects(() => client.escrow.create(ESCROW_PARAMS), { code: 'OPERATION_QUEUED' });
+    await assert.rejects(() => client.escrow.create(ESCROW_PARAMS), { code: 'OPERATION_QUEUED' });
+    const entries = await client.outbox.list();
+    assert.equal(entries.length, 2);
+    assert.equal(entries[0].attempts, 2);
+  });
+
+  it('replays with the original idempotency key so the server applies it once', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+
+    // The request reached the server but the response was lost
+    mock.route('POST', '/api/v1/escrow/create', () => ({ status: 504 }));
+    await assert.rejects(() => client.escrow.create(ESCROW_PARAMS, { idempotencyKey: 'lost' }), { code: 'OPERATION_QUEUED' });
+
+    const replayed = new MockAgntorApi();
+    const keys = [];
+    replayed.route('POST', '/api/v1/escrow/create', (req) => {
+      keys.push(req.headers['idempotency-key']);
+      return { body: { escrowId: 'e1', status: 'created', ...ESCROW_PARAMS } };
+    });
+    const store = new MemoryOutboxStore();
+    await store.save(await client.outbox.list());
+    const restarted = outboxClient(replayed, store);
+    await restarted.outbox.flush();
+    assert.deepEqual(keys, ['lost']);
+  });
+
+  it('drops permanently failing entries and emits outbox_failed', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+    goOffline(mock);
+    await assert.rejects(() => client.escrow.fund('ghost'), { code: 'OPERATION_QUEUED' });
+    await assert.rejects(() => client.escrow.create(ESCROW_PARAMS), { code: 'OPERATION_QUEUED' });
+
+    const failures = [];
+    client.on('outbox_failed', ({ entry, error }) => failures.push([entry.path, error.statusCode]));
+
+    mock.clearFaults();
+    const result = await client.outbox.flush();
+    assert.deepEqual(failures, [['/api/v1/escrow/ghost/fund', 404]]);
+    assert.equal(result.failed.length, 1);
+    assert.equal(result.delivered.length, 1);
+  });
+
+  it('cancels a queued operation', async () => {
+    const mock = new MockAgntorApi();
+    const client = outboxClient(mock);
+    goOffline(mock);
+    let id;
+    await assert.rejects(() => client.escrow.create(ESCROW_PARAMS), (err) => (id = err.outboxId, true));
+
+    assert.equal(await client.outbox.cancel(id), true);
+    assert.equal(await client.outbox.cancel(id), false);
+    mock.clearFaults();
+    await client.outbox.flush();
+    assert.equal(mock.escrows.size, 0);
+  });
+});
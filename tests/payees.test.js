@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { resolvePayeeShares } from '../dist/payees.js';
+import { createClient } from './helpers.js';
+
+const BASE = { amount: 100, condition: 'all subtasks delivered', timeout: 3600 };
+
+async function fundedEscrow(mock, payees) {
+  const client = createClient(mock);
+  const escrow = await client.escrow.create({ ...BASE, payees });
+  await client.escrow.fund(escrow.escrowId);
+  return { client, escrowId: escrow.escrowId };
+}
+
+describe('resolvePayeeShares()', () => {
+  it('splits the remainder of fixed amounts by weight', () => {
+    const params = resolvePayeeShares({
+      ...BASE,
+      payees: [
+        { agentId: 'a', amount: 10 },
+        { agentId: 'b', weight: 2 },
+        { agentId: 'c', weight: 1 },
+      ],
+    });
+    assert.deepEqual(params.payees.map((p) => p.amount), [10, 60, 30]);
+    assert.equal(params.counterparty, 'a');
+  });
+
+  it('gives the rounding remainder to the last weighted payee', () => {
+    const { payees } = resolvePayeeShares({ ...BASE, payees: [{ agentId: 'a', weight: 1 }, { agentId: 'b', weight: 1 }, { agentId: 'c', weight: 1 }] });
+    assert.equal(payees.reduce((sum, p) => sum + p.amount, 0), 100);
+  });
+
+  it('rejects shares that do not add up', () => {
+    const cases = [
+      [],
+      [{ agentId: 'a', amount: 60 }, { agentId: 'b', amount: 30 }],
+      [{ agentId: 'a', amount: 100 }, { agentId: 'b', weight: 1 }],
+      [{ agentId: 'a', amount: 50, weight: 1 }, { agentId: 'b', amount: 50 }],
+      [{ agentId: 'a', weight: 1 }, { agentId: 'a', weight: 1 }],
+      [{ agentId: 'a', weight: -1 }, { agentId: 'b', weight: 2 }],
+    ];
+    for (const payees of cases) {
+      assert.throws(() => resolvePayeeShares({ ...BASE, payees }), { code: 'INVALID_SHARES' });
+    }
+    assert.throws(
+      () => resolvePayeeShares({ ...BASE, payees: [{ agentId: 'a', amount: 100 }], milestones: [] }),
+      { code: 'INVALID_SHARES' },
+    );
+  });
+});
+
+describe('multi-party escrows', () => {
+  it('validates shares before sending', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    await assert.rejects(
+      () => client.escrow.create({ ...BASE, payees: [{ agentId: 'agent://a', amount: 40 }] }),
+      { code: 'INVALID_SHARES' },
+    );
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('requires a counterparty when there are no payees', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    await assert.rejects(
+      () => client.escrow.create({ amount: 10, condition: 'done', timeout: 60 }),
+      { code: 'INVALID_INPUT' },
+    );
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('settles payees one at a time', async () => {
+    const mock = new MockAgntorApi();
+    const { client, escrowId } = await fundedEscrow(mock, [
+      { agentId: 'agent://writer', weight: 3 },
+      { agentId: 'agent://editor', weight: 1 },
+    ]);
+
+    const first = await client.settle.releasePayee(escrowId, 'agent://writer');
+    assert.equal(first.payee, 'agent://writer');
+    assert.equal(first.amount, 75);
+    assert.deepEqual(first.payees, [{ agentId: 'agent://writer', outcome: 'released', amount: 75 }]);
+
+    let record = await client.escrow.status(escrowId);
+    assert.equal(record.status, 'funded');
+    assert.deepEqual(record.balance, { released: 75, slashed: 0, remaining: 25 });
+
+    const sent = mock.requests.length;
+    await assert.rejects(() => client.settle.slashPayee(escrowId, 'agent://writer'), { code: 'INVALID_TRANSITION' });
+    await assert.rejects(() => client.settle.releasePayee(escrowId, 'agent://stranger'), { code: 'INVALID_TRANSITION' });
+    assert.equal(mock.requests.length, sent);
+
+    await client.settle.slashPayee(escrowId, 'agent://editor');
+    record = await client.escrow.status(escrowId);
+    assert.equal(record.status, 'released');
+    assert.deepEqual(record.payees.map((p) => [p.agentId, p.status]), [
+      ['agent://writer', 'released'],
+      ['agent://editor', 'slashed'],
+    ]);
+  });
+
+  it('releases every pending payee at once', async () => {
+    const mock = new MockAgntorApi();
+    const { client, escrowId } = await fundedEscrow(mock, [
+      { agentId: 'agent://a', amount: 20 },
+      { agentId: 'agent://b', amount: 30 },
+      { agentId: 'agent://c', amount: 50 },
+    ]);
+    await client.settle.slashPayee(escrowId, 'agent://a');
+
+    const result = await client.settle.release(escrowId);
+    assert.equal(result.amount, 80);
+    assert.deepEqual(result.payees.map((p) => p.agentId), ['agent://b', 'agent://c']);
+    assert.equal(client.escrow.allowedActions(escrowId).length, 0);
+
+    const [a, c] = await Promise.all([client.reputation.get('agent://a'), client.reputation.get('agent://c')]);
+    assert.equal(a.successRate, 0);
+    assert.equal(c.escrowVolume, 50);
+  });
+
+  it('lists escrows for every payee', async () => {
+    const mock = new MockAgntorApi();
+    await fundedEscrow(mock, [{ agentId: 'agent://a', weight: 1 }, { agentId: 'agent://b', weight: 1 }]);
+    const page = await createClient(mock, { agentId: 'agent://b' }).escrow.listPage({ role: 'payee' });
+    assert.equal(page.escrows.length, 1);
+    assert.equal(page.escrows[0].payees.length, 2);
+  });
+});
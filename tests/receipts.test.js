@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { ReceiptIssuer, verifyReceipt, decodeReceipt } from '../dist/receipts.js';
+import { createClient } from './helpers.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const SETTLEMENT = { escrowId: 'esc_1', outcome: 'released', amount: 40, settledAt: '2026-03-01T12:00:00.000Z' };
+const PARTIES = { payer: 'agent://payer', payee: 'agent://worker' };
+
+function issue(config = {}, result = SETTLEMENT) {
+  const issuer = new ReceiptIssuer({ issuer: 'agntor', signingKey: privateKey, keyId: 'k1', ...config });
+  return issuer.issue(result, PARTIES);
+}
+
+describe('verifyReceipt()', () => {
+  it('accepts a receipt signed by a trusted key', () => {
+    const result = verifyReceipt(issue(), { keys: { k1: publicKey }, issuer: 'agntor' });
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.payload, {
+      iss: 'agntor',
+      sub: 'esc_1',
+      iat: Date.parse(SETTLEMENT.settledAt) / 1000,
+      outcome: 'released',
+      amount: 40,
+      payer: 'agent://payer',
+      payee: 'agent://worker',
+      settled_at: SETTLEMENT.settledAt,
+    });
+  });
+
+  it('accepts JWKs and single keys', () => {
+    const token = issue();
+    assert.equal(verifyReceipt(token, { keys: { k1: publicKey.export({ format: 'jwk' }) } }).valid, true);
+    assert.equal(verifyReceipt(token, { keys: publicKey.export({ format: 'pem', type: 'spki' }) }).valid, true);
+  });
+
+  it('rejects tampered, unknown, and foreign receipts', () => {
+    const token = issue();
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...decodeReceipt(token), amount: 4000 })).toString('base64url');
+    const other = generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey;
+
+    assert.equal(verifyReceipt(`${header}.${forged}.${signature}`, { keys: { k1: publicKey } }).errorCode, 'INVALID_SIGNATURE');
+    assert.equal(verifyReceipt(token, { keys: { k2: publicKey } }).errorCode, 'UNKNOWN_KEY');
+    assert.equal(verifyReceipt(token, { keys: { k1: other } }).errorCode, 'INVALID_SIGNATURE');
+    assert.equal(verifyReceipt(token, { keys: { k1: publicKey }, issuer: 'someone-else' }).errorCode, 'INVALID_SIGNATURE');
+    assert.equal(verifyReceipt('not-a-receipt', { keys: { k1: publicKey } }).errorCode, 'INVALID_FORMAT');
+  });
+
+  it('only accepts shared-secret receipts when opted in', () => {
+    const token = issue({ algorithm: 'HS256', signingKey: 'shared-secret' });
+    assert.equal(verifyReceipt(token, { keys: { k1: 'shared-secret' } }).errorCode, 'INVALID_SIGNATURE');
+    assert.equal(verifyReceipt(token, { keys: { k1: 'shared-secret' }, algorithms: ['HS256'] }).valid, true);
+  });
+
+  it('checks expected claims and age', () => {
+    const token = issue();
+    const mismatch = verifyReceipt(token, { keys: { k1: publicKey }, expected: { sub: 'esc_1', amount: 50 } });
+    assert.equal(mismatch.errorCode, 'MISMATCH');
+    assert.equal(mismatch.error, 'Receipt amount is 40, expected 50');
+    assert.equal(verifyReceipt(token, { keys: { k1: publicKey }, maxAge: 60 }).errorCode, 'EXPIRED');
+  });
+
+  it('leaves out an unknown amount instead of claiming zero', () => {
+    const { amount: _, ...unknownAmount } = SETTLEMENT;
+    const token = issue({}, unknownAmount);
+    assert.equal('amount' in decodeReceipt(token), false);
+    assert.equal(verifyReceipt(token, { keys: { k1: publicKey } }).valid, true);
+    assert.equal(verifyReceipt(token, { keys: { k1: publicKey }, expected: { amount: 0 } }).errorCode, 'MISMATCH');
+  });
+});
+
+describe('settlement receipts', () => {
+  it('come with every settlement and verify against the issuer keys', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create({ counterparty: 'agent://worker', amount: 40, condition: 'done', timeout: 60 });
+    await client.escrow.fund(escrow.escrowId);
+    const result = await client.settle.release(escrow.escrowId);
+
+    const check = verifyReceipt(result.receipt, {
+      keys: mock.receiptKeys,
+      issuer: mock.receiptIssuer,
+      expected: { sub: escrow.escrowId, outcome: 'released', amount: 40, payee: 'agent://worker' },
+    });
+    assert.equal(check.valid, true);
+    assert.equal(check.payload.payer, 'agent://payer');
+  });
+
+  it('list each payee of a multi-party settlement', async () => {
+    const mock = new MockAgntorApi();
+    const client = createClient(mock);
+    const escrow = await client.escrow.create({
+      amount: 40,
+      condition: 'done',
+      timeout: 60,
+      payees: [{ agentId: 'agent://a', weight: 1 }, { agentId: 'agent://b', weight: 1 }],
+    });
+    await client.escrow.fund(escrow.escrowId);
+    const result = await client.settle.release(escrow.escrowId);
+
+    const { payload } = verifyReceipt(result.receipt, { keys: mock.receiptKeys });
+    assert.deepEqual(payload.payees, [
+      { agent_id: 'agent://a', outcome: 'released', amount: 20 },
+      { agent_id: 'agent://b', outcome: 'released', amount: 20 },
+    ]);
+  });
+});
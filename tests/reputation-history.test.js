@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { aggregateHistory } from '../dist/reputation-history.js';
+
+const DAY = 24 * 3600_000;
+// A Wednesday
+const NOW = Date.parse('2026-03-04T12:00:00Z');
+
+const entry = (event, at, amount = 10) => ({
+  timestamp: new Date(at).toISOString(),
+  event,
+  details: { escrowId: `e-${at}`, amount, counterparty: 'agent://payer' },
+});
+
+/** A worker with a settlement per `[outcome, daysAgo]`, oldest first */
+async function workerWithHistory(settlements) {
+  const clock = { now: NOW };
+  const mock = new MockAgntorApi({ now: () => new Date(clock.now) });
+  const client = new Agntor({ apiKey: 'k', agentId: 'agent://payer', chain: 'base', maxRetries: 0, ...mock.clientConfig() });
+  for (const [settle, daysAgo] of settlements) {
+    clock.now = NOW - daysAgo * DAY;
+    const escrow = await client.escrow.create({ counterparty: 'agent://worker', amount: 10, condition: 'done', timeout: 60 });
+    await client.escrow.fund(escrow.escrowId);
+    await client.settle[settle](escrow.escrowId);
+  }
+  mock.requests.length = 0;
+  return { mock, client };
+}
+
+const historyRequests = (mock) => mock.requests.filter((r) => r.path.endsWith('/history'));
+
+describe('aggregateHistory()', () => {
+  it('buckets settlements by day, including quiet days up to now', async () => {
+    const series = await aggregateHistory([
+      entry('escrow_released', NOW - 2 * DAY, 30),
+      entry('escrow_slashed', NOW - 2 * DAY + 1000, 20),
+      { timestamp: new Date(NOW - DAY).toISOString(), event: 'agent_renamed' },
+      entry('escrow_released', NOW - 1000),
+    ], { now: () => NOW });
+
+    assert.deepEqual(series, [
+      { start: '2026-03-02T00:00:00.000Z', end: '2026-03-03T00:00:00.000Z', settlements: 2, released: 1, slashed: 1, volume: 50, successRate: 0.5 },
+      { start: '2026-03-03T00:00:00.000Z', end: '2026-03-04T00:00:00.000Z', settlements: 0, released: 0, slashed: 0, volume: 0 },
+      { start: '2026-03-04T00:00:00.000Z', end: '2026-03-05T00:00:00.000Z', settlements: 1, released: 1, slashed: 0, volume: 10, successRate: 1 },
+    ]);
+  });
+
+  it('starts weeks on Monday and honors from / to', async () => {
+    const history = [entry('escrow_released', NOW - 10 * DAY), entry('escrow_slashed', NOW)];
+    const weekly = await aggregateHistory(history, { interval: 'week', to: new Date(NOW + 1) });
+    assert.deepEqual(weekly.map((b) => [b.start, b.settlements]), [
+      ['2026-02-16T00:00:00.000Z', 1],
+      ['2026-02-23T00:00:00.000Z', 0],
+      ['2026-03-02T00:00:00.000Z', 1],
+    ]);
+
+    const recent = await aggregateHistory(history, { from: new Date(NOW - DAY), to: new Date(NOW), interval: 'hour' });
+    assert.equal(recent.length, 24);
+    assert.equal(recent.reduce((n, b) => n + b.settlements, 0), 0);
+  });
+
+  it('returns no buckets without settlements and rejects bad options', async () => {
+    assert.deepEqual(await aggregateHistory([]), []);
+    await assert.rejects(() => aggregateHistory([], { interval: 'month' }), { code: 'INVALID_OPTIONS' });
+    await assert.rejects(() => aggregateHistory([], { from: 'yesterday' }), { code: 'INVALID_OPTIONS' });
+    await assert.rejects(() => aggregateHistory([], { from: new Date(0), interval: 'hour' }), { code: 'INVALID_OPTIONS' });
+  });
+});
+
+describe('reputation history queries', () => {
+  it('filter by event and date range and page through the results', async () => {
+    const { mock, client } = await workerWithHistory([['release', 5], ['slash', 3], ['release', 2], ['slash', 1]]);
+
+    const slashes = await client.reputation.history('agent://worker', { event: 'escrow_slashed', pageSize: 1 });
+    assert.deepEqual(slashes.map((e) => e.timestamp), [new Date(NOW - 3 * DAY).toISOString(), new Date(NOW - DAY).toISOString()]);
+    assert.equal(historyRequests(mock).length, 2);
+
+    const page = await client.reputation.historyPage('agent://worker', { after: new Date(NOW - 4 * DAY), before: new Date(NOW - DAY), pageSize: 1 });
+    assert.equal(page.entries[0].event, 'escrow_slashed');
+    assert.ok(page.nextCursor);
+    const rest = await client.reputation.historyPage('agent://worker', { after: new Date(NOW - 4 * DAY), before: new Date(NOW - DAY), pageSize: 1 }, page.nextCursor);
+    assert.equal(rest.entries[0].event, 'escrow_released');
+    assert.equal(rest.nextCursor, undefined);
+  });
+
+  it('filter locally when the API returns the whole history', async () => {
+    const { mock, client } = await workerWithHistory([]);
+    mock.route('GET', '/api/v1/reputation/:agentId/history', () => ({
+      body: [entry('escrow_released', NOW - 2 * DAY), entry('escrow_slashed', NOW - DAY)],
+    }));
+
+    const page = await client.reputation.historyPage('agent://worker', { event: ['escrow_slashed'] });
+    assert.deepEqual(page.entries.map((e) => e.event), ['escrow_slashed']);
+    assert.equal(page.nextCursor, undefined);
+  });
+
+  it('chart a recent drop with series()', async () => {
+    const { mock, client } = await workerWithHistory([['release', 3], ['release', 3], ['slash', 0], ['slash', 0]]);
+    const series = await client.reputation.series('agent://worker', { from: new Date(NOW - 3 * DAY), to: new Date(NOW + 1) });
+
+    assert.deepEqual(series.map((b) => b.successRate), [1, undefined, undefined, 0]);
+    assert.equal(series.at(-1).slashed, 2);
+    const query = historyRequests(mock)[0].query;
+    assert.equal(query.event, 'escrow_released,escrow_slashed');
+    assert.equal(query.after, new Date(NOW - 3 * DAY).toISOString());
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { scoreReputation } from '../dist/reputation-score.js';
+import { settlementGuard } from '../dist/settlement-guard.js';
+
+const NOW = Date.parse('2026-03-01T00:00:00Z');
+const DAY = 24 * 3600_000;
+
+function entry(event, daysAgo, amount = 100, counterparty = 'agent://payer') {
+  return {
+    timestamp: new Date(NOW - daysAgo * DAY).toISOString(),
+    event,
+    details: { escrowId: `esc_${daysAgo}`, amount, counterparty },
+  };
+}
+
+const score = (history, options) => scoreReputation(history, { now: () => NOW, ...options });
+
+describe('scoreReputation()', () => {
+  it('scores 0 without settlements', () => {
+    const result = score([{ timestamp: new Date(NOW).toISOString(), event: 'agent_registered' }]);
+    assert.equal(result.score, 0);
+    assert.equal(result.settlements, 0);
+    assert.equal(result.factors.slashes.detail, 'No settlements');
+  });
+
+  it('breaks the score down by weighted factor', () => {
+    const result = score([entry('escrow_released', 0, 1000)], { diversityTarget: 1 });
+    assert.equal(result.score, 1);
+    assert.deepEqual(result.factors.outcomes, {
+      score: 1,
+      weight: 0.5,
+      contribution: 0.5,
+      detail: '1 of 1 decayed settlements released',
+    });
+    const total = Object.values(result.factors).reduce((sum, f) => sum + f.contribution, 0);
+    assert.equal(Math.round(total * 1e4) / 1e4, result.score);
+    assert.equal(result.computedAt, '2026-03-01T00:00:00.000Z');
+  });
+
+  it('lets old slashes fade by half-life', () => {
+    const recent = score([entry('escrow_released', 60), entry('escrow_slashed', 0)]);
+    const old = score([entry('escrow_released', 0), entry('escrow_slashed', 60)]);
+    assert.ok(old.score > recent.score);
+    assert.equal(old.factors.outcomes.score, 0.8);
+    assert.equal(old.factors.slashes.detail, '0.25 decayed slashes');
+  });
+
+  it('rewards volume and counterparty diversity', () => {
+    const small = score([entry('escrow_released', 0, 5)]);
+    const diverse = score(['a', 'b', 'c', 'd', 'e'].map((c) => entry('escrow_released', 0, 200, `agent://${c}`)));
+    assert.ok(small.factors.volume.score < diverse.factors.volume.score);
+    assert.equal(diverse.factors.diversity.score, 1);
+    assert.equal(diverse.score, 1);
+  });
+
+  it('takes custom weights and rejects bad options', () => {
+    const result = score([entry('escrow_slashed', 0)], { weights: { outcomes: 0, volume: 0, diversity: 0 } });
+    assert.equal(result.factors.slashes.weight, 1);
+    assert.equal(result.score, 0.75);
+    assert.throws(() => score([], { halfLife: 0 }), { code: 'INVALID_OPTIONS' });
+    assert.throws(() => score([], { weights: { outcomes: 0, volume: 0, slashes: 0, diversity: 0 } }), { code: 'INVALID_OPTIONS' });
+  });
+});
+
+describe('reputation.score()', () => {
+  it('scores the history the API returns, for use in settlementGuard', async () => {
+    const mock = new MockAgntorApi({ now: () => new Date(NOW) });
+    const client = new Agntor({ apiKey: 'k', agentId: 'agent://payer', chain: 'base', maxRetries: 0, ...mock.clientConfig() });
+    for (const settle of ['release', 'slash']) {
+      const escrow = await client.escrow.create({ counterparty: 'agent://worker', amount: 50, condition: 'done', timeout: 60 });
+      await client.escrow.fund(escrow.escrowId);
+      await client.settle[settle](escrow.escrowId);
+    }
+
+    const result = await client.reputation.score('agent://worker', { now: () => NOW });
+    assert.equal(result.settlements, 2);
+    assert.equal(result.factors.outcomes.score, 0.5);
+
+    const verdict = await settlementGuard({
+      amount: '50',
+      currency: 'USDC',
+      recipientAddress: '0x1234567890abcdef1234567890abcdef12345678',
+      serviceDescription: 'Data analysis and report generation',
+      reputationScore: result.score,
+    });
+    assert.equal(verdict.classification, 'pass');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CircuitBreaker,
+  computeBackoff,
+  isRetryableError,
+  isRetryableRequest,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '../dist/retry.js';
+import { AgntorError } from '../dist/types.js';
+
+describe('resolveRetryPolicy()', () => {
+  it('fills defaults and inherits maxRetries', () => {
+    const policy = resolveRetryPolicy({}, 5);
+    assert.equal(policy.maxRetries, 5);
+    assert.equal(policy.baseDelay, 200);
+    assert.ok(policy.retryStatuses.includes(429));
+    assert.equal(policy.circuitBreaker.failureThreshold, 5);
+  });
+
+  it('allows disabling the circuit breaker', () => {
+    assert.equal(resolveRetryPolicy({ circuitBreaker: false }).circuitBreaker, false);
+  });
+});
+
+describe('computeBackoff()', () => {
+  const policy = { baseDelay: 100, maxDelay: 1000 };
+
+  it('scales the jitter window exponentially', () => {
+    assert.equal(computeBackoff(0, policy, () => 0.999), 99);
+    assert.equal(computeBackoff(2, policy, () => 0.5), 200);
+  });
+
+  it('caps the window at maxDelay', () => {
+    assert.equal(computeBackoff(10, policy, () => 0.5), 500);
+  });
+
+  it('can return zero (full jitter)', () => {
+    assert.equal(computeBackoff(3, policy, () => 0), 0);
+  });
+});
+
+describe('parseRetryAfter()', () => {
+  it('parses delta-seconds', () => {
+    assert.equal(parseRetryAfter('3'), 3000);
+  });
+
+  it('parses HTTP-dates relative to now', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now), 10_000);
+  });
+
+  it('returns undefined for missing or malformed values', () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter('soon'), undefined);
+  });
+});
+
+describe('retry eligibility', () => {
+  it('retries GET and idempotent-keyed requests only', () => {
+    assert.equal(isRetryableRequest('GET', {}), true);
+    assert.equal(isRetryableRequest('POST', {}), false);
+    assert.equal(isRetryableRequest('POST', { 'Idempotency-Key': 'k' }), true);
+  });
+
+  it('classifies transient errors', () => {
+    const policy = resolveRetryPolicy();
+    assert.equal(isRetryableError(new AgntorError('x', 'API_ERROR', 503), policy), true);
+    assert.equal(isRetryableError(new AgntorError('x', 'API_ERROR', 429), policy), true);
+    assert.equal(isRetryableError(new AgntorError('x', 'API_ERROR', 400), policy), false);
+    assert.equal(isRetryableError(new AgntorError('x', 'TIMEOUT'), policy), true);
+    assert.equal(isRetryableError(new AgntorError('x', 'CIRCUIT_OPEN'), policy), false);
+    assert.equal(isRetryableError(new TypeError('fetch failed'), policy), true);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  function createBreaker() {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 }, () => now);
+    return { breaker, advance: (ms) => { now += ms; } };
+  }
+
+  it('opens after the failure threshold and fails fast', () => {
+    const { breaker } = createBreaker();
+    breaker.recordFailure('api');
+    breaker.check('api');
+    breaker.recordFailure('api');
+    assert.equal(breaker.state('api'), 'open');
+    assert.throws(() => breaker.check('api'), (err) => err.code === 'CIRCUIT_OPEN' && err.retryAfterMs === 1000);
+  });
+
+  it('tracks hosts independently', () => {
+    const { breaker } = createBreaker();
+    breaker.recordFailure('a');
+    breaker.recordFailure('a');
+    assert.doesNotThrow(() => breaker.check('b'));
+  });
+
+  it('lets one probe through after resetTimeout and closes on success', () => {
+    const { breaker, advance } = createBreaker();
+    breaker.recordFailure('api');
+    breaker.recordFailure('api');
+    advance(1000);
+    assert.doesNotThrow(() => breaker.check('api'));
+    assert.throws(() => breaker.check('api'), (err) => err.code === 'CIRCUIT_OPEN');
+    breaker.recordSuccess('api');
+    assert.equal(breaker.state('api'), 'closed');
+  });
+
+  it('re-opens when the probe fails', () => {
+    const { breaker, advance } = createBreaker();
+    breaker.recordFailure('api');
+    breaker.recordFailure('api');
+    advance(1000);
+    breaker.check('api');
+    breaker.recordFailure('api');
+    assert.equal(breaker.state('api'), 'open');
+  });
+});
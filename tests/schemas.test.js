@@ -1,6 +1,14 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { parseStructuredOutput, GuardResponseSchema, SettlementDecisionSchema, SimulationResultSchema } from '../dist/schemas.js';
+import {
+  parseStructuredOutput,
+  GuardResponseSchema,
+  SettlementDecisionSchema,
+  SimulationResultSchema,
+  ReputationHistorySchema,
+  DisputeRecordSchema,
+  withValidationMode,
+} from '../dist/schemas.js';
 
 describe('parseStructuredOutput()', () => {
   describe('basic JSON parsing', () => {
@@ -122,3 +130,44 @@ describe('parseStructuredOutput()', () => {
     });
   });
 });
+
+describe('withValidationMode()', () => {
+  const entry = { timestamp: '2026-01-01T00:00:00Z', event: 'escrow_released', details: { amount: 5 }, source: 'chain' };
+
+  it('keeps unknown keys in nested objects when lenient', () => {
+    const result = withValidationMode(ReputationHistorySchema, 'lenient').parse([entry]);
+    assert.equal(result[0].source, 'chain');
+  });
+
+  it('rejects unknown keys in nested objects when strict', () => {
+    const result = withValidationMode(ReputationHistorySchema, 'strict').safeParse([entry]);
+    assert.equal(result.success, false);
+    assert.equal(result.error.issues[0].code, 'unrecognized_keys');
+  });
+
+  it('applies the policy to the members of discriminated unions', () => {
+    const dispute = {
+      disputeId: 'd1',
+      escrowId: 'e1',
+      status: 'resolved',
+      openedBy: 'agent://payer',
+      reason: 'late',
+      evidence: [],
+      openedAt: '2026-01-01T00:00:00Z',
+      outcome: { ruling: 'split', released: 3, slashed: 2, arbiter: 'panel-7' },
+    };
+
+    assert.equal(withValidationMode(DisputeRecordSchema, 'lenient').parse(dispute).outcome.arbiter, 'panel-7');
+    const result = withValidationMode(DisputeRecordSchema, 'strict').safeParse(dispute);
+    assert.equal(result.success, false);
+    assert.equal(result.error.issues[0].code, 'unrecognized_keys');
+    assert.deepEqual(result.error.issues[0].path, ['outcome']);
+  });
+
+  it('returns the same derived schema on repeated calls', () => {
+    assert.equal(
+      withValidationMode(ReputationHistorySchema, 'strict'),
+      withValidationMode(ReputationHistorySchema, 'strict'),
+    );
+  });
+});
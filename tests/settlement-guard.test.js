@@ -1,6 +1,7 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
 import { settlementGuard } from '../dist/settlement-guard.js';
+import { parseMoney } from '../dist/money.js';
 
 describe('settlementGuard()', () => {
   const baseMeta = {
@@ -49,6 +50,58 @@ describe('settlementGuard()', () => {
       });
       assert.ok(result.riskFactors.some((f) => f.includes('high-value')));
     });
+
+    it('reads grouped amounts instead of stripping characters', async () => {
+      const result = await settlementGuard({ ...baseMeta, amount: '1,000.50 USDC' });
+      assert.ok(result.riskFactors.includes(
+        'Transaction amount (1,000.5 USDC) exceeds high-value threshold (500 USDC)',
+      ));
+      const small = await settlementGuard({ ...baseMeta, amount: parseMoney('500 USDC') });
+      assert.deepEqual(small.riskFactors, []);
+    });
+
+    it('honours custom thresholds', async () => {
+      const eth = await settlementGuard(
+        { ...baseMeta, currency: 'ETH', amount: '2.5' },
+        { highValueThresholds: [parseMoney('2 ETH')] },
+      );
+      assert.ok(eth.riskFactors.some((f) => f.includes('high-value')));
+    });
+
+    it('flags high-value stablecoin amounts against the USD default', async () => {
+      const usdt = await settlementGuard({ ...baseMeta, currency: 'USDT', amount: '1,000,000' });
+      assert.ok(usdt.riskFactors.includes('Transaction amount (1,000,000 USDT) exceeds high-value threshold (500 USDT)'));
+
+      const custom = await settlementGuard(
+        { ...baseMeta, amount: '600' },
+        { highValueThresholds: [parseMoney('2 ETH')] },
+      );
+      assert.ok(custom.riskFactors.some((f) => f.includes('high-value')), 'custom thresholds keep the defaults');
+    });
+  });
+
+  describe('heuristic: token without a threshold', () => {
+    it('flags the amount as unchecked instead of guessing a threshold', async () => {
+      const eth = await settlementGuard({ ...baseMeta, currency: 'ETH', amount: '400' });
+      assert.deepEqual(eth.riskFactors, ['No high-value threshold for ETH; the amount (400 ETH) was not checked']);
+      assert.equal(eth.riskScore, 0.15);
+
+      const small = await settlementGuard({ ...baseMeta, currency: 'ETH', amount: '1' }, { highValueThresholds: [parseMoney('2 ETH')] });
+      assert.deepEqual(small.riskFactors, []);
+    });
+  });
+
+  describe('heuristic: unreadable amount', () => {
+    it('flags amounts it cannot read', async () => {
+      const garbled = await settlementGuard({ ...baseMeta, amount: '1.000.000' });
+      assert.ok(garbled.riskFactors.some((f) => f.includes('not a valid USDC amount')));
+    });
+
+    it('scores an unreadable amount as its own factor', async () => {
+      const result = await settlementGuard({ ...baseMeta, amount: 'lots' });
+      assert.deepEqual(result.riskFactors, ['Transaction amount "lots" is not a valid USDC amount']);
+      assert.equal(result.riskScore, 0.15);
+    });
   });
 
   describe('heuristic: vague description', () => {
@@ -0,0 +1,204 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Agntor } from '../dist/agntor.js';
+import { MockAgntorApi } from '../dist/mock-api.js';
+import { signRequest, RequestVerifier, MemoryNonceStore, SIGNATURE_HEADERS } from '../dist/signing.js';
+
+const SECRET = 'agntor_test_secret';
+const NOW = Date.UTC(2026, 0, 1);
+const NOW_SECONDS = Math.floor(NOW / 1000);
+
+function signed(overrides = {}) {
+  const params = {
+    method: 'POST',
+    path: '/api/v1/escrow/create',
+    body: '{"amount":10}',
+    keyId: 'key_1',
+    secret: SECRET,
+    timestamp: NOW_SECONDS,
+    headers: { 'x-agent-id': 'agent://signer', 'x-chain': 'base' },
+    ...overrides,
+  };
+  return { method: params.method, path: params.path, body: params.body, headers: { ...params.headers, ...signRequest(params) } };
+}
+
+function verifier(extra = {}) {
+  return new RequestVerifier({ keys: { key_1: SECRET }, now: () => NOW, ...extra });
+}
+
+describe('signRequest()', () => {
+  it('emits key ID and signature headers but never the secret', () => {
+    const headers = signRequest({ method: 'GET', path: '/x', keyId: 'key_1', secret: SECRET });
+    for (const name of Object.values(SIGNATURE_HEADERS)) {
+      assert.ok(headers[name], `missing ${name}`);
+    }
+    assert.equal(headers[SIGNATURE_HEADERS.keyId], 'key_1');
+    assert.ok(!Object.values(headers).some((v) => v.includes(SECRET)));
+    assert.match(headers[SIGNATURE_HEADERS.signature], /^[0-9a-f]{64}$/);
+  });
+
+  it('is deterministic for a fixed timestamp and nonce', () => {
+    const params = { method: 'GET', path: '/x', keyId: 'k', secret: SECRET, timestamp: 1, nonce: 'n' };
+    assert.deepEqual(signRequest(params), signRequest(params));
+  });
+
+  it('uses a fresh nonce per call', () => {
+    const params = { method: 'GET', path: '/x', keyId: 'k', secret: SECRET };
+    assert.notEqual(signRequest(params)[SIGNATURE_HEADERS.nonce], signRequest(params)[SIGNATURE_HEADERS.nonce]);
+  });
+});
+
+describe('RequestVerifier', () => {
+  it('accepts a correctly signed request', async () => {
+    const result = await verifier().verify(signed());
+    assert.deepEqual(result, { valid: true, keyId: 'key_1' });
+  });
+
+  it('accepts Headers instances and mixed-case header names', async () => {
+    const req = signed();
+    const upper = Object.fromEntries(Object.entries(req.headers).map(([k, v]) => [k.toUpperCase(), v]));
+    assert.equal((await verifier().verify({ ...req, headers: upper })).valid, true);
+    assert.equal((await verifier().verify({ ...signed(), headers: new Headers(signed().headers) })).valid, true);
+  });
+
+  it('rejects missing headers', async () => {
+    const result = await verifier().verify({ method: 'GET', path: '/x', headers: { 'x-api-key': SECRET } });
+    assert.equal(result.errorCode, 'MISSING_HEADERS');
+  });
+
+  it('rejects unknown key IDs', async () => {
+    const result = await verifier().verify(signed({ keyId: 'key_2' }));
+    assert.equal(result.errorCode, 'UNKNOWN_KEY');
+  });
+
+  it('supports an async key lookup', async () => {
+    const v = verifier({ keys: async (id) => (id === 'key_1' ? SECRET : undefined) });
+    assert.equal((await v.verify(signed())).valid, true);
+  });
+
+  it('rejects a wrong secret', async () => {
+    const result = await verifier().verify(signed({ secret: 'other' }));
+    assert.equal(result.errorCode, 'INVALID_SIGNATURE');
+  });
+
+  it('rejects a tampered path or method', async () => {
+    assert.equal((await verifier().verify({ ...signed(), path: '/api/v1/escrow/cancel' })).errorCode, 'INVALID_SIGNATURE');
+    assert.equal((await verifier().verify({ ...signed(), method: 'PUT' })).errorCode, 'INVALID_SIGNATURE');
+  });
+
+  it('rejects a request redirected to another agent or chain', async () => {
+    for (const [name, value] of [['x-agent-id', 'agent://victim'], ['x-chain', 'ethereum']]) {
+      const req = signed();
+      const result = await verifier().verify({ ...req, headers: { ...req.headers, [name]: value } });
+      assert.equal(result.errorCode, 'INVALID_SIGNATURE', name);
+    }
+  });
+
+  it('covers the query string, in any parameter order', async () => {
+    const req = signed({ method: 'GET', path: '/api/v1/escrow?status=funded&limit=50', body: '' });
+    assert.equal((await verifier().verify({ ...req, path: '/api/v1/escrow?limit=50&status=funded' })).valid, true);
+    const tampered = signed({ method: 'GET', path: '/api/v1/escrow?status=funded', body: '' });
+    assert.equal((await verifier().verify({ ...tampered, path: '/api/v1/escrow?status=released' })).errorCode, 'INVALID_SIGNATURE');
+  });
+
+  it('rejects a tampered body', async () => {
+    const result = await verifier().verify({ ...signed(), body: '{"amount":10000}' });
+    assert.equal(result.errorCode, 'BODY_MISMATCH');
+  });
+
+  it('tolerates clock skew within the window', async () => {
+    assert.equal((await verifier().verify(signed({ timestamp: NOW_SECONDS - 299 }))).valid, true);
+    assert.equal((await verifier().verify(signed({ timestamp: NOW_SECONDS + 299 }))).valid, true);
+  });
+
+  it('rejects timestamps outside the window', async () => {
+    assert.equal((await verifier().verify(signed({ timestamp: NOW_SECONDS - 301 }))).errorCode, 'CLOCK_SKEW');
+    assert.equal((await verifier({ clockSkew: 10 }).verify(signed({ timestamp: NOW_SECONDS + 11 }))).errorCode, 'CLOCK_SKEW');
+  });
+
+  it('rejects replayed nonces', async () => {
+    const v = verifier();
+    const req = signed({ nonce: 'abc' });
+    assert.equal((await v.verify(req)).valid, true);
+    assert.equal((await v.verify(req)).errorCode, 'REPLAYED_NONCE');
+  });
+
+  it('does not burn nonces of rejected requests', async () => {
+    const v = verifier();
+    assert.equal((await v.verify(signed({ nonce: 'abc', secret: 'forged' }))).valid, false);
+    assert.equal((await v.verify(signed({ nonce: 'abc' }))).valid, true);
+  });
+});
+
+describe('MemoryNonceStore', () => {
+  it('forgets nonces after they expire', () => {
+    let now = 0;
+    const store = new MemoryNonceStore(() => now);
+    assert.equal(store.add('n', 100), true);
+    assert.equal(store.add('n', 100), false);
+    now = 100;
+    assert.equal(store.add('n', 200), true);
+  });
+});
+
+describe('Agntor with signing', () => {
+  function setup() {
+    const mock = new MockAgntorApi({ verifier: new RequestVerifier({ keys: { key_1: SECRET } }) });
+    const client = new Agntor({
+      apiKey: SECRET,
+      agentId: 'agent://signer',
+      chain: 'base',
+      signing: { keyId: 'key_1' },
+      retry: { baseDelay: 1, maxDelay: 2 },
+      ...mock.clientConfig(),
+    });
+    return { mock, client };
+  }
+
+  it('signs requests and omits x-api-key', async () => {
+    const { mock, client } = setup();
+    await client.identity.register();
+    const me = await client.identity.me();
+    assert.equal(me.agentId, 'agent://signer');
+    for (const req of mock.requests) {
+      assert.equal(req.headers['x-api-key'], undefined);
+      assert.equal(req.headers[SIGNATURE_HEADERS.keyId], 'key_1');
+    }
+  });
+
+  it('signs each retry with a new nonce', async () => {
+    const { mock, client } = setup();
+    await client.identity.register();
+    mock.injectFault({ method: 'GET', status: 503, times: 1 });
+    await client.identity.me();
+    const gets = mock.requests.filter((r) => r.method === 'GET');
+    assert.equal(gets.length, 2);
+    assert.notEqual(gets[0].headers[SIGNATURE_HEADERS.nonce], gets[1].headers[SIGNATURE_HEADERS.nonce]);
+  });
+
+  it('covers bodies rewritten by middleware', async () => {
+    const { mock } = setup();
+    const client = new Agntor({
+      apiKey: SECRET,
+      agentId: 'agent://signer',
+      chain: 'base',
+      signing: { keyId: 'key_1' },
+      middleware: [{ beforeRequest: (ctx) => { if (ctx.body) ctx.body = { ...ctx.body, tag: 'mw' }; } }],
+      ...mock.clientConfig(),
+    });
+    await client.identity.register();
+    assert.equal(mock.requests[0].body.tag, 'mw');
+  });
+
+  it('is rejected by the server when the key ID does not match', async () => {
+    const { mock } = setup();
+    const client = new Agntor({
+      apiKey: SECRET,
+      agentId: 'agent://signer',
+      chain: 'base',
+      signing: { keyId: 'key_unknown' },
+      ...mock.clientConfig(),
+    });
+    await assert.rejects(() => client.identity.register(), (err) => err.code === 'API_ERROR' && err.statusCode === 401);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatAtomicAmount,
+  parsePaymentRequired,
+  selectRequirement,
+  toTransactionMeta,
+} from '../dist/x402.js';
+
+const requirement = {
+  scheme: 'exact',
+  network: 'base',
+  maxAmountRequired: '50000',
+  resource: 'https://api.example.com/report',
+  description: 'Market data report',
+  payTo: '0x1234567890abcdef1234567890abcdef12345678',
+  asset: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+  extra: { name: 'USDC', decimals: 6 },
+};
+
+describe('parsePaymentRequired()', () => {
+  it('parses a valid x402 offer', () => {
+    const offer = parsePaymentRequired({ x402Version: 1, accepts: [requirement] });
+    assert.equal(offer.accepts[0].payTo, requirement.payTo);
+  });
+
+  it('rejects bodies that are not x402 offers', () => {
+    assert.throws(
+      () => parsePaymentRequired({ price: 5 }),
+      (err) => err.code === 'INVALID_PAYMENT_REQUIREMENTS',
+    );
+  });
+
+  it('rejects non-integer atomic amounts', () => {
+    assert.throws(
+      () => parsePaymentRequired({ x402Version: 1, accepts: [{ ...requirement, maxAmountRequired: '0.05' }] }),
+      /maxAmountRequired/,
+    );
+  });
+});
+
+describe('formatAtomicAmount()', () => {
+  it('formats atomic units as a decimal string', () => {
+    assert.equal(formatAtomicAmount('1500000', 6), '1.5');
+    assert.equal(formatAtomicAmount('50000', 6), '0.05');
+    assert.equal(formatAtomicAmount('7', 0), '7');
+  });
+});
+
+describe('toTransactionMeta()', () => {
+  it('derives guard input from a requirement', () => {
+    const meta = toTransactionMeta(requirement, 0.8);
+    assert.equal(meta.amount, '0.05');
+    assert.equal(meta.currency, 'USDC');
+    assert.equal(meta.recipientAddress, requirement.payTo);
+    assert.equal(meta.serviceDescription, 'Market data report');
+    assert.equal(meta.reputationScore, 0.8);
+  });
+});
+
+describe('selectRequirement()', () => {
+  const other = { ...requirement, network: 'polygon', payTo: '0xabc' };
+
+  it('prefers the configured network', () => {
+    const chosen = selectRequirement({ x402Version: 1, accepts: [other, requirement] }, {}, 'base');
+    assert.equal(chosen.network, 'base');
+  });
+
+  it('enforces allowedRecipients', () => {
+    assert.throws(
+      () => selectRequirement({ x402Version: 1, accepts: [requirement] }, { allowedRecipients: ['0xdead'] }),
+      (err) => err.code === 'RECIPIENT_NOT_ALLOWED',
+    );
+  });
+
+  it('enforces maxPrice', () => {
+    assert.throws(
+      () => selectRequirement({ x402Version: 1, accepts: [requirement] }, { maxPrice: 0.01 }),
+      (err) => err.code === 'PAYMENT_LIMIT_EXCEEDED',
+    );
+  });
+
+  it('falls through to a requirement within limits', () => {
+    const cheap = { ...other, maxAmountRequired: '1000' };
+    const chosen = selectRequirement({ x402Version: 1, accepts: [requirement, cheap] }, { maxPrice: 0.01 }, 'base');
+    assert.equal(chosen.network, 'polygon');
+  });
+});